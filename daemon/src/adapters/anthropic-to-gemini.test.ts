@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertAnthropicMessages,
+  convertAnthropicToolChoice,
+  buildAnthropicRequestBody,
+  type AnthropicMessage,
+} from "./anthropic-to-gemini.js";
+import { InvalidRequestError } from "../errors.js";
+
+describe("convertAnthropicMessages", () => {
+  it("converts string content to text parts", () => {
+    const messages: AnthropicMessage[] = [
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Hi there" },
+    ];
+    expect(convertAnthropicMessages(messages)).toEqual([
+      { role: "user", parts: [{ text: "Hello" }] },
+      { role: "model", parts: [{ text: "Hi there" }] },
+    ]);
+  });
+
+  it("converts tool_use and tool_result blocks", () => {
+    const messages: AnthropicMessage[] = [
+      { role: "user", content: "Weather in London?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Let me check." },
+          { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "London" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_1", content: '{"temp":22}' }],
+      },
+    ];
+    const contents = convertAnthropicMessages(messages);
+
+    expect(contents[1]).toEqual({
+      role: "model",
+      parts: [
+        { text: "Let me check." },
+        { functionCall: { name: "get_weather", args: { city: "London" } } },
+      ],
+    });
+    expect(contents[2]).toEqual({
+      role: "user",
+      parts: [{ functionResponse: { name: "get_weather", response: { temp: 22 } } }],
+    });
+  });
+
+  it("wraps errored tool results", () => {
+    const messages: AnthropicMessage[] = [
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "toolu_1", name: "run", input: {} }],
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: "toolu_1",
+            content: [{ type: "text", text: "boom" }],
+            is_error: true,
+          },
+        ],
+      },
+    ];
+    const contents = convertAnthropicMessages(messages);
+    expect(contents[1].parts[0]).toEqual({
+      functionResponse: { name: "run", response: { error: "boom" } },
+    });
+  });
+
+  it("converts base64 image blocks to inlineData", () => {
+    const contents = convertAnthropicMessages([
+      {
+        role: "user",
+        content: [
+          { type: "image", source: { type: "base64", media_type: "image/jpeg", data: "/9j/4AAQ" } },
+          { type: "text", text: "Describe this." },
+        ],
+      },
+    ]);
+    expect(contents[0].parts).toEqual([
+      { inlineData: { mimeType: "image/jpeg", data: "/9j/4AAQ" } },
+      { text: "Describe this." },
+    ]);
+  });
+
+  it("rejects tool_result for an unknown tool_use_id", () => {
+    const messages: AnthropicMessage[] = [
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_missing", content: "x" }],
+      },
+    ];
+    expect(() => convertAnthropicMessages(messages)).toThrow(InvalidRequestError);
+  });
+});
+
+describe("convertAnthropicToolChoice", () => {
+  it("maps each tool_choice type", () => {
+    expect(convertAnthropicToolChoice({ type: "auto" })).toEqual({
+      functionCallingConfig: { mode: "AUTO" },
+    });
+    expect(convertAnthropicToolChoice({ type: "any" })).toEqual({
+      functionCallingConfig: { mode: "ANY" },
+    });
+    expect(convertAnthropicToolChoice({ type: "none" })).toEqual({
+      functionCallingConfig: { mode: "NONE" },
+    });
+    expect(convertAnthropicToolChoice({ type: "tool", name: "search" })).toEqual({
+      functionCallingConfig: { mode: "ANY", allowedFunctionNames: ["search"] },
+    });
+  });
+});
+
+describe("buildAnthropicRequestBody", () => {
+  it("maps system blocks, generation config and tools", () => {
+    const body = buildAnthropicRequestBody({
+      model: "gemini-2.5-flash",
+      system: [
+        { type: "text", text: "You are helpful." },
+        { type: "text", text: "Be concise." },
+      ],
+      messages: [{ role: "user", content: "Hi" }],
+      max_tokens: 1024,
+      temperature: 0.5,
+      top_k: 40,
+      stop_sequences: ["END"],
+      tools: [
+        {
+          name: "search",
+          description: "Search the web",
+          input_schema: { type: "object", properties: { q: { type: "string" } } },
+        },
+      ],
+    });
+
+    expect(body.systemInstruction).toEqual({
+      parts: [{ text: "You are helpful.\nBe concise." }],
+    });
+    expect(body.generationConfig).toEqual({
+      maxOutputTokens: 1024,
+      temperature: 0.5,
+      topK: 40,
+      stopSequences: ["END"],
+    });
+    expect(body.tools).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: "search",
+            description: "Search the web",
+            parametersJsonSchema: { type: "object", properties: { q: { type: "string" } } },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("omits optional fields when absent", () => {
+    const body = buildAnthropicRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(body).toEqual({ contents: [{ role: "user", parts: [{ text: "Hi" }] }] });
+  });
+});
@@ -0,0 +1,222 @@
+import type { GeminiPart } from "../services/gemini-client.js";
+import { InvalidRequestError } from "../errors.js";
+import { createInlineBudget, inlineDataPart } from "./media.js";
+import {
+  safeParseJson,
+  type GeminiContent,
+  type GeminiFunctionDeclaration,
+  type GeminiRequestBody,
+  type GeminiTool,
+  type GeminiToolConfig,
+} from "./openai-to-gemini.js";
+
+// --- Anthropic Request Types ---
+
+export interface AnthropicTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | AnthropicTextBlock[];
+  is_error?: boolean;
+}
+
+export interface AnthropicMediaBlock {
+  type: "image" | "document";
+  source: { type: "base64"; media_type: string; data: string } | { type: string };
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicMediaBlock
+  | { type: string; [key: string]: unknown };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: Record<string, unknown>;
+}
+
+export type AnthropicToolChoice =
+  | { type: "auto" }
+  | { type: "any" }
+  | { type: "none" }
+  | { type: "tool"; name: string };
+
+export interface AnthropicMessagesRequest {
+  model?: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicTextBlock[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+}
+
+// --- Conversion ---
+
+function extractSystem(system: AnthropicMessagesRequest["system"]): string | undefined {
+  if (system == null) return undefined;
+  if (typeof system === "string") return system || undefined;
+  const text = system
+    .filter((b) => b.type === "text" && b.text)
+    .map((b) => b.text)
+    .join("\n");
+  return text || undefined;
+}
+
+function toolResultText(content: AnthropicToolResultBlock["content"]): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((b) => b.type === "text" && b.text)
+    .map((b) => b.text)
+    .join("\n");
+}
+
+export function convertAnthropicMessages(messages: AnthropicMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+  // tool_result blocks only carry the tool_use id; Gemini wants the function name
+  const toolNames = new Map<string, string>();
+  const budget = createInlineBudget();
+
+  messages.forEach((msg, i) => {
+    const blocks: AnthropicContentBlock[] =
+      typeof msg.content === "string"
+        ? [{ type: "text", text: msg.content }]
+        : msg.content ?? [];
+    const parts: GeminiPart[] = [];
+
+    blocks.forEach((block, j) => {
+      if (block.type === "text") {
+        const { text } = block as AnthropicTextBlock;
+        if (text) parts.push({ text });
+        return;
+      }
+
+      if (block.type === "image" || block.type === "document") {
+        const { source } = block as AnthropicMediaBlock;
+        const param = `messages.${i}.content.${j}.source`;
+        if (source?.type !== "base64" || !("data" in source)) {
+          throw new InvalidRequestError("Only base64 media sources are supported", param);
+        }
+        parts.push(inlineDataPart(source.media_type, source.data, param, budget));
+        return;
+      }
+
+      if (block.type === "tool_use") {
+        const toolUse = block as AnthropicToolUseBlock;
+        toolNames.set(toolUse.id, toolUse.name);
+        parts.push({
+          functionCall: { name: toolUse.name, args: toolUse.input ?? {} },
+        });
+        return;
+      }
+
+      if (block.type === "tool_result") {
+        const result = block as AnthropicToolResultBlock;
+        const name = toolNames.get(result.tool_use_id);
+        if (!name) {
+          throw new InvalidRequestError(
+            `tool_result references unknown tool_use_id '${result.tool_use_id}'`,
+            `messages.${i}.content.${j}.tool_use_id`,
+          );
+        }
+        const text = toolResultText(result.content);
+        parts.push({
+          functionResponse: {
+            name,
+            response: result.is_error ? { error: text } : safeParseJson(text),
+          },
+        });
+      }
+    });
+
+    if (parts.length > 0) {
+      contents.push({ role: msg.role === "assistant" ? "model" : "user", parts });
+    }
+  });
+
+  return contents;
+}
+
+export function convertAnthropicTools(tools?: AnthropicTool[]): GeminiTool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  const declarations: GeminiFunctionDeclaration[] = tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    parametersJsonSchema: t.input_schema,
+  }));
+
+  return [{ functionDeclarations: declarations }];
+}
+
+export function convertAnthropicToolChoice(
+  toolChoice?: AnthropicToolChoice,
+): GeminiToolConfig | undefined {
+  if (!toolChoice) return undefined;
+
+  switch (toolChoice.type) {
+    case "none":
+      return { functionCallingConfig: { mode: "NONE" } };
+    case "auto":
+      return { functionCallingConfig: { mode: "AUTO" } };
+    case "any":
+      return { functionCallingConfig: { mode: "ANY" } };
+    case "tool":
+      return {
+        functionCallingConfig: { mode: "ANY", allowedFunctionNames: [toolChoice.name] },
+      };
+    default:
+      return undefined;
+  }
+}
+
+export function buildAnthropicRequestBody(req: AnthropicMessagesRequest): GeminiRequestBody {
+  const body: GeminiRequestBody = { contents: convertAnthropicMessages(req.messages) };
+
+  const systemInstruction = extractSystem(req.system);
+  if (systemInstruction) {
+    body.systemInstruction = { parts: [{ text: systemInstruction }] };
+  }
+
+  const generationConfig: Record<string, unknown> = {};
+  if (req.temperature !== undefined) generationConfig.temperature = req.temperature;
+  if (req.max_tokens !== undefined) generationConfig.maxOutputTokens = req.max_tokens;
+  if (req.top_p !== undefined) generationConfig.topP = req.top_p;
+  if (req.top_k !== undefined) generationConfig.topK = req.top_k;
+  if (req.stop_sequences?.length) generationConfig.stopSequences = req.stop_sequences;
+  if (Object.keys(generationConfig).length > 0) {
+    body.generationConfig = generationConfig;
+  }
+
+  const geminiTools = convertAnthropicTools(req.tools);
+  if (geminiTools) body.tools = geminiTools;
+
+  const toolConfig = convertAnthropicToolChoice(req.tool_choice);
+  if (toolConfig) body.toolConfig = toolConfig;
+
+  return body;
+}
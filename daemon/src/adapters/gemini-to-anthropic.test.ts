@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { convertToAnthropicResponse } from "./gemini-to-anthropic.js";
+import type { GeminiResponse } from "../services/gemini-client.js";
+
+describe("convertToAnthropicResponse", () => {
+  it("converts text response to a message", () => {
+    const gemini: GeminiResponse = {
+      candidates: [
+        {
+          content: { parts: [{ text: "Hello" }, { text: " world" }], role: "model" },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 3, totalTokenCount: 13 },
+    };
+
+    const result = convertToAnthropicResponse(gemini, "gemini-2.5-flash");
+
+    expect(result.type).toBe("message");
+    expect(result.role).toBe("assistant");
+    expect(result.model).toBe("gemini-2.5-flash");
+    expect(result.id).toMatch(/^msg_/);
+    expect(result.content).toEqual([{ type: "text", text: "Hello world" }]);
+    expect(result.stop_reason).toBe("end_turn");
+    expect(result.usage).toEqual({ input_tokens: 10, output_tokens: 3 });
+  });
+
+  it("converts function calls to tool_use blocks", () => {
+    const gemini: GeminiResponse = {
+      candidates: [
+        {
+          content: {
+            parts: [
+              { text: "Checking." },
+              { functionCall: { name: "get_weather", args: { city: "London" } } },
+            ],
+            role: "model",
+          },
+          finishReason: "STOP",
+        },
+      ],
+    };
+
+    const result = convertToAnthropicResponse(gemini, "gemini-2.5-flash");
+
+    expect(result.content).toHaveLength(2);
+    const toolUse = result.content[1];
+    expect(toolUse.type).toBe("tool_use");
+    if (toolUse.type === "tool_use") {
+      expect(toolUse.id).toMatch(/^toolu_/);
+      expect(toolUse.name).toBe("get_weather");
+      expect(toolUse.input).toEqual({ city: "London" });
+    }
+    expect(result.stop_reason).toBe("tool_use");
+  });
+
+  it("maps stop reasons", () => {
+    const cases: [string, string][] = [
+      ["STOP", "end_turn"],
+      ["MAX_TOKENS", "max_tokens"],
+      ["SAFETY", "refusal"],
+      ["OTHER", "end_turn"],
+    ];
+
+    for (const [geminiReason, expected] of cases) {
+      const result = convertToAnthropicResponse(
+        {
+          candidates: [
+            { content: { parts: [{ text: "hi" }], role: "model" }, finishReason: geminiReason },
+          ],
+        },
+        "test-model",
+      );
+      expect(result.stop_reason).toBe(expected);
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import type { GeminiResponse } from "../services/gemini-client.js";
+import { v4 as uuidv4 } from "uuid";
+
+// --- Anthropic Response Types ---
+
+export type AnthropicResponseBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface AnthropicMessageResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: AnthropicResponseBlock[];
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+// --- Stop Reason Mapping ---
+
+const STOP_REASON_MAP: Record<string, string> = {
+  STOP: "end_turn",
+  MAX_TOKENS: "max_tokens",
+  SAFETY: "refusal",
+  RECITATION: "refusal",
+  LANGUAGE: "refusal",
+  BLOCKLIST: "refusal",
+  PROHIBITED_CONTENT: "refusal",
+  SPII: "refusal",
+  MALFORMED_FUNCTION_CALL: "end_turn",
+  OTHER: "end_turn",
+};
+
+export function mapStopReason(reason: string | undefined, hasToolUse: boolean): string | null {
+  if (hasToolUse) return "tool_use";
+  if (!reason) return null;
+  return STOP_REASON_MAP[reason] ?? "end_turn";
+}
+
+// --- Helpers ---
+
+export function anthropicMessageId(): string {
+  return `msg_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+}
+
+export function anthropicToolUseId(): string {
+  return `toolu_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+}
+
+export function convertAnthropicUsage(
+  usage: GeminiResponse["usageMetadata"],
+): AnthropicUsage {
+  return {
+    input_tokens: usage?.promptTokenCount ?? 0,
+    output_tokens: usage?.candidatesTokenCount ?? 0,
+  };
+}
+
+// --- Conversion ---
+
+export function convertToAnthropicResponse(
+  geminiResponse: GeminiResponse,
+  model: string,
+): AnthropicMessageResponse {
+  const candidate = geminiResponse.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+
+  const content: AnthropicResponseBlock[] = [];
+  for (const part of parts) {
+    if (part.functionCall) {
+      content.push({
+        type: "tool_use",
+        id: anthropicToolUseId(),
+        name: part.functionCall.name,
+        input: part.functionCall.args ?? {},
+      });
+    } else if (part.text && !part.thought) {
+      // Merge adjacent text parts into a single block
+      const last = content[content.length - 1];
+      if (last?.type === "text") {
+        last.text += part.text;
+      } else {
+        content.push({ type: "text", text: part.text });
+      }
+    }
+  }
+
+  const hasToolUse = content.some((b) => b.type === "tool_use");
+
+  return {
+    id: anthropicMessageId(),
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: mapStopReason(candidate?.finishReason, hasToolUse),
+    stop_sequence: null,
+    usage: convertAnthropicUsage(geminiResponse.usageMetadata),
+  };
+}
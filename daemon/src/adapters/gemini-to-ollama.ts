@@ -0,0 +1,102 @@
+import type { GeminiResponse, GeminiPart } from "../services/gemini-client.js";
+import type { OllamaToolCall } from "./ollama-to-chat.js";
+
+// --- Ollama Response Types ---
+
+export interface OllamaFinalStats {
+  done_reason: string;
+  total_duration: number;
+  load_duration: number;
+  prompt_eval_count: number;
+  eval_count: number;
+}
+
+export interface OllamaChatResponse extends Partial<OllamaFinalStats> {
+  model: string;
+  created_at: string;
+  message: {
+    role: "assistant";
+    content: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+}
+
+export interface OllamaGenerateResponse extends Partial<OllamaFinalStats> {
+  model: string;
+  created_at: string;
+  response: string;
+  done: boolean;
+}
+
+// --- Helpers ---
+
+export function extractOllamaText(parts: GeminiPart[]): string {
+  return parts
+    .filter((p) => p.text !== undefined && !p.thought)
+    .map((p) => p.text)
+    .join("");
+}
+
+export function extractOllamaToolCalls(parts: GeminiPart[]): OllamaToolCall[] {
+  return parts
+    .filter((p) => p.functionCall !== undefined)
+    .map((p) => ({
+      function: { name: p.functionCall!.name, arguments: p.functionCall!.args ?? {} },
+    }));
+}
+
+/** Final-message stats. Durations are nanoseconds, as Ollama reports them. */
+export function ollamaFinalStats(
+  usage: GeminiResponse["usageMetadata"],
+  finishReason: string | undefined,
+  startedAt: number,
+): OllamaFinalStats {
+  return {
+    done_reason: finishReason === "MAX_TOKENS" ? "length" : "stop",
+    total_duration: (Date.now() - startedAt) * 1_000_000,
+    load_duration: 0,
+    prompt_eval_count: usage?.promptTokenCount ?? 0,
+    eval_count: usage?.candidatesTokenCount ?? 0,
+  };
+}
+
+// --- Conversion ---
+
+export function convertToOllamaChat(
+  geminiResponse: GeminiResponse,
+  model: string,
+  startedAt: number,
+): OllamaChatResponse {
+  const candidate = geminiResponse.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  const toolCalls = extractOllamaToolCalls(parts);
+
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: {
+      role: "assistant",
+      content: extractOllamaText(parts),
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    },
+    done: true,
+    ...ollamaFinalStats(geminiResponse.usageMetadata, candidate?.finishReason, startedAt),
+  };
+}
+
+export function convertToOllamaGenerate(
+  geminiResponse: GeminiResponse,
+  model: string,
+  startedAt: number,
+): OllamaGenerateResponse {
+  const candidate = geminiResponse.candidates?.[0];
+
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    response: extractOllamaText(candidate?.content?.parts ?? []),
+    done: true,
+    ...ollamaFinalStats(geminiResponse.usageMetadata, candidate?.finishReason, startedAt),
+  };
+}
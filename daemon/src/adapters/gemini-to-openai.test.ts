@@ -165,4 +165,35 @@ describe("convertResponse", () => {
     expect(result.choices[0].finish_reason).toBeNull();
     expect(result.usage).toBeUndefined();
   });
+
+  it("separates thought summaries into reasoning_content and counts reasoning tokens", () => {
+    const gemini: GeminiResponse = {
+      candidates: [
+        {
+          content: {
+            parts: [{ text: "Considering the options.", thought: true }, { text: "42" }],
+            role: "model",
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: 10,
+        candidatesTokenCount: 2,
+        thoughtsTokenCount: 30,
+        totalTokenCount: 42,
+      },
+    };
+
+    const result = convertResponse(gemini, "gemini-2.5-pro");
+
+    expect(result.choices[0].message.content).toBe("42");
+    expect(result.choices[0].message.reasoning_content).toBe("Considering the options.");
+    expect(result.usage).toEqual({
+      prompt_tokens: 10,
+      completion_tokens: 32,
+      total_tokens: 42,
+      completion_tokens_details: { reasoning_tokens: 30 },
+    });
+  });
 });
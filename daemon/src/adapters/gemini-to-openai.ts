@@ -1,5 +1,6 @@
 import type { GeminiResponse, GeminiPart } from "../services/gemini-client.js";
 import { v4 as uuidv4 } from "uuid";
+import { thoughtSignatures } from "../services/thought-signatures.js";
 
 // --- OpenAI Response Types ---
 
@@ -21,6 +22,7 @@ export interface OpenAIChatChoice {
 export interface OpenAIResponseMessage {
   role: "assistant";
   content: string | null;
+  reasoning_content?: string;
   tool_calls?: OpenAIResponseToolCall[];
 }
 
@@ -37,6 +39,9 @@ export interface OpenAIUsage {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  completion_tokens_details?: {
+    reasoning_tokens: number;
+  };
 }
 
 // --- Streaming Types ---
@@ -47,6 +52,7 @@ export interface OpenAIChatCompletionChunk {
   created: number;
   model: string;
   choices: OpenAIChatChunkChoice[];
+  usage?: OpenAIUsage;
 }
 
 export interface OpenAIChatChunkChoice {
@@ -58,6 +64,7 @@ export interface OpenAIChatChunkChoice {
 export interface OpenAIChunkDelta {
   role?: "assistant";
   content?: string | null;
+  reasoning_content?: string;
   tool_calls?: OpenAIChunkToolCall[];
 }
 
@@ -97,6 +104,27 @@ function extractFunctionCalls(parts: GeminiPart[]): GeminiPart[] {
   return parts.filter((p) => p.functionCall !== undefined);
 }
 
+/** Concatenate answer text, or thought summaries when `thought` is true. */
+export function joinText(parts: GeminiPart[], thought = false): string {
+  return parts
+    .filter((p) => p.text !== undefined && !!p.thought === thought)
+    .map((p) => p.text)
+    .join("");
+}
+
+export function convertUsage(usage: NonNullable<GeminiResponse["usageMetadata"]>): OpenAIUsage {
+  const reasoningTokens = usage.thoughtsTokenCount ?? 0;
+  const result: OpenAIUsage = {
+    prompt_tokens: usage.promptTokenCount ?? 0,
+    completion_tokens: (usage.candidatesTokenCount ?? 0) + reasoningTokens,
+    total_tokens: usage.totalTokenCount ?? 0,
+  };
+  if (usage.thoughtsTokenCount !== undefined) {
+    result.completion_tokens_details = { reasoning_tokens: reasoningTokens };
+  }
+  return result;
+}
+
 // --- Conversion ---
 
 export function convertResponse(
@@ -106,23 +134,30 @@ export function convertResponse(
   const candidate = geminiResponse.candidates?.[0];
   const parts = candidate?.content?.parts ?? [];
 
-  const textParts = parts.filter((p) => p.text !== undefined);
+  const hasText = parts.some((p) => p.text !== undefined && !p.thought);
   const functionCalls = extractFunctionCalls(parts);
 
   const message: OpenAIResponseMessage = {
     role: "assistant",
-    content: textParts.length > 0 ? textParts.map((p) => p.text).join("") : null,
+    content: hasText ? joinText(parts) : null,
   };
 
+  const reasoning = joinText(parts, true);
+  if (reasoning) message.reasoning_content = reasoning;
+
   if (functionCalls.length > 0) {
-    message.tool_calls = functionCalls.map((fc) => ({
-      id: `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`,
-      type: "function" as const,
-      function: {
-        name: fc.functionCall!.name,
-        arguments: JSON.stringify(fc.functionCall!.args ?? {}),
-      },
-    }));
+    message.tool_calls = functionCalls.map((fc) => {
+      const id = `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+      thoughtSignatures.record(id, fc);
+      return {
+        id,
+        type: "function" as const,
+        function: {
+          name: fc.functionCall!.name,
+          arguments: JSON.stringify(fc.functionCall!.args ?? {}),
+        },
+      };
+    });
     if (!message.content) message.content = null;
   }
 
@@ -142,12 +177,6 @@ export function convertResponse(
           : mapFinishReason(candidate?.finishReason),
       },
     ],
-    usage: usage
-      ? {
-          prompt_tokens: usage.promptTokenCount ?? 0,
-          completion_tokens: usage.candidatesTokenCount ?? 0,
-          total_tokens: usage.totalTokenCount ?? 0,
-        }
-      : undefined,
+    usage: usage ? convertUsage(usage) : undefined,
   };
 }
@@ -0,0 +1,168 @@
+import type { GeminiResponse } from "../services/gemini-client.js";
+import { v4 as uuidv4 } from "uuid";
+import type { ResponsesRequest } from "./responses-to-chat.js";
+
+// --- OpenAI Responses Types ---
+
+export interface ResponsesOutputText {
+  type: "output_text";
+  text: string;
+  annotations: unknown[];
+}
+
+export interface ResponsesOutputMessage {
+  type: "message";
+  id: string;
+  status: "in_progress" | "completed";
+  role: "assistant";
+  content: ResponsesOutputText[];
+}
+
+export interface ResponsesOutputFunctionCall {
+  type: "function_call";
+  id: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status: "in_progress" | "completed";
+}
+
+export type ResponsesOutputItem = ResponsesOutputMessage | ResponsesOutputFunctionCall;
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ResponsesObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  output: ResponsesOutputItem[];
+  instructions: string | null;
+  previous_response_id: string | null;
+  incomplete_details: { reason: string } | null;
+  error: { code: string; message: string } | null;
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  metadata: Record<string, string>;
+  usage: ResponsesUsage | null;
+}
+
+// --- Helpers ---
+
+function hexId(prefix: string): string {
+  return `${prefix}_${uuidv4().replace(/-/g, "")}`;
+}
+
+export function responseId(): string {
+  return hexId("resp");
+}
+
+export function outputMessageId(): string {
+  return hexId("msg");
+}
+
+export function functionCallItemId(): string {
+  return hexId("fc");
+}
+
+export function functionCallId(): string {
+  return `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+}
+
+export function convertResponsesUsage(
+  usage: GeminiResponse["usageMetadata"],
+): ResponsesUsage | null {
+  if (!usage) return null;
+  return {
+    input_tokens: usage.promptTokenCount ?? 0,
+    output_tokens: usage.candidatesTokenCount ?? 0,
+    total_tokens: usage.totalTokenCount ?? 0,
+  };
+}
+
+/** A MAX_TOKENS finish marks the response incomplete; anything else completes it. */
+export function incompleteReason(finishReason?: string): string | null {
+  if (finishReason === "MAX_TOKENS") return "max_output_tokens";
+  if (finishReason === "SAFETY" || finishReason === "PROHIBITED_CONTENT") return "content_filter";
+  return null;
+}
+
+export function buildResponseObject(
+  id: string,
+  model: string,
+  req: ResponsesRequest,
+  fields: Partial<Pick<ResponsesObject, "status" | "output" | "usage" | "incomplete_details" | "error">>,
+): ResponsesObject {
+  return {
+    id,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: fields.status ?? "in_progress",
+    model,
+    output: fields.output ?? [],
+    instructions: req.instructions ?? null,
+    previous_response_id: req.previous_response_id ?? null,
+    incomplete_details: fields.incomplete_details ?? null,
+    error: fields.error ?? null,
+    temperature: req.temperature ?? null,
+    top_p: req.top_p ?? null,
+    max_output_tokens: req.max_output_tokens ?? null,
+    metadata: req.metadata ?? {},
+    usage: fields.usage ?? null,
+  };
+}
+
+// --- Conversion ---
+
+export function convertToResponsesObject(
+  geminiResponse: GeminiResponse,
+  model: string,
+  req: ResponsesRequest,
+  id: string = responseId(),
+): ResponsesObject {
+  const candidate = geminiResponse.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+
+  const output: ResponsesOutputItem[] = [];
+
+  const text = parts
+    .filter((p) => p.text !== undefined && !p.thought)
+    .map((p) => p.text)
+    .join("");
+  if (text) {
+    output.push({
+      type: "message",
+      id: outputMessageId(),
+      status: "completed",
+      role: "assistant",
+      content: [{ type: "output_text", text, annotations: [] }],
+    });
+  }
+
+  for (const part of parts) {
+    if (!part.functionCall) continue;
+    output.push({
+      type: "function_call",
+      id: functionCallItemId(),
+      call_id: functionCallId(),
+      name: part.functionCall.name,
+      arguments: JSON.stringify(part.functionCall.args ?? {}),
+      status: "completed",
+    });
+  }
+
+  const reason = incompleteReason(candidate?.finishReason);
+
+  return buildResponseObject(id, model, req, {
+    status: reason ? "incomplete" : "completed",
+    output,
+    usage: convertResponsesUsage(geminiResponse.usageMetadata),
+    incomplete_details: reason ? { reason } : null,
+  });
+}
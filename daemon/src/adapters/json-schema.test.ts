@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { assertStructuredOutput, toGeminiSchema, validateJsonSchema } from "./json-schema.js";
+import { InvalidRequestError, StructuredOutputError } from "../errors.js";
+
+describe("toGeminiSchema", () => {
+  it("inlines $defs references and drops unsupported keywords", () => {
+    const schema = toGeminiSchema({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: { address: { $ref: "#/$defs/address" } },
+      additionalProperties: false,
+      $defs: {
+        address: {
+          type: "object",
+          properties: { city: { type: "string", format: "hostname" } },
+        },
+      },
+    });
+
+    expect(schema).toEqual({
+      type: "OBJECT",
+      properties: {
+        address: {
+          type: "OBJECT",
+          properties: { city: { type: "STRING" } },
+          propertyOrdering: ["city"],
+        },
+      },
+      propertyOrdering: ["address"],
+    });
+  });
+
+  it("rejects recursive references", () => {
+    expect(() =>
+      toGeminiSchema({
+        $ref: "#/$defs/node",
+        $defs: {
+          node: { type: "object", properties: { next: { $ref: "#/$defs/node" } } },
+        },
+      }),
+    ).toThrow(InvalidRequestError);
+  });
+
+  it("rejects patterns that aren't valid regular expressions", () => {
+    expect(() => toGeminiSchema({ type: "object", properties: { id: { type: "string", pattern: "(" } } })).toThrow(
+      expect.objectContaining({ status: 400, param: "response_format.json_schema.schema.properties.id.pattern" }),
+    );
+    expect(toGeminiSchema({ type: "string", pattern: "^[a-z]+$" })).toEqual({ type: "STRING", pattern: "^[a-z]+$" });
+  });
+
+  it("folds nullable unions, const and allOf", () => {
+    expect(toGeminiSchema({ anyOf: [{ type: "string" }, { type: "null" }] })).toEqual({
+      type: "STRING",
+      nullable: true,
+    });
+    expect(toGeminiSchema({ const: "yes" })).toEqual({ type: "STRING", enum: ["yes"] });
+    expect(
+      toGeminiSchema({
+        allOf: [
+          { type: "object", properties: { a: { type: "number" } }, required: ["a"] },
+          { properties: { b: { type: "boolean" } }, required: ["b"] },
+        ],
+      }),
+    ).toEqual({
+      type: "OBJECT",
+      properties: { a: { type: "NUMBER" }, b: { type: "BOOLEAN" } },
+      required: ["a", "b"],
+      propertyOrdering: ["a", "b"],
+    });
+  });
+});
+
+describe("validateJsonSchema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      tags: { type: "array", items: { enum: ["a", "b"] } },
+    },
+    required: ["name"],
+    additionalProperties: false,
+  };
+
+  it("accepts conforming values", () => {
+    expect(validateJsonSchema({ name: "x", tags: ["a"] }, schema)).toEqual([]);
+  });
+
+  it("reports each violation with its path", () => {
+    expect(validateJsonSchema({ tags: ["c"], extra: 1 }, schema)).toEqual([
+      "$: missing required property 'name'",
+      `$.tags[0]: must be one of ["a","b"]`,
+      "$: unexpected property 'extra'",
+    ]);
+  });
+
+  it("leaves pattern to Gemini", () => {
+    expect(validateJsonSchema("aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!", { type: "string", pattern: "^(a+)+$" })).toEqual([]);
+  });
+});
+
+describe("assertStructuredOutput", () => {
+  it("throws StructuredOutputError for invalid JSON", () => {
+    expect(() => assertStructuredOutput("not json", { type: "object" })).toThrow(
+      StructuredOutputError,
+    );
+  });
+
+  it("passes valid output", () => {
+    expect(() => assertStructuredOutput('{"n":1}', { type: "object" })).not.toThrow();
+  });
+});
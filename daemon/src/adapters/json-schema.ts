@@ -0,0 +1,319 @@
+import { InvalidRequestError, StructuredOutputError } from "../errors.js";
+
+type Schema = Record<string, unknown>;
+
+// Keywords Gemini's responseSchema (an OpenAPI 3.0 subset) understands
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "title",
+  "description",
+  "nullable",
+  "enum",
+  "items",
+  "minItems",
+  "maxItems",
+  "properties",
+  "required",
+  "minProperties",
+  "maxProperties",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "propertyOrdering",
+]);
+
+const GEMINI_FORMATS: Record<string, Set<string>> = {
+  STRING: new Set(["enum", "date-time"]),
+  NUMBER: new Set(["float", "double"]),
+  INTEGER: new Set(["int32", "int64"]),
+};
+
+function isSchema(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function resolveRef(ref: string, root: Schema, param: string): Schema {
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  const defs = match ? root[match[1]] : undefined;
+  const target = isSchema(defs) ? defs[match![2]] : undefined;
+  if (!isSchema(target)) {
+    throw new InvalidRequestError(`Unresolvable schema reference '${ref}'`, param);
+  }
+  return target;
+}
+
+function mergeAllOf(schemas: unknown[]): Schema {
+  const merged: Schema = {};
+  for (const s of schemas) {
+    if (!isSchema(s)) continue;
+    for (const [key, value] of Object.entries(s)) {
+      if (key === "properties" && isSchema(merged.properties) && isSchema(value)) {
+        merged.properties = { ...merged.properties, ...value };
+      } else if (key === "required" && Array.isArray(merged.required) && Array.isArray(value)) {
+        merged.required = [...merged.required, ...value];
+      } else {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Convert a JSON Schema into the subset Gemini accepts as `responseSchema`:
+ * inline `$ref`s, fold `["x", "null"]` into `nullable`, turn `const` into a
+ * one-value enum, and drop keywords Gemini would reject.
+ */
+export function toGeminiSchema(
+  schema: Schema,
+  param = "response_format.json_schema.schema",
+  root: Schema = schema,
+  seen: Set<string> = new Set(),
+): Schema {
+  if (typeof schema.$ref === "string") {
+    if (seen.has(schema.$ref)) {
+      throw new InvalidRequestError("Recursive schemas are not supported by Gemini", param);
+    }
+    const target = resolveRef(schema.$ref, root, param);
+    return toGeminiSchema(target, param, root, new Set([...seen, schema.$ref]));
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const { allOf, ...rest } = schema;
+    return toGeminiSchema(mergeAllOf([rest, ...allOf]), param, root, seen);
+  }
+
+  const out: Schema = {};
+  let type = schema.type;
+
+  if (Array.isArray(type)) {
+    const nonNull = type.filter((t) => t !== "null");
+    if (nonNull.length < type.length) out.nullable = true;
+    if (nonNull.length > 1) {
+      out.anyOf = nonNull.map((t) => toGeminiSchema({ ...schema, type: t }, param, root, seen));
+      return out;
+    }
+    type = nonNull[0];
+  }
+
+  if (schema.const !== undefined) {
+    type ??= "string";
+    out.enum = [String(schema.const)];
+  }
+
+  const geminiType = typeof type === "string" ? type.toUpperCase() : undefined;
+  if (geminiType) out.type = geminiType;
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key) || key === "type") continue;
+
+    switch (key) {
+      case "properties":
+        if (isSchema(value)) {
+          const properties: Schema = {};
+          for (const [name, prop] of Object.entries(value)) {
+            if (isSchema(prop)) {
+              properties[name] = toGeminiSchema(prop, `${param}.properties.${name}`, root, seen);
+            }
+          }
+          out.properties = properties;
+          out.propertyOrdering ??= Object.keys(properties);
+        }
+        break;
+      case "items":
+        if (isSchema(value)) out.items = toGeminiSchema(value, `${param}.items`, root, seen);
+        break;
+      case "anyOf":
+        if (Array.isArray(value)) {
+          const variants = value.filter(isSchema);
+          const nonNull = variants.filter((v) => v.type !== "null");
+          if (nonNull.length < variants.length) out.nullable = true;
+          const converted = nonNull.map((v) => toGeminiSchema(v, param, root, seen));
+          if (converted.length === 1) Object.assign(out, converted[0]);
+          else out.anyOf = converted;
+        }
+        break;
+      case "enum":
+        if (Array.isArray(value)) {
+          out.enum = value.filter((v) => v !== null).map(String);
+          if (value.includes(null)) out.nullable = true;
+          out.type ??= "STRING";
+        }
+        break;
+      case "pattern":
+        if (typeof value === "string") {
+          try {
+            new RegExp(value);
+          } catch (err) {
+            throw new InvalidRequestError(`Invalid pattern: ${(err as Error).message}`, `${param}.pattern`);
+          }
+          out.pattern = value;
+        }
+        break;
+      case "format":
+        if (geminiType && typeof value === "string" && GEMINI_FORMATS[geminiType]?.has(value)) {
+          out.format = value;
+        }
+        break;
+      default:
+        out[key] = value;
+    }
+  }
+
+  if (Array.isArray(schema.oneOf) && out.anyOf === undefined) {
+    out.anyOf = schema.oneOf.filter(isSchema).map((v) => toGeminiSchema(v, param, root, seen));
+  }
+
+  return out;
+}
+
+// --- Validation ---
+
+function typeMatches(type: string, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "string":
+      return typeof value === "string";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isSchema(value);
+    default:
+      return true;
+  }
+}
+
+function validateNode(
+  value: unknown,
+  schema: Schema,
+  root: Schema,
+  path: string,
+  errors: string[],
+): void {
+  if (typeof schema.$ref === "string") {
+    const match = schema.$ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+    const defs = match ? root[match[1]] : undefined;
+    const target = isSchema(defs) ? defs[match![2]] : undefined;
+    if (isSchema(target)) validateNode(value, target, root, path, errors);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => typeof t === "string" && typeMatches(t, value))) {
+      errors.push(`${path}: expected ${types.join(" or ")}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf.filter(isSchema)) validateNode(value, sub, root, path, errors);
+  }
+  for (const key of ["anyOf", "oneOf"] as const) {
+    const variants = schema[key];
+    if (!Array.isArray(variants)) continue;
+    const matches = variants.filter(isSchema).filter((sub) => {
+      const subErrors: string[] = [];
+      validateNode(value, sub, root, path, subErrors);
+      return subErrors.length === 0;
+    });
+    if (matches.length === 0 || (key === "oneOf" && matches.length > 1)) {
+      errors.push(`${path}: does not match ${key}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength}`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength}`);
+    }
+    // `pattern` is left to Gemini: a client's regex could backtrack for ages on model output
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      value.forEach((item, i) => validateNode(item, schema.items as Schema, root, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (isSchema(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (typeof name === "string" && !(name in value)) {
+          errors.push(`${path}: missing required property '${name}'`);
+        }
+      }
+    }
+    for (const [name, propValue] of Object.entries(value)) {
+      const propSchema = properties[name];
+      if (isSchema(propSchema)) {
+        validateNode(propValue, propSchema, root, `${path}.${name}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${name}'`);
+      }
+    }
+  }
+}
+
+/** Validate a value against a JSON Schema. Returns a list of violations (empty when valid). */
+export function validateJsonSchema(value: unknown, schema: Schema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, schema, "$", errors);
+  return errors;
+}
+
+/**
+ * Parse model output and check it against a strict schema, throwing a
+ * StructuredOutputError when it is not valid JSON or does not conform.
+ */
+export function assertStructuredOutput(text: string, schema: Schema): void {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new StructuredOutputError("Model output is not valid JSON");
+  }
+
+  const errors = validateJsonSchema(value, schema);
+  if (errors.length > 0) {
+    throw new StructuredOutputError(
+      `Model output does not match the requested schema: ${errors.slice(0, 5).join("; ")}`,
+    );
+  }
+}
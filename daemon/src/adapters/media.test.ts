@@ -0,0 +1,114 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdirSync, mkdtempSync, truncateSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  createInlineBudget,
+  inlineDataPart,
+  sniffImageMimeType,
+  urlToInlinePart,
+  MAX_INLINE_BYTES,
+} from "./media.js";
+import { InvalidRequestError } from "../errors.js";
+
+const PNG_B64 = "iVBORw0KGgoAAAANSUhEUg==";
+
+describe("inlineDataPart", () => {
+  it("normalizes MIME aliases", () => {
+    expect(inlineDataPart("image/jpg", "/9j/4AAQ", "p", createInlineBudget())).toEqual({
+      inlineData: { mimeType: "image/jpeg", data: "/9j/4AAQ" },
+    });
+    expect(
+      inlineDataPart("audio/mpeg", "AAAA", "p", createInlineBudget()).inlineData!.mimeType,
+    ).toBe("audio/mp3");
+  });
+
+  it("rejects unsupported MIME types with the param", () => {
+    try {
+      inlineDataPart("video/x-msvideo", "AAAA", "messages[0].content[1]", createInlineBudget());
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidRequestError);
+      expect((err as InvalidRequestError).param).toBe("messages[0].content[1]");
+    }
+  });
+
+  it("rejects invalid base64", () => {
+    expect(() => inlineDataPart("image/png", "not base64!", "p", createInlineBudget())).toThrow(
+      "valid base64",
+    );
+  });
+
+  it("enforces the request-wide size budget", () => {
+    const budget = createInlineBudget();
+    const chunk = "A".repeat(Math.floor((MAX_INLINE_BYTES / 3) * 4 / 2 / 4) * 4);
+    inlineDataPart("image/png", chunk, "a", budget);
+    inlineDataPart("image/png", chunk, "b", budget);
+    expect(() => inlineDataPart("image/png", "AAAAAAAA", "c", budget)).toThrow("MB request limit");
+  });
+});
+
+describe("urlToInlinePart", () => {
+  const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-media-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("decodes base64 data URLs", () => {
+    expect(urlToInlinePart(`data:image/png;base64,${PNG_B64}`, "p", createInlineBudget())).toEqual({
+      inlineData: { mimeType: "image/png", data: PNG_B64 },
+    });
+  });
+
+  it("rejects remote URLs", () => {
+    expect(() =>
+      urlToInlinePart("https://example.com/cat.png", "p", createInlineBudget()),
+    ).toThrow("remote URLs are not fetched");
+  });
+
+  it("reads file:// URLs only when allowed", () => {
+    const path = join(dir, "shot.png");
+    writeFileSync(path, Buffer.from(PNG_B64, "base64"));
+    const url = pathToFileURL(path).href;
+
+    expect(() => urlToInlinePart(url, "p", createInlineBudget())).toThrow("not allowed");
+
+    const part = urlToInlinePart(url, "p", createInlineBudget(), { allowLocalFiles: true });
+    expect(part.inlineData).toEqual({ mimeType: "image/png", data: PNG_B64 });
+  });
+
+  it("reports missing local files", () => {
+    const url = pathToFileURL(join(dir, "missing.png")).href;
+    expect(() =>
+      urlToInlinePart(url, "p", createInlineBudget(), { allowLocalFiles: true }),
+    ).toThrow("Cannot read local file");
+  });
+
+  it("checks local files' size and type before reading them", () => {
+    const big = join(dir, "huge.png");
+    writeFileSync(big, "");
+    truncateSync(big, MAX_INLINE_BYTES + 1);
+    expect(() =>
+      urlToInlinePart(pathToFileURL(big).href, "p", createInlineBudget(), { allowLocalFiles: true }),
+    ).toThrow("request limit");
+
+    const folder = join(dir, "folder.png");
+    mkdirSync(folder);
+    expect(() =>
+      urlToInlinePart(pathToFileURL(folder).href, "p", createInlineBudget(), { allowLocalFiles: true }),
+    ).toThrow("not a regular file");
+  });
+
+  it("rejects file URLs with a host", () => {
+    expect(() =>
+      urlToInlinePart("file://host/x.png", "p", createInlineBudget(), { allowLocalFiles: true }),
+    ).toThrow(InvalidRequestError);
+  });
+});
+
+describe("sniffImageMimeType", () => {
+  it("recognizes common image signatures", () => {
+    expect(sniffImageMimeType(PNG_B64)).toBe("image/png");
+    expect(sniffImageMimeType("/9j/4AAQSkZJRg")).toBe("image/jpeg");
+    expect(sniffImageMimeType("AAAA")).toBeUndefined();
+  });
+});
@@ -0,0 +1,178 @@
+import { readFileSync, statSync, type Stats } from "node:fs";
+import { extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { GeminiPart } from "../services/gemini-client.js";
+import { InvalidRequestError } from "../errors.js";
+
+/** Gemini rejects requests whose inline data exceeds 20 MB in total. */
+export const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+const SUPPORTED_MIME_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "audio/wav",
+  "audio/mp3",
+  "audio/aiff",
+  "audio/aac",
+  "audio/ogg",
+  "audio/flac",
+  "application/pdf",
+  "text/plain",
+]);
+
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "audio/mpeg": "audio/mp3",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".wav": "audio/wav",
+  ".mp3": "audio/mp3",
+  ".aiff": "audio/aiff",
+  ".aac": "audio/aac",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+};
+
+const BASE64_RE = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export interface MediaOptions {
+  /** Accept `file://` URLs and read them from the local disk. */
+  allowLocalFiles?: boolean;
+}
+
+/**
+ * Running total of inline bytes for one request, so the size limit applies
+ * to the request as a whole rather than to each part.
+ */
+export interface InlineBudget {
+  used: number;
+}
+
+export function createInlineBudget(): InlineBudget {
+  return { used: 0 };
+}
+
+export function mimeTypeForFilename(filename: string): string | undefined {
+  return EXTENSION_MIME_TYPES[extname(filename).toLowerCase()];
+}
+
+function normalizeMimeType(mimeType: string): string {
+  const base = mimeType.split(";")[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+/** Build an `inlineData` part, validating the MIME type, encoding and size budget. */
+export function inlineDataPart(
+  mimeType: string,
+  data: string,
+  param: string,
+  budget: InlineBudget,
+): GeminiPart {
+  const normalized = normalizeMimeType(mimeType);
+  if (!SUPPORTED_MIME_TYPES.has(normalized)) {
+    throw new InvalidRequestError(`Unsupported media type '${mimeType}'`, param);
+  }
+
+  const compact = data.replace(/\s/g, "");
+  if (!compact || compact.length % 4 !== 0 || !BASE64_RE.test(compact)) {
+    throw new InvalidRequestError("Media data must be valid base64", param);
+  }
+
+  budget.used += Math.floor((compact.length * 3) / 4);
+  if (budget.used > MAX_INLINE_BYTES) throw tooLarge(param);
+
+  return { inlineData: { mimeType: normalized, data: compact } };
+}
+
+function tooLarge(param: string): InvalidRequestError {
+  return new InvalidRequestError(
+    `Inline media exceeds the ${MAX_INLINE_BYTES / (1024 * 1024)} MB request limit`,
+    param,
+  );
+}
+
+function localPath(url: string, param: string): string {
+  try {
+    return fileURLToPath(url);
+  } catch {
+    throw new InvalidRequestError(`Invalid file URL '${url}'`, param);
+  }
+}
+
+/**
+ * Read a local file as base64, checking its size before reading so a huge
+ * file or a FIFO can't exhaust memory or block the event loop.
+ */
+function readLocalFile(path: string, param: string, budget: InlineBudget): string {
+  let stats: Stats;
+  try {
+    stats = statSync(path);
+  } catch {
+    throw new InvalidRequestError(`Cannot read local file '${path}'`, param);
+  }
+  if (!stats.isFile()) {
+    throw new InvalidRequestError(`'${path}' is not a regular file`, param);
+  }
+  if (budget.used + stats.size > MAX_INLINE_BYTES) throw tooLarge(param);
+
+  try {
+    return readFileSync(path).toString("base64");
+  } catch {
+    throw new InvalidRequestError(`Cannot read local file '${path}'`, param);
+  }
+}
+
+/** Resolve an image/file URL (data: or, when allowed, file://) into an inline part. */
+export function urlToInlinePart(
+  url: string,
+  param: string,
+  budget: InlineBudget,
+  options: MediaOptions = {},
+): GeminiPart {
+  if (url.startsWith("data:")) {
+    const match = url.match(/^data:([^,;]+)(?:;[^,]*)?;base64,(.*)$/s);
+    if (!match) {
+      throw new InvalidRequestError("Data URLs must be base64-encoded", param);
+    }
+    return inlineDataPart(match[1], match[2], param, budget);
+  }
+
+  if (url.startsWith("file://")) {
+    if (!options.allowLocalFiles) {
+      throw new InvalidRequestError("Local file URLs are not allowed on this server", param);
+    }
+    const path = localPath(url, param);
+    const mimeType = mimeTypeForFilename(path);
+    if (!mimeType) {
+      throw new InvalidRequestError(`Cannot determine media type of '${path}'`, param);
+    }
+    return inlineDataPart(mimeType, readLocalFile(path, param, budget), param, budget);
+  }
+
+  throw new InvalidRequestError(
+    "Only base64 data: URLs are supported for media (remote URLs are not fetched)",
+    param,
+  );
+}
+
+/** Guess an image MIME type from the leading bytes of its base64 encoding. */
+export function sniffImageMimeType(data: string): string | undefined {
+  if (data.startsWith("iVBORw0KGgo")) return "image/png";
+  if (data.startsWith("/9j/")) return "image/jpeg";
+  if (data.startsWith("UklGR")) return "image/webp";
+  return undefined;
+}
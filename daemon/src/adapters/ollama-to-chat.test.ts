@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { InvalidRequestError } from "../errors.js";
+import {
+  convertOllamaChatRequest,
+  convertOllamaGenerateRequest,
+  convertOllamaMessages,
+  stripModelTag,
+} from "./ollama-to-chat.js";
+
+describe("stripModelTag", () => {
+  it("drops the :latest tag", () => {
+    expect(stripModelTag("gemini-2.5-flash:latest")).toBe("gemini-2.5-flash");
+    expect(stripModelTag("pro")).toBe("pro");
+    expect(stripModelTag(undefined)).toBeUndefined();
+  });
+});
+
+describe("convertOllamaMessages", () => {
+  it("rejects a tool result without a tool_name when no call is pending", () => {
+    expect(() =>
+      convertOllamaMessages([
+        { role: "user", content: "Time?" },
+        { role: "tool", content: "noon" },
+      ]),
+    ).toThrow(expect.objectContaining({ param: "messages[1].tool_name" }));
+    expect(() => convertOllamaMessages([{ role: "tool", content: "noon" }])).toThrow(InvalidRequestError);
+  });
+
+  it("assigns ids to tool calls and pairs tool results by name", () => {
+    const messages = convertOllamaMessages([
+      { role: "user", content: "Weather and time?" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { function: { name: "get_weather", arguments: { city: "Paris" } } },
+          { function: { name: "get_time", arguments: {} } },
+        ],
+      },
+      { role: "tool", content: "noon", tool_name: "get_time" },
+      { role: "tool", content: "sunny" },
+    ]);
+
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: "call_0",
+          type: "function",
+          function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+        },
+        { id: "call_1", type: "function", function: { name: "get_time", arguments: "{}" } },
+      ],
+    });
+    expect(messages[2]).toMatchObject({ role: "tool", tool_call_id: "call_1", name: "get_time" });
+    expect(messages[3]).toMatchObject({ role: "tool", tool_call_id: "call_0", name: "get_weather" });
+  });
+});
+
+describe("convertOllamaMessages images", () => {
+  it("wraps bare base64 images as data URLs", () => {
+    const [msg] = convertOllamaMessages([
+      { role: "user", content: "What is this?", images: ["iVBORw0KGgoAAAA"] },
+    ]);
+    expect(msg.content).toEqual([
+      { type: "text", text: "What is this?" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgoAAAA" } },
+    ]);
+  });
+});
+
+describe("convertOllamaChatRequest", () => {
+  it("maps options to chat generation params", () => {
+    const req = convertOllamaChatRequest({
+      model: "flash:latest",
+      messages: [{ role: "user", content: "Hi" }],
+      options: { temperature: 0.1, top_p: 0.9, num_predict: 64, stop: ["\n\n"] },
+    });
+
+    expect(req).toMatchObject({
+      model: "flash",
+      temperature: 0.1,
+      top_p: 0.9,
+      max_tokens: 64,
+      stop: ["\n\n"],
+    });
+  });
+
+  it("ignores unlimited num_predict", () => {
+    const req = convertOllamaChatRequest({
+      messages: [{ role: "user", content: "Hi" }],
+      options: { num_predict: -1 },
+    });
+    expect(req.max_tokens).toBeUndefined();
+  });
+});
+
+describe("convertOllamaGenerateRequest", () => {
+  it("turns system and prompt into messages", () => {
+    const req = convertOllamaGenerateRequest({ system: "Be terse.", prompt: "Hi" });
+    expect(req.messages).toEqual([
+      { role: "system", content: "Be terse." },
+      { role: "user", content: "Hi" },
+    ]);
+  });
+});
+
+describe("Ollama format", () => {
+  it("maps json and schema formats to response_format", () => {
+    expect(
+      convertOllamaChatRequest({ messages: [], format: "json" }).response_format,
+    ).toEqual({ type: "json_object" });
+    expect(
+      convertOllamaGenerateRequest({ prompt: "Hi", format: { type: "object" } }).response_format,
+    ).toEqual({ type: "json_schema", json_schema: { name: "response", schema: { type: "object" } } });
+  });
+});
@@ -0,0 +1,167 @@
+import type {
+  OpenAIChatRequest,
+  OpenAIContentPart,
+  OpenAIMessage,
+  OpenAIResponseFormat,
+  OpenAITool,
+} from "./openai-to-gemini.js";
+import { sniffImageMimeType } from "./media.js";
+import { InvalidRequestError } from "../errors.js";
+
+// --- Ollama Request Types ---
+
+export interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  stop?: string[];
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model?: string;
+  messages: OllamaMessage[];
+  stream?: boolean;
+  format?: string | Record<string, unknown>;
+  options?: OllamaOptions;
+  tools?: OpenAITool[];
+}
+
+export interface OllamaGenerateRequest {
+  model?: string;
+  prompt?: string;
+  images?: string[];
+  system?: string;
+  stream?: boolean;
+  format?: string | Record<string, unknown>;
+  options?: OllamaOptions;
+}
+
+// --- Conversion ---
+
+/** Ollama model names may carry a tag (`gemini-2.5-flash:latest`); Gemini has none. */
+export function stripModelTag(model?: string): string | undefined {
+  if (!model) return model;
+  return model.replace(/:latest$/, "");
+}
+
+function applyOptions(req: OpenAIChatRequest, options?: OllamaOptions): OpenAIChatRequest {
+  if (!options) return req;
+  if (options.temperature !== undefined) req.temperature = options.temperature;
+  if (options.top_p !== undefined) req.top_p = options.top_p;
+  if (options.num_predict !== undefined && options.num_predict >= 0) {
+    req.max_tokens = options.num_predict;
+  }
+  if (options.stop?.length) req.stop = options.stop;
+  return req;
+}
+
+/** Ollama `format` is either "json" or a JSON Schema object. */
+function convertFormat(format?: string | Record<string, unknown>): OpenAIResponseFormat | undefined {
+  if (format === "json") return { type: "json_object" };
+  if (typeof format === "object" && format !== null) {
+    return { type: "json_schema", json_schema: { name: "response", schema: format } };
+  }
+  return undefined;
+}
+
+export function convertOllamaMessages(messages: OllamaMessage[]): OpenAIMessage[] {
+  let callCount = 0;
+  // Ollama tool calls carry no ids, so pair each tool result with the oldest unanswered call
+  const pendingCalls: Array<{ id: string; name: string }> = [];
+
+  return messages.map((msg, i) => {
+    if (msg.role === "assistant" && msg.tool_calls?.length) {
+      return {
+        role: "assistant",
+        content: msg.content || null,
+        tool_calls: msg.tool_calls.map((tc) => {
+          const id = `call_${callCount++}`;
+          pendingCalls.push({ id, name: tc.function.name });
+          return {
+            id,
+            type: "function" as const,
+            function: {
+              name: tc.function.name,
+              arguments: JSON.stringify(tc.function.arguments ?? {}),
+            },
+          };
+        }),
+      };
+    }
+
+    if (msg.role === "tool") {
+      const index = msg.tool_name
+        ? pendingCalls.findIndex((p) => p.name === msg.tool_name)
+        : 0;
+      const call = index >= 0 ? pendingCalls.splice(index, 1)[0] : undefined;
+      if (!call && !msg.tool_name) {
+        throw new InvalidRequestError(
+          `Tool message messages[${i}] needs a tool_name: no earlier assistant tool call is waiting for a result`,
+          `messages[${i}].tool_name`,
+        );
+      }
+      return {
+        role: "tool",
+        tool_call_id: call?.id,
+        name: msg.tool_name ?? call?.name,
+        content: msg.content,
+      };
+    }
+
+    if (msg.images?.length) {
+      // Ollama sends bare base64 images; wrap them as data URLs for the chat pipeline
+      const content: OpenAIContentPart[] = [{ type: "text", text: msg.content }];
+      for (const image of msg.images) {
+        const mimeType = sniffImageMimeType(image) ?? "application/octet-stream";
+        content.push({ type: "image_url", image_url: { url: `data:${mimeType};base64,${image}` } });
+      }
+      return { role: msg.role, content };
+    }
+
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+export function convertOllamaChatRequest(req: OllamaChatRequest): OpenAIChatRequest {
+  return applyOptions(
+    {
+      model: stripModelTag(req.model),
+      messages: convertOllamaMessages(req.messages),
+      tools: req.tools,
+      response_format: convertFormat(req.format),
+    },
+    req.options,
+  );
+}
+
+export function convertOllamaGenerateRequest(req: OllamaGenerateRequest): OpenAIChatRequest {
+  const messages: OpenAIMessage[] = [];
+  if (req.system) messages.push({ role: "system", content: req.system });
+  messages.push(
+    ...convertOllamaMessages([{ role: "user", content: req.prompt ?? "", images: req.images }]),
+  );
+
+  return applyOptions(
+    {
+      model: stripModelTag(req.model),
+      messages,
+      response_format: convertFormat(req.format),
+    },
+    req.options,
+  );
+}
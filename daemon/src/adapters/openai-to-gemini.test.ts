@@ -8,6 +8,8 @@ import {
   type OpenAITool,
   type OpenAIChatRequest,
 } from "./openai-to-gemini.js";
+import { InvalidRequestError } from "../errors.js";
+import { thoughtSignatures } from "../services/thought-signatures.js";
 
 describe("convertMessages", () => {
   it("converts system message to systemInstruction", () => {
@@ -78,15 +80,21 @@ describe("convertMessages", () => {
 
   it("converts tool role to user with functionResponse", () => {
     const messages: OpenAIMessage[] = [
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_123", type: "function", function: { name: "get_weather", arguments: "{}" } },
+        ],
+      },
       {
         role: "tool",
-        name: "get_weather",
         content: '{"temp":22}',
         tool_call_id: "call_123",
       },
     ];
     const result = convertMessages(messages);
-    expect(result.contents).toEqual([
+    expect(result.contents.slice(1)).toEqual([
       {
         role: "user",
         parts: [
@@ -113,15 +121,20 @@ describe("convertMessages", () => {
 
   it("handles tool message with non-JSON content", () => {
     const messages: OpenAIMessage[] = [
+      {
+        role: "assistant",
+        tool_calls: [
+          { id: "call_1", type: "function", function: { name: "some_tool", arguments: "{}" } },
+        ],
+      },
       {
         role: "tool",
-        name: "some_tool",
         content: "plain text result",
         tool_call_id: "call_1",
       },
     ];
     const result = convertMessages(messages);
-    expect(result.contents[0].parts[0]).toEqual({
+    expect(result.contents[1].parts[0]).toEqual({
       functionResponse: {
         name: "some_tool",
         response: { result: "plain text result" },
@@ -152,6 +165,133 @@ describe("convertMessages", () => {
       functionCall: { name: "search", args: { q: "test" } },
     });
   });
+
+  it("converts image, audio and file parts to inlineData in order", () => {
+    const messages: OpenAIMessage[] = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this screenshot?" },
+          { type: "text", text: "Be brief." },
+          { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+          { type: "input_audio", input_audio: { data: "UklGRg==", format: "wav" } },
+          { type: "file", file: { file_data: "data:application/pdf;base64,JVBERi0=", filename: "a.pdf" } },
+          { type: "text", text: "Thanks" },
+        ],
+      },
+    ];
+    const result = convertMessages(messages);
+    expect(result.contents[0].parts).toEqual([
+      { text: "What is in this screenshot?\nBe brief." },
+      { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+      { inlineData: { mimeType: "audio/wav", data: "UklGRg==" } },
+      { inlineData: { mimeType: "application/pdf", data: "JVBERi0=" } },
+      { text: "Thanks" },
+    ]);
+  });
+
+  it("infers the MIME type of raw base64 file data from its filename", () => {
+    const result = convertMessages([
+      {
+        role: "user",
+        content: [{ type: "file", file: { file_data: "JVBERi0=", filename: "report.pdf" } }],
+      },
+    ]);
+    expect(result.contents[0].parts[0]).toEqual({
+      inlineData: { mimeType: "application/pdf", data: "JVBERi0=" },
+    });
+  });
+
+  it("rejects unsupported media with the offending param", () => {
+    expect(() =>
+      convertMessages([
+        { role: "user", content: "first" },
+        {
+          role: "user",
+          content: [{ type: "image_url", image_url: { url: "https://example.com/a.png" } }],
+        },
+      ]),
+    ).toThrow(expect.objectContaining({ param: "messages[1].content[0]" }));
+  });
+});
+
+describe("convertMessages tool results", () => {
+  const assistant: OpenAIMessage = {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      { id: "call_a", type: "function", function: { name: "get_weather", arguments: "{}" } },
+      { id: "call_b", type: "function", function: { name: "get_time", arguments: "{}" } },
+    ],
+  };
+
+  it("groups consecutive tool results into one user turn", () => {
+    const { contents } = convertMessages([
+      { role: "user", content: "Weather and time?" },
+      assistant,
+      { role: "tool", tool_call_id: "call_b", content: "noon" },
+      { role: "tool", tool_call_id: "call_a", content: "sunny" },
+    ]);
+
+    expect(contents).toHaveLength(3);
+    expect(contents[2]).toEqual({
+      role: "user",
+      parts: [
+        { functionResponse: { name: "get_time", response: { result: "noon" } } },
+        { functionResponse: { name: "get_weather", response: { result: "sunny" } } },
+      ],
+    });
+  });
+
+  it("rejects tool results for unknown ids", () => {
+    try {
+      convertMessages([assistant, { role: "tool", tool_call_id: "call_x", content: "?" }]);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(InvalidRequestError);
+      expect((err as InvalidRequestError).param).toBe("messages[1].tool_call_id");
+    }
+  });
+
+  it("rejects a second result for the same call", () => {
+    expect(() =>
+      convertMessages([
+        assistant,
+        { role: "tool", tool_call_id: "call_a", content: "1" },
+        { role: "tool", tool_call_id: "call_a", content: "2" },
+      ]),
+    ).toThrow("already has a result");
+  });
+
+  it("rejects duplicate tool call ids", () => {
+    expect(() => convertMessages([assistant, assistant])).toThrow(InvalidRequestError);
+  });
+});
+
+describe("convertMessages thought signatures", () => {
+  it("reattaches cached signatures to returning tool calls", () => {
+    thoughtSignatures.record("call_sig", {
+      functionCall: { name: "lookup", args: { q: "x" } },
+      thoughtSignature: "opaque-signature",
+    });
+
+    const { contents } = convertMessages([
+      { role: "user", content: "Look it up" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_sig", type: "function", function: { name: "lookup", arguments: '{"q":"x"}' } },
+          { id: "call_unknown", type: "function", function: { name: "lookup", arguments: "{}" } },
+        ],
+      },
+    ]);
+
+    expect(contents[1].parts).toEqual([
+      { functionCall: { name: "lookup", args: { q: "x" } }, thoughtSignature: "opaque-signature" },
+      { functionCall: { name: "lookup", args: {} } },
+    ]);
+  });
 });
 
 describe("convertTools", () => {
@@ -298,4 +438,106 @@ describe("buildRequestBody", () => {
       functionCallingConfig: { mode: "AUTO" },
     });
   });
+
+  it("maps json_object response_format to a JSON MIME type", () => {
+    const body = buildRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+      response_format: { type: "json_object" },
+    });
+    expect(body.generationConfig).toEqual({ responseMimeType: "application/json" });
+  });
+
+  it("maps json_schema response_format to a converted responseSchema", () => {
+    const body = buildRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "person",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: { name: { type: "string" }, age: { type: ["integer", "null"] } },
+            required: ["name", "age"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    expect(body.generationConfig).toEqual({
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: "OBJECT",
+        properties: { name: { type: "STRING" }, age: { type: "INTEGER", nullable: true } },
+        required: ["name", "age"],
+        propertyOrdering: ["name", "age"],
+      },
+    });
+  });
+
+  it("rejects a json_schema response_format without its json_schema object", () => {
+    expect(() =>
+      buildRequestBody({
+        messages: [{ role: "user", content: "Hi" }],
+        response_format: { type: "json_schema" } as never,
+      }),
+    ).toThrow(expect.objectContaining({ param: "response_format.json_schema" }));
+  });
+
+  it("rejects unknown response_format types", () => {
+    expect(() =>
+      buildRequestBody({
+        messages: [{ role: "user", content: "Hi" }],
+        response_format: { type: "xml" } as never,
+      }),
+    ).toThrow(InvalidRequestError);
+  });
+
+  it("maps reasoning_effort to a thinking budget", () => {
+    const body = buildRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+      reasoning_effort: "low",
+    });
+    expect(body.generationConfig).toEqual({
+      thinkingConfig: { thinkingBudget: 1024, includeThoughts: true },
+    });
+
+    const off = buildRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+      reasoning_effort: "none",
+    });
+    expect(off.generationConfig).toEqual({
+      thinkingConfig: { thinkingBudget: 0, includeThoughts: false },
+    });
+  });
+
+  it("prefers an explicit thinking_budget over reasoning_effort", () => {
+    const body = buildRequestBody({
+      messages: [{ role: "user", content: "Hi" }],
+      reasoning_effort: "high",
+      thinking_budget: -1,
+    });
+    expect(body.generationConfig?.thinkingConfig).toEqual({
+      thinkingBudget: -1,
+      includeThoughts: true,
+    });
+  });
+
+  it("rejects invalid reasoning settings", () => {
+    expect(() =>
+      buildRequestBody({
+        messages: [{ role: "user", content: "Hi" }],
+        reasoning_effort: "max" as never,
+      }),
+    ).toThrow(InvalidRequestError);
+    expect(() =>
+      buildRequestBody({
+        messages: [{ role: "user", content: "Hi" }],
+        reasoning_effort: "constructor" as never,
+      }),
+    ).toThrow(InvalidRequestError);
+    expect(() =>
+      buildRequestBody({ messages: [{ role: "user", content: "Hi" }], thinking_budget: 1.5 }),
+    ).toThrow(InvalidRequestError);
+  });
 });
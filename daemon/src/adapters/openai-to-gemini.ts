@@ -1,23 +1,34 @@
 import type { GeminiPart } from "../services/gemini-client.js";
+import { InvalidRequestError } from "../errors.js";
+import {
+  createInlineBudget,
+  inlineDataPart,
+  mimeTypeForFilename,
+  urlToInlinePart,
+  type InlineBudget,
+  type MediaOptions,
+} from "./media.js";
+import { toGeminiSchema } from "./json-schema.js";
+import { thoughtSignatures } from "../services/thought-signatures.js";
 
 // --- Gemini API Types (local definitions) ---
 
-interface GeminiContent {
+export interface GeminiContent {
   role: string;
   parts: GeminiPart[];
 }
 
-interface GeminiFunctionDeclaration {
+export interface GeminiFunctionDeclaration {
   name: string;
   description?: string;
   parametersJsonSchema?: Record<string, unknown>;
 }
 
-interface GeminiTool {
+export interface GeminiTool {
   functionDeclarations: GeminiFunctionDeclaration[];
 }
 
-interface GeminiToolConfig {
+export interface GeminiToolConfig {
   functionCallingConfig: {
     mode: string;
     allowedFunctionNames?: string[];
@@ -34,10 +45,12 @@ export interface GeminiRequestBody {
 
 // --- OpenAI Request Types ---
 
-interface OpenAIContentPart {
+export interface OpenAIContentPart {
   type: string;
   text?: string;
-  image_url?: { url: string };
+  image_url?: { url: string; detail?: string };
+  input_audio?: { data: string; format: string };
+  file?: { file_data?: string; filename?: string; file_id?: string };
 }
 
 export interface OpenAIMessage {
@@ -61,6 +74,77 @@ function extractText(content: string | OpenAIContentPart[] | null | undefined):
   return String(content);
 }
 
+/**
+ * Convert user content into Gemini parts, keeping text and media in order.
+ * Adjacent text parts are joined with newlines, matching extractText.
+ */
+function convertUserContent(
+  content: string | OpenAIContentPart[] | null | undefined,
+  param: string,
+  budget: InlineBudget,
+  options: MediaOptions,
+): GeminiPart[] {
+  if (!Array.isArray(content)) return [{ text: extractText(content) }];
+
+  const parts: GeminiPart[] = [];
+  content.forEach((p, j) => {
+    const partParam = `${param}[${j}]`;
+
+    if (p.type === "text") {
+      if (!p.text) return;
+      const last = parts[parts.length - 1];
+      if (last?.text !== undefined) {
+        last.text += "\n" + p.text;
+      } else {
+        parts.push({ text: p.text });
+      }
+      return;
+    }
+
+    if (p.type === "image_url") {
+      if (!p.image_url?.url) {
+        throw new InvalidRequestError("image_url.url is required", partParam);
+      }
+      parts.push(urlToInlinePart(p.image_url.url, partParam, budget, options));
+      return;
+    }
+
+    if (p.type === "input_audio") {
+      if (!p.input_audio?.data || !p.input_audio.format) {
+        throw new InvalidRequestError("input_audio.data and input_audio.format are required", partParam);
+      }
+      parts.push(
+        inlineDataPart(`audio/${p.input_audio.format}`, p.input_audio.data, partParam, budget),
+      );
+      return;
+    }
+
+    if (p.type === "file") {
+      const fileData = p.file?.file_data;
+      if (!fileData) {
+        throw new InvalidRequestError(
+          p.file?.file_id ? "Uploaded file_id references are not supported; send file_data" : "file.file_data is required",
+          partParam,
+        );
+      }
+      if (fileData.startsWith("data:") || fileData.startsWith("file://")) {
+        parts.push(urlToInlinePart(fileData, partParam, budget, options));
+        return;
+      }
+      const mimeType = p.file?.filename ? mimeTypeForFilename(p.file.filename) : "application/pdf";
+      if (!mimeType) {
+        throw new InvalidRequestError(`Cannot determine media type of '${p.file?.filename}'`, partParam);
+      }
+      parts.push(inlineDataPart(mimeType, fileData, partParam, budget));
+      return;
+    }
+
+    throw new InvalidRequestError(`Unsupported content part type '${p.type}'`, partParam);
+  });
+
+  return parts.length > 0 ? parts : [{ text: "" }];
+}
+
 export interface OpenAIToolCall {
   id: string;
   type: "function";
@@ -79,28 +163,58 @@ export interface OpenAITool {
   };
 }
 
+export type OpenAIResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean | null;
+      };
+    };
+
+export type OpenAIReasoningEffort = "none" | "minimal" | "low" | "medium" | "high";
+
 export interface OpenAIChatRequest {
   model?: string;
   messages: OpenAIMessage[];
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
   stop?: string | string[];
   tools?: OpenAITool[];
   tool_choice?: "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+  response_format?: OpenAIResponseFormat;
+  reasoning_effort?: OpenAIReasoningEffort;
+  /** Extension: explicit Gemini thinking budget in tokens (-1 = dynamic, 0 = off). */
+  thinking_budget?: number;
 }
 
 // --- Conversion ---
 
-export function convertMessages(messages: OpenAIMessage[]): {
+export function convertMessages(
+  messages: OpenAIMessage[],
+  options: MediaOptions = {},
+): {
   systemInstruction?: string;
   contents: GeminiContent[];
 } {
   let systemInstruction: string | undefined;
   const contents: GeminiContent[] = [];
+  const budget = createInlineBudget();
+  // Tool messages only carry tool_call_id; Gemini wants the function name
+  const toolCallNames = new Map<string, string>();
+  const answeredCalls = new Set<string>();
+  let toolTurn: GeminiContent | undefined;
+
+  for (const [i, msg] of messages.entries()) {
+    if (msg.role !== "tool") toolTurn = undefined;
 
-  for (const msg of messages) {
     if (msg.role === "system") {
       const text = extractText(msg.content);
       systemInstruction = systemInstruction
@@ -112,7 +226,7 @@ export function convertMessages(messages: OpenAIMessage[]): {
     if (msg.role === "user") {
       contents.push({
         role: "user",
-        parts: [{ text: extractText(msg.content) }],
+        parts: convertUserContent(msg.content, `messages[${i}].content`, budget, options),
       });
       continue;
     }
@@ -126,13 +240,26 @@ export function convertMessages(messages: OpenAIMessage[]): {
       }
 
       if (msg.tool_calls) {
-        for (const tc of msg.tool_calls) {
-          parts.push({
+        for (const [j, tc] of msg.tool_calls.entries()) {
+          if (toolCallNames.has(tc.id)) {
+            throw new InvalidRequestError(
+              `Duplicate tool call id '${tc.id}'`,
+              `messages[${i}].tool_calls[${j}].id`,
+            );
+          }
+          toolCallNames.set(tc.id, tc.function.name);
+          const part: GeminiPart = {
             functionCall: {
               name: tc.function.name,
               args: JSON.parse(tc.function.arguments),
             },
-          });
+          };
+          // Gemini expects its thought signatures back; a cache miss just sends the call without one
+          const cached = thoughtSignatures.get(tc.id);
+          if (cached && cached.part.functionCall?.name === tc.function.name) {
+            part.thoughtSignature = cached.signature;
+          }
+          parts.push(part);
         }
       }
 
@@ -143,17 +270,19 @@ export function convertMessages(messages: OpenAIMessage[]): {
     }
 
     if (msg.role === "tool") {
-      contents.push({
-        role: "user",
-        parts: [
-          {
-            functionResponse: {
-              name: msg.name ?? "unknown",
-              response: safeParseJson(extractText(msg.content)),
-            },
-          },
-        ],
-      });
+      const part: GeminiPart = {
+        functionResponse: {
+          name: resolveToolName(msg, i, toolCallNames, answeredCalls),
+          response: safeParseJson(extractText(msg.content)),
+        },
+      };
+      // Gemini expects all responses to one round of calls in a single user turn
+      if (toolTurn) {
+        toolTurn.parts.push(part);
+      } else {
+        toolTurn = { role: "user", parts: [part] };
+        contents.push(toolTurn);
+      }
       continue;
     }
   }
@@ -161,7 +290,36 @@ export function convertMessages(messages: OpenAIMessage[]): {
   return { systemInstruction, contents };
 }
 
-function safeParseJson(str: string): Record<string, unknown> {
+function resolveToolName(
+  msg: OpenAIMessage,
+  index: number,
+  toolCallNames: Map<string, string>,
+  answeredCalls: Set<string>,
+): string {
+  const param = `messages[${index}].tool_call_id`;
+  if (msg.tool_call_id === undefined) {
+    if (msg.name) return msg.name;
+    throw new InvalidRequestError("Tool messages must include tool_call_id", param);
+  }
+
+  const name = toolCallNames.get(msg.tool_call_id);
+  if (!name) {
+    throw new InvalidRequestError(
+      `No assistant tool call with id '${msg.tool_call_id}' precedes this tool message`,
+      param,
+    );
+  }
+  if (answeredCalls.has(msg.tool_call_id)) {
+    throw new InvalidRequestError(
+      `Tool call '${msg.tool_call_id}' already has a result`,
+      param,
+    );
+  }
+  answeredCalls.add(msg.tool_call_id);
+  return name;
+}
+
+export function safeParseJson(str: string): Record<string, unknown> {
   try {
     const parsed = JSON.parse(str);
     if (typeof parsed === "object" && parsed !== null) return parsed;
@@ -208,8 +366,85 @@ export function convertToolChoice(
   return undefined;
 }
 
-export function buildRequestBody(req: OpenAIChatRequest): GeminiRequestBody {
-  const { systemInstruction, contents } = convertMessages(req.messages);
+/** The schema to enforce on the final output, if the request asked for strict JSON. */
+export function strictResponseSchema(
+  format?: OpenAIResponseFormat,
+): Record<string, unknown> | undefined {
+  if (format?.type !== "json_schema" || !format.json_schema?.strict) return undefined;
+  return format.json_schema.schema;
+}
+
+function applyResponseFormat(
+  generationConfig: Record<string, unknown>,
+  format?: OpenAIResponseFormat,
+): void {
+  if (!format || format.type === "text") return;
+
+  if (format.type === "json_object") {
+    generationConfig.responseMimeType = "application/json";
+    return;
+  }
+
+  if (format.type === "json_schema") {
+    if (!format.json_schema) {
+      throw new InvalidRequestError(
+        "'response_format.json_schema' is required when type is 'json_schema'",
+        "response_format.json_schema",
+      );
+    }
+    generationConfig.responseMimeType = "application/json";
+    if (format.json_schema.schema) {
+      generationConfig.responseSchema = toGeminiSchema(format.json_schema.schema);
+    }
+    return;
+  }
+
+  throw new InvalidRequestError(
+    `Unsupported response_format type '${(format as { type: string }).type}'`,
+    "response_format.type",
+  );
+}
+
+// Thinking budgets (tokens) used for each reasoning_effort level
+const REASONING_EFFORT_BUDGETS: Record<OpenAIReasoningEffort, number> = {
+  none: 0,
+  minimal: 512,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+function applyThinking(generationConfig: Record<string, unknown>, req: OpenAIChatRequest): void {
+  let budget: number | undefined;
+
+  if (req.thinking_budget !== undefined) {
+    if (!Number.isInteger(req.thinking_budget) || req.thinking_budget < -1) {
+      throw new InvalidRequestError(
+        "thinking_budget must be -1 (dynamic), 0 (off) or a positive integer",
+        "thinking_budget",
+      );
+    }
+    budget = req.thinking_budget;
+  } else if (req.reasoning_effort !== undefined) {
+    // Own keys only: `constructor` and friends are not effort levels
+    if (!Object.hasOwn(REASONING_EFFORT_BUDGETS, req.reasoning_effort)) {
+      throw new InvalidRequestError(
+        `Unsupported reasoning_effort '${req.reasoning_effort}'`,
+        "reasoning_effort",
+      );
+    }
+    budget = REASONING_EFFORT_BUDGETS[req.reasoning_effort];
+  }
+
+  if (budget === undefined) return;
+  generationConfig.thinkingConfig = { thinkingBudget: budget, includeThoughts: budget !== 0 };
+}
+
+export function buildRequestBody(
+  req: OpenAIChatRequest,
+  options: MediaOptions = {},
+): GeminiRequestBody {
+  const { systemInstruction, contents } = convertMessages(req.messages, options);
 
   const body: GeminiRequestBody = { contents };
 
@@ -224,6 +459,8 @@ export function buildRequestBody(req: OpenAIChatRequest): GeminiRequestBody {
   if (req.stop !== undefined) {
     generationConfig.stopSequences = Array.isArray(req.stop) ? req.stop : [req.stop];
   }
+  applyResponseFormat(generationConfig, req.response_format);
+  applyThinking(generationConfig, req);
   if (Object.keys(generationConfig).length > 0) {
     body.generationConfig = generationConfig;
   }
@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { applyPreset } from "./presets.js";
+import { DEFAULT_CONFIG, setConfig } from "../config.js";
+import { resolveModel } from "../services/gemini-client.js";
+import type { GeminiRequestBody } from "./openai-to-gemini.js";
+
+function usePresets() {
+  setConfig({
+    ...DEFAULT_CONFIG,
+    presets: {
+      coder: {
+        model: "pro",
+        system: "You write careful code.",
+        temperature: 0.2,
+        thinkingBudget: 8192,
+      },
+      cheap: { model: "gemini-2.0-flash-lite", maxOutputTokens: 256 },
+    },
+  });
+}
+
+describe("applyPreset", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("fills in preset defaults and prepends the system prompt", () => {
+    usePresets();
+    const body: GeminiRequestBody = {
+      contents: [],
+      systemInstruction: { parts: [{ text: "Answer in French." }] },
+    };
+
+    expect(applyPreset(body, "coder")).toEqual({
+      contents: [],
+      systemInstruction: { parts: [{ text: "You write careful code.\n\nAnswer in French." }] },
+      generationConfig: {
+        temperature: 0.2,
+        thinkingConfig: { thinkingBudget: 8192, includeThoughts: true },
+      },
+    });
+  });
+
+  it("lets request values win over preset defaults", () => {
+    usePresets();
+    const body: GeminiRequestBody = {
+      contents: [],
+      generationConfig: { maxOutputTokens: 2048 },
+    };
+    expect(applyPreset(body, "cheap").generationConfig).toEqual({ maxOutputTokens: 2048 });
+  });
+
+  it("leaves non-preset models untouched", () => {
+    usePresets();
+    const body: GeminiRequestBody = { contents: [] };
+    expect(applyPreset(body, "gemini-2.5-flash")).toEqual({ contents: [] });
+  });
+});
+
+describe("resolveModel with presets", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("resolves presets to their target, following aliases", () => {
+    usePresets();
+    expect(resolveModel("coder")).toBe("gemini-2.5-pro");
+    expect(resolveModel(undefined, "cheap")).toBe("gemini-2.0-flash-lite");
+  });
+});
@@ -0,0 +1,40 @@
+import { getConfig } from "../config.js";
+import type { GeminiRequestBody } from "./openai-to-gemini.js";
+
+const GENERATION_DEFAULTS = ["temperature", "topP", "topK", "maxOutputTokens"] as const;
+
+/**
+ * Fill in a preset's defaults for the requested model name. Values the request
+ * already set win; the preset's system prompt goes before the request's own.
+ * Does nothing when `name` is not a preset.
+ */
+export function applyPreset<T extends Pick<GeminiRequestBody, "systemInstruction" | "generationConfig">>(
+  body: T,
+  name?: string,
+): T {
+  const preset = name ? getConfig().presets[name] : undefined;
+  if (!preset) return body;
+
+  if (preset.system) {
+    const existing = body.systemInstruction?.parts.map((p) => p.text).join("\n");
+    body.systemInstruction = {
+      parts: [{ text: existing ? `${preset.system}\n\n${existing}` : preset.system }],
+    };
+  }
+
+  const generationConfig: Record<string, unknown> = { ...body.generationConfig };
+  for (const key of GENERATION_DEFAULTS) {
+    if (preset[key] !== undefined && generationConfig[key] === undefined) {
+      generationConfig[key] = preset[key];
+    }
+  }
+  if (preset.thinkingBudget !== undefined && generationConfig.thinkingConfig === undefined) {
+    generationConfig.thinkingConfig = {
+      thinkingBudget: preset.thinkingBudget,
+      includeThoughts: preset.thinkingBudget !== 0,
+    };
+  }
+  if (Object.keys(generationConfig).length > 0) body.generationConfig = generationConfig;
+
+  return body;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  convertInputItems,
+  convertResponsesRequest,
+  convertResponsesTools,
+} from "./responses-to-chat.js";
+import { InvalidRequestError } from "../errors.js";
+
+describe("convertInputItems", () => {
+  it("converts message items with typed content parts", () => {
+    const messages = convertInputItems([
+      { role: "developer", content: "Be brief." },
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "Hi" }],
+      },
+      {
+        type: "message",
+        role: "assistant",
+        content: [{ type: "output_text", text: "Hello" }],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+      { role: "assistant", content: [{ type: "text", text: "Hello" }] },
+    ]);
+  });
+
+  it("groups function calls and resolves output names", () => {
+    const messages = convertInputItems([
+      { type: "function_call", call_id: "call_a", name: "get_weather", arguments: '{"city":"A"}' },
+      { type: "function_call", call_id: "call_b", name: "get_time", arguments: "{}" },
+      { type: "function_call_output", call_id: "call_a", output: '{"temp":1}' },
+      { type: "function_call_output", call_id: "call_b", output: "noon" },
+    ]);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[0].role).toBe("assistant");
+    expect(messages[0].tool_calls!.map((tc) => tc.id)).toEqual(["call_a", "call_b"]);
+    expect(messages[1]).toEqual({
+      role: "tool",
+      tool_call_id: "call_a",
+      name: "get_weather",
+      content: '{"temp":1}',
+    });
+    expect(messages[2].name).toBe("get_time");
+  });
+
+  it("rejects unknown item types", () => {
+    expect(() =>
+      convertInputItems([{ type: "web_search_call" } as any]),
+    ).toThrow(InvalidRequestError);
+  });
+});
+
+describe("convertResponsesTools", () => {
+  it("flattens function tools into chat tools", () => {
+    expect(
+      convertResponsesTools([
+        { type: "function", name: "search", description: "d", parameters: { type: "object" } },
+      ]),
+    ).toEqual([
+      {
+        type: "function",
+        function: { name: "search", description: "d", parameters: { type: "object" } },
+      },
+    ]);
+  });
+
+  it("rejects built-in tools", () => {
+    expect(() => convertResponsesTools([{ type: "web_search" }])).toThrow(
+      "Only function tools are supported",
+    );
+  });
+});
+
+describe("convertResponsesRequest", () => {
+  it("prepends instructions and history, and maps generation params", () => {
+    const req = convertResponsesRequest(
+      {
+        model: "flash",
+        instructions: "You are helpful.",
+        input: "And now?",
+        max_output_tokens: 50,
+        temperature: 0.3,
+        tool_choice: { type: "function", name: "search" },
+      },
+      [
+        { role: "user", content: "First" },
+        {
+          type: "message",
+          role: "assistant",
+          content: [{ type: "output_text", text: "Reply" }],
+        },
+      ],
+    );
+
+    expect(req.messages.map((m) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(req.messages[0].content).toBe("You are helpful.");
+    expect(req.messages[3].content).toBe("And now?");
+    expect(req.max_tokens).toBe(50);
+    expect(req.temperature).toBe(0.3);
+    expect(req.tool_choice).toEqual({ type: "function", function: { name: "search" } });
+  });
+});
@@ -0,0 +1,203 @@
+import { InvalidRequestError } from "../errors.js";
+import type {
+  OpenAIChatRequest,
+  OpenAIMessage,
+  OpenAITool,
+  OpenAIToolCall,
+} from "./openai-to-gemini.js";
+
+// --- OpenAI Responses Request Types ---
+
+export interface ResponsesContentPart {
+  type: string;
+  text?: string;
+  image_url?: string;
+  file_data?: string;
+  filename?: string;
+}
+
+export interface ResponsesMessageItem {
+  type?: "message";
+  id?: string;
+  role: "user" | "assistant" | "system" | "developer";
+  content: string | ResponsesContentPart[];
+  status?: string;
+}
+
+export interface ResponsesFunctionCallItem {
+  type: "function_call";
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: string;
+}
+
+export interface ResponsesFunctionCallOutputItem {
+  type: "function_call_output";
+  id?: string;
+  call_id: string;
+  output: string;
+}
+
+export type ResponsesInputItem =
+  | ResponsesMessageItem
+  | ResponsesFunctionCallItem
+  | ResponsesFunctionCallOutputItem;
+
+export interface ResponsesFunctionTool {
+  type: "function";
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export type ResponsesToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; name: string };
+
+export interface ResponsesRequest {
+  model?: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  stream?: boolean;
+  store?: boolean;
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  tools?: Array<ResponsesFunctionTool | { type: string }>;
+  tool_choice?: ResponsesToolChoice;
+  metadata?: Record<string, string>;
+}
+
+// --- Conversion ---
+
+/** Normalize `input` into a list of items (a bare string is one user message). */
+export function normalizeInput(input: ResponsesRequest["input"]): ResponsesInputItem[] {
+  if (typeof input === "string") {
+    return [{ type: "message", role: "user", content: input }];
+  }
+  return input;
+}
+
+function convertContent(content: ResponsesMessageItem["content"]): OpenAIMessage["content"] {
+  if (typeof content === "string") return content;
+  return content.map((part) => {
+    if (part.type === "input_text" || part.type === "output_text") {
+      return { type: "text", text: part.text ?? "" };
+    }
+    if (part.type === "input_image") {
+      return { type: "image_url", image_url: { url: part.image_url ?? "" } };
+    }
+    if (part.type === "input_file") {
+      return { type: "file", file: { file_data: part.file_data, filename: part.filename } };
+    }
+    return { type: part.type };
+  });
+}
+
+/**
+ * Convert Responses input items into chat messages. Consecutive function_call
+ * items collapse into a single assistant turn with several tool_calls.
+ */
+export function convertInputItems(items: ResponsesInputItem[]): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+  const callNames = new Map<string, string>();
+
+  items.forEach((item, i) => {
+    if (item.type === "function_call") {
+      callNames.set(item.call_id, item.name);
+      const toolCall: OpenAIToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant" && last.tool_calls) {
+        last.tool_calls.push(toolCall);
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+      }
+      return;
+    }
+
+    if (item.type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        name: callNames.get(item.call_id),
+        content: item.output,
+      });
+      return;
+    }
+
+    if (item.type === undefined || item.type === "message") {
+      const role = item.role === "developer" ? "system" : item.role;
+      messages.push({ role, content: convertContent(item.content) });
+      return;
+    }
+
+    throw new InvalidRequestError(
+      `Unsupported input item type '${(item as { type: string }).type}'`,
+      `input[${i}].type`,
+    );
+  });
+
+  return messages;
+}
+
+export function convertResponsesTools(
+  tools?: ResponsesRequest["tools"],
+): OpenAITool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  return tools.map((t, i) => {
+    if (t.type !== "function") {
+      throw new InvalidRequestError(
+        `Only function tools are supported (got '${t.type}')`,
+        `tools[${i}].type`,
+      );
+    }
+    const fn = t as ResponsesFunctionTool;
+    return {
+      type: "function" as const,
+      function: { name: fn.name, description: fn.description, parameters: fn.parameters },
+    };
+  });
+}
+
+function convertResponsesToolChoice(
+  toolChoice?: ResponsesToolChoice,
+): OpenAIChatRequest["tool_choice"] {
+  if (!toolChoice || typeof toolChoice === "string") return toolChoice;
+  return { type: "function", function: { name: toolChoice.name } };
+}
+
+/**
+ * Build a chat request from a Responses request. `history` holds the items of
+ * the chained `previous_response_id` conversation, including its output.
+ */
+export function convertResponsesRequest(
+  req: ResponsesRequest,
+  history: ResponsesInputItem[] = [],
+): OpenAIChatRequest {
+  const messages = convertInputItems([...history, ...normalizeInput(req.input)]);
+  if (req.instructions) {
+    messages.unshift({ role: "system", content: req.instructions });
+  }
+
+  return {
+    model: req.model,
+    messages,
+    stream: req.stream,
+    temperature: req.temperature,
+    top_p: req.top_p,
+    max_tokens: req.max_output_tokens,
+    tools: convertResponsesTools(req.tools),
+    tool_choice: convertResponsesToolChoice(req.tool_choice),
+  };
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, afterAll, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  DEFAULT_CONFIG,
+  getConfig,
+  isKnownModel,
+  loadConfig,
+  onConfigChange,
+  reloadConfig,
+  setConfig,
+  validateConfig,
+} from "./config.js";
+import { ConfigError } from "./errors.js";
+
+const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-config-"));
+
+describe("validateConfig", () => {
+  it("merges values over the defaults", () => {
+    const config = validateConfig({
+      aliases: { fast: "gemini-2.0-flash-lite" },
+      maxRetries: 0,
+      cors: { allowedHosts: ["localhost", "my-app.test"] },
+      upstreamBaseUrl: "http://127.0.0.1:9000/v1internal/",
+    });
+
+    expect(config.aliases.fast).toBe("gemini-2.0-flash-lite");
+    expect(config.aliases.pro).toBe("gemini-2.5-pro");
+    expect(config.models).toEqual(DEFAULT_CONFIG.models);
+    expect(config.maxRetries).toBe(0);
+    expect(config.cors.allowedHosts).toEqual(["localhost", "my-app.test"]);
+    expect(config.upstreamBaseUrl).toBe("http://127.0.0.1:9000/v1internal");
+  });
+
+  it("reports every problem at once", () => {
+    try {
+      validateConfig({ modles: [], maxRetries: -1, upstreamBaseUrl: "ftp://x" });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ConfigError);
+      expect((err as ConfigError).issues).toEqual([
+        "unknown key 'modles'",
+        "maxRetries must be an integer between 0 and 10",
+        "upstreamBaseUrl must be an http(s) URL",
+      ]);
+    }
+  });
+});
+
+describe("validateConfig limits", () => {
+  it("accepts per-client limits and rejects malformed ones", () => {
+    const config = validateConfig({
+      limits: { default: { requestsPerMinute: 60 }, clients: { ci: { concurrent: 2, dailyTokens: 100000 } } },
+    });
+    expect(config.limits.default).toEqual({ requestsPerMinute: 60 });
+    expect(config.limits.clients.ci).toEqual({ concurrent: 2, dailyTokens: 100000 });
+
+    expect(() => validateConfig({ limits: { clients: { ci: { concurrent: 0, rpm: 5 } } } })).toThrow(
+      "limits.clients.ci: concurrent must be a positive integer; limits.clients.ci: unknown key 'rpm'",
+    );
+  });
+});
+
+describe("validateConfig scheduler", () => {
+  it("accepts concurrency overrides and rejects malformed ones", () => {
+    const config = validateConfig({ scheduler: { maxConcurrent: 2, models: { "gemini-2.5-pro": 1 } } });
+    expect(config.scheduler).toEqual({ maxConcurrent: 2, models: { "gemini-2.5-pro": 1 }, maxQueue: 32 });
+
+    expect(() => validateConfig({ scheduler: { maxQueue: -1, models: { pro: "1" }, slots: 3 } })).toThrow(
+      "scheduler.maxQueue must be a positive integer; scheduler.models must map model ids to positive integers; unknown key 'scheduler.slots'",
+    );
+  });
+});
+
+describe("validateConfig oauth", () => {
+  it("accepts endpoint overrides and rejects bad ones", () => {
+    const config = validateConfig({ oauth: { tokenUrl: "http://127.0.0.1:9100/token" } });
+    expect(config.oauth).toEqual({ authUrl: DEFAULT_CONFIG.oauth.authUrl, tokenUrl: "http://127.0.0.1:9100/token" });
+
+    expect(() => validateConfig({ oauth: { tokenUrl: "token", revokeUrl: "x" } })).toThrow(
+      "oauth.tokenUrl must be an http(s) URL; unknown key 'oauth.revokeUrl'",
+    );
+  });
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("validateConfig presets", () => {
+  it("accepts presets and rejects malformed ones", () => {
+    const config = validateConfig({
+      presets: { coder: { model: "gemini-2.5-pro", system: "Be exact.", temperature: 0.2 } },
+    });
+    expect(config.presets.coder.temperature).toBe(0.2);
+
+    expect(() =>
+      validateConfig({ presets: { bad: { temperature: "low", colour: "red" } } }),
+    ).toThrow(
+      "presets.bad: temperature must be a number; presets.bad: unknown key 'colour'; presets.bad: model is required",
+    );
+  });
+});
+
+describe("validateConfig quota", () => {
+  it("fills in defaults and rejects unknown policies", () => {
+    expect(validateConfig({ quota: { policy: "reject" } }).quota).toEqual({
+      policy: "reject",
+      refreshSeconds: 60,
+    });
+    expect(() => validateConfig({ quota: { policy: "retry", refreshSeconds: 1 } })).toThrow(
+      "quota.policy must be one of fallback, reject, off; quota.refreshSeconds must be an integer of at least 10",
+    );
+  });
+});
+
+describe("validateConfig vertex", () => {
+  it("requires vertex settings when an alias targets Vertex AI", () => {
+    expect(() => validateConfig({ aliases: { vpro: "vertex/gemini-2.5-pro" } })).toThrow(
+      "vertex settings are required when the vertex backend is used",
+    );
+    const config = validateConfig({
+      aliases: { vpro: "vertex/gemini-2.5-pro" },
+      vertex: { project: "acme", region: "us-central1" },
+    });
+    expect(config.vertex).toEqual({ project: "acme", region: "us-central1" });
+    expect(() => validateConfig({ vertex: { region: "us-central1", zone: "a" } })).toThrow(
+      "vertex: unknown key 'zone'; vertex: project is required",
+    );
+  });
+
+  it("requires vertex settings when a preset or fallback targets Vertex AI", () => {
+    expect(() => validateConfig({ presets: { review: { model: "vertex/gemini-2.5-pro" } } })).toThrow(
+      "vertex settings are required when the vertex backend is used",
+    );
+    expect(() => validateConfig({ fallbacks: { "gemini-2.5-pro": ["vertex/gemini-2.5-pro"] } })).toThrow(
+      "vertex settings are required when the vertex backend is used",
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  it("returns defaults when the file is missing", () => {
+    expect(loadConfig(join(dir, "missing.json"))).toBe(DEFAULT_CONFIG);
+  });
+
+  it("rejects invalid JSON", () => {
+    const path = join(dir, "broken.json");
+    writeFileSync(path, "{ models: ");
+    expect(() => loadConfig(path)).toThrow("not valid JSON");
+  });
+});
+
+describe("isKnownModel", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("follows config changes", () => {
+    expect(isKnownModel("gemini-2.5-pro")).toBe(true);
+    expect(isKnownModel("made-up")).toBe(false);
+
+    setConfig({ ...DEFAULT_CONFIG, aliases: { team: "vertex/gemini-3-pro" } });
+    expect(isKnownModel("team")).toBe(true);
+    expect(isKnownModel("vertex/gemini-3-pro")).toBe(true);
+    expect(isKnownModel("gemini-3-pro")).toBe(true);
+  });
+});
+
+describe("reloadConfig", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("applies valid edits and keeps the previous config on invalid ones", () => {
+    const path = join(dir, "config.json");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    writeFileSync(path, JSON.stringify({ models: ["gemini-2.5-pro"] }));
+    expect(reloadConfig(path)).toBe(true);
+    expect(getConfig().models).toEqual(["gemini-2.5-pro"]);
+
+    writeFileSync(path, JSON.stringify({ models: "gemini-2.5-pro" }));
+    expect(reloadConfig(path)).toBe(false);
+    expect(getConfig().models).toEqual(["gemini-2.5-pro"]);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("keeping previous config"));
+
+    vi.restoreAllMocks();
+  });
+
+  it("tells listeners about applied configs only", () => {
+    const path = join(dir, "listened.json");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const listener = vi.fn();
+    const unsubscribe = onConfigChange(listener);
+
+    writeFileSync(path, JSON.stringify({ models: ["gemini-2.5-pro"] }));
+    reloadConfig(path);
+    writeFileSync(path, "{");
+    reloadConfig(path);
+    unsubscribe();
+    setConfig(DEFAULT_CONFIG);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ models: ["gemini-2.5-pro"] }));
+    vi.restoreAllMocks();
+  });
+});
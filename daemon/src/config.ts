@@ -0,0 +1,549 @@
+import { readFileSync, watch, type FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+import { ConfigError } from "./errors.js";
+
+/** A named model that bundles a target model with default generation settings. */
+export interface ModelPreset {
+  model: string;
+  /** Prepended to any system prompt the request sends. */
+  system?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+}
+
+export type QuotaPolicy = "fallback" | "reject" | "off";
+
+const QUOTA_POLICIES: QuotaPolicy[] = ["fallback", "reject", "off"];
+
+export type Backend = "code-assist" | "gemini-api" | "vertex";
+
+export const BACKENDS: Backend[] = ["code-assist", "gemini-api", "vertex"];
+
+/** Vertex AI target. Credentials are a service-account file or, if omitted, ADC. */
+export interface VertexConfig {
+  project: string;
+  /** A region such as `us-central1`, or `global`. */
+  region: string;
+  /** Service-account JSON path (`~/` is expanded). */
+  credentials?: string;
+  /** Overrides the regional endpoint, e.g. for a local stand-in. */
+  baseUrl?: string;
+}
+
+export type AccountStrategy = "round-robin" | "most-quota" | "sticky";
+
+const ACCOUNT_STRATEGIES: AccountStrategy[] = ["round-robin", "most-quota", "sticky"];
+
+/** Caps for one client. Omitted caps don't apply. */
+export interface ClientLimits {
+  /** Requests started in any 60-second window. */
+  requestsPerMinute?: number;
+  /** Requests in flight at once, open streams included. */
+  concurrent?: number;
+  /** Prompt plus completion tokens per day (local midnight to midnight). */
+  dailyTokens?: number;
+}
+
+const LIMIT_KEYS: (keyof ClientLimits)[] = ["requestsPerMinute", "concurrent", "dailyTokens"];
+
+export interface DaemonConfig {
+  /**
+   * Short names accepted in the `model` field, merged over the built-in
+   * aliases. A target may name its backend: `vertex/gemini-2.5-pro`.
+   */
+  aliases: Record<string, string>;
+  /** Named presets, usable anywhere a model name is accepted. */
+  presets: Record<string, ModelPreset>;
+  /**
+   * Models to try, in order, when a model's quota is exhausted or it keeps
+   * failing (429/5xx). Keys and entries may be aliases.
+   */
+  fallbacks: Record<string, string[]>;
+  quota: {
+    /**
+     * What to do with a request for a model the last quota refresh showed at
+     * 0%: `fallback` skips to the next model in its chain (rejecting if none
+     * is left), `reject` fails fast with a 429, `off` always calls upstream.
+     */
+    policy: QuotaPolicy;
+    /** Seconds between background quota refreshes. */
+    refreshSeconds: number;
+  };
+  accounts: {
+    /**
+     * Gemini CLI credential files to pool (`~/` is expanded). Empty means the
+     * single `~/.gemini/oauth_creds.json`. Read at startup only.
+     */
+    credentials: string[];
+    /**
+     * How requests are spread over accounts: in turn, to the account with the
+     * most quota left for the model, or pinned per client.
+     */
+    strategy: AccountStrategy;
+    /** Seconds an account sits out after a 429 or an auth failure. */
+    cooldownSeconds: number;
+  };
+  limits: {
+    /** Applies to every client without its own entry in `clients`. */
+    default: ClientLimits;
+    /**
+     * By client name: the API key's name, else the request's `user` field,
+     * else the `x-gemini-daemon-client` header or User-Agent product.
+     */
+    clients: Record<string, ClientLimits>;
+  };
+  scheduler: {
+    /** Upstream requests in flight per model; further requests wait in a queue. */
+    maxConcurrent: number;
+    /** Per-model overrides of `maxConcurrent`, by model id. */
+    models: Record<string, number>;
+    /** Requests that may wait per model; past that new ones get a 503. */
+    maxQueue: number;
+  };
+  /** Models advertised by `/v1/models` and `/api/tags`. */
+  models: string[];
+  /** Retries after an upstream 429 before giving up. */
+  maxRetries: number;
+  cors: {
+    /** Browser origins whose hostname is in this list may call the daemon. */
+    allowedHosts: string[];
+  };
+  /**
+   * Default backend: `code-assist` uses Gemini CLI OAuth logins, `gemini-api`
+   * an AI Studio API key, `vertex` Vertex AI. Read at startup only.
+   */
+  backend: Backend;
+  /** Required for the `vertex` backend. */
+  vertex?: VertexConfig;
+  /** Key for the `gemini-api` backend. The `GEMINI_API_KEY` env var wins. */
+  apiKey?: string;
+  /** Google OAuth endpoints, overridable to test against a fake server. */
+  oauth: {
+    authUrl: string;
+    tokenUrl: string;
+  };
+  /** Code Assist API base URL. */
+  upstreamBaseUrl: string;
+  /** Public Gemini API base URL, used by the `gemini-api` backend. */
+  apiBaseUrl: string;
+}
+
+export const DEFAULT_CONFIG: DaemonConfig = {
+  aliases: {
+    pro: "gemini-2.5-pro",
+    flash: "gemini-2.5-flash",
+    "3-pro": "gemini-3-pro",
+    "3-flash": "gemini-3-flash",
+  },
+  presets: {},
+  fallbacks: {},
+  quota: { policy: "fallback", refreshSeconds: 60 },
+  accounts: { credentials: [], strategy: "round-robin", cooldownSeconds: 60 },
+  limits: { default: {}, clients: {} },
+  scheduler: { maxConcurrent: 4, models: {}, maxQueue: 32 },
+  models: ["gemini-2.5-pro", "gemini-2.5-flash", "gemini-2.0-flash", "gemini-2.0-flash-lite"],
+  maxRetries: 3,
+  cors: { allowedHosts: ["localhost", "127.0.0.1"] },
+  backend: "code-assist",
+  vertex: undefined,
+  apiKey: undefined,
+  oauth: {
+    authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+  },
+  upstreamBaseUrl: "https://cloudcode-pa.googleapis.com/v1internal",
+  apiBaseUrl: "https://generativelanguage.googleapis.com/v1beta",
+};
+
+let current: DaemonConfig = DEFAULT_CONFIG;
+
+/** The config in effect. Read it at use time so reloads apply to new requests. */
+export function getConfig(): DaemonConfig {
+  return current;
+}
+
+const listeners = new Set<(config: DaemonConfig) => void>();
+// Built on first use after each change
+let knownModels: Set<string> | undefined;
+
+export function setConfig(config: DaemonConfig): void {
+  current = config;
+  knownModels = undefined;
+  for (const listener of listeners) listener(config);
+}
+
+/** Call `listener` with each config set after this; returns an unsubscribe function. */
+export function onConfigChange(listener: (config: DaemonConfig) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Whether the config names `model`: in `models`, or as an alias, preset or
+ * fallback, or one's target. Targets count with and without their backend
+ * prefix, since upstream clients see `vertex/gemini-2.5-pro` as `gemini-2.5-pro`.
+ */
+export function isKnownModel(model: string): boolean {
+  if (!knownModels) {
+    const { models, aliases, presets, fallbacks } = current;
+    const names = [
+      ...models,
+      ...Object.keys(aliases),
+      ...Object.values(aliases),
+      ...Object.keys(presets),
+      ...Object.values(presets).map((p) => p.model),
+      ...Object.keys(fallbacks),
+      ...Object.values(fallbacks).flat(),
+    ];
+    knownModels = new Set(names.flatMap((name) => [name, name.slice(name.indexOf("/") + 1)]));
+  }
+  return knownModels.has(model);
+}
+
+// --- Validation ---
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string" && v.length > 0);
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\/[^/]/.test(value);
+}
+
+const PRESET_NUMBER_KEYS = ["temperature", "topP", "topK", "maxOutputTokens", "thinkingBudget"];
+
+function validatePreset(preset: unknown): string[] {
+  if (!isObject(preset)) return ["must be an object"];
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(preset)) {
+    if (key === "model" || key === "system") {
+      if (typeof value !== "string" || !value) problems.push(`${key} must be a non-empty string`);
+    } else if (PRESET_NUMBER_KEYS.includes(key)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) problems.push(`${key} must be a number`);
+    } else {
+      problems.push(`unknown key '${key}'`);
+    }
+  }
+  if (preset.model === undefined) problems.push("model is required");
+  return problems;
+}
+
+function validateLimits(limits: unknown): string[] {
+  if (!isObject(limits)) return ["must be an object"];
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(limits)) {
+    if (!LIMIT_KEYS.includes(key as keyof ClientLimits)) {
+      problems.push(`unknown key '${key}'`);
+    } else if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+      problems.push(`${key} must be a positive integer`);
+    }
+  }
+  return problems;
+}
+
+function validateVertex(vertex: unknown): string[] {
+  if (!isObject(vertex)) return ["must be an object"];
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(vertex)) {
+    if (!["project", "region", "credentials", "baseUrl"].includes(key)) {
+      problems.push(`unknown key '${key}'`);
+    } else if (typeof value !== "string" || !value) {
+      problems.push(`${key} must be a non-empty string`);
+    }
+  }
+  if (vertex.project === undefined) problems.push("project is required");
+  if (vertex.region === undefined) problems.push("region is required");
+  return problems;
+}
+
+/**
+ * Check a parsed config file and merge it over the defaults. Unknown keys are
+ * rejected so typos don't silently fall back to defaults.
+ */
+export function validateConfig(raw: unknown, path = "config"): DaemonConfig {
+  const issues: string[] = [];
+  if (!isObject(raw)) throw new ConfigError(path, ["top level must be an object"]);
+
+  const known = new Set(Object.keys(DEFAULT_CONFIG));
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) issues.push(`unknown key '${key}'`);
+  }
+
+  const config: DaemonConfig = {
+    ...DEFAULT_CONFIG,
+    quota: { ...DEFAULT_CONFIG.quota },
+    accounts: { ...DEFAULT_CONFIG.accounts },
+    limits: { ...DEFAULT_CONFIG.limits },
+    scheduler: { ...DEFAULT_CONFIG.scheduler },
+    oauth: { ...DEFAULT_CONFIG.oauth },
+    cors: { ...DEFAULT_CONFIG.cors },
+  };
+
+  if (raw.aliases !== undefined) {
+    if (isObject(raw.aliases) && Object.values(raw.aliases).every((v) => typeof v === "string" && v)) {
+      config.aliases = { ...DEFAULT_CONFIG.aliases, ...(raw.aliases as Record<string, string>) };
+    } else {
+      issues.push("aliases must map names to non-empty model strings");
+    }
+  }
+
+  if (raw.presets !== undefined) {
+    if (isObject(raw.presets)) {
+      config.presets = {};
+      for (const [name, preset] of Object.entries(raw.presets)) {
+        const problems = validatePreset(preset);
+        if (problems.length === 0) config.presets[name] = preset as unknown as ModelPreset;
+        issues.push(...problems.map((p) => `presets.${name}: ${p}`));
+      }
+    } else {
+      issues.push("presets must be an object");
+    }
+  }
+
+  if (raw.fallbacks !== undefined) {
+    if (isObject(raw.fallbacks) && Object.values(raw.fallbacks).every(isStringArray)) {
+      config.fallbacks = raw.fallbacks as Record<string, string[]>;
+    } else {
+      issues.push("fallbacks must map model names to arrays of model names");
+    }
+  }
+
+  if (raw.quota !== undefined) {
+    if (!isObject(raw.quota)) {
+      issues.push("quota must be an object");
+    } else {
+      for (const key of Object.keys(raw.quota)) {
+        if (key !== "policy" && key !== "refreshSeconds") issues.push(`unknown key 'quota.${key}'`);
+      }
+      const { policy, refreshSeconds } = raw.quota;
+      if (policy !== undefined) {
+        if (QUOTA_POLICIES.includes(policy as QuotaPolicy)) config.quota.policy = policy as QuotaPolicy;
+        else issues.push(`quota.policy must be one of ${QUOTA_POLICIES.join(", ")}`);
+      }
+      if (refreshSeconds !== undefined) {
+        if (typeof refreshSeconds === "number" && Number.isInteger(refreshSeconds) && refreshSeconds >= 10) {
+          config.quota.refreshSeconds = refreshSeconds;
+        } else {
+          issues.push("quota.refreshSeconds must be an integer of at least 10");
+        }
+      }
+    }
+  }
+
+  if (raw.accounts !== undefined) {
+    if (!isObject(raw.accounts)) {
+      issues.push("accounts must be an object");
+    } else {
+      for (const key of Object.keys(raw.accounts)) {
+        if (!(key in DEFAULT_CONFIG.accounts)) issues.push(`unknown key 'accounts.${key}'`);
+      }
+      const { credentials, strategy, cooldownSeconds } = raw.accounts;
+      if (credentials !== undefined) {
+        if (isStringArray(credentials)) config.accounts.credentials = credentials;
+        else issues.push("accounts.credentials must be an array of file paths");
+      }
+      if (strategy !== undefined) {
+        if (ACCOUNT_STRATEGIES.includes(strategy as AccountStrategy)) {
+          config.accounts.strategy = strategy as AccountStrategy;
+        } else {
+          issues.push(`accounts.strategy must be one of ${ACCOUNT_STRATEGIES.join(", ")}`);
+        }
+      }
+      if (cooldownSeconds !== undefined) {
+        if (typeof cooldownSeconds === "number" && Number.isInteger(cooldownSeconds) && cooldownSeconds >= 0) {
+          config.accounts.cooldownSeconds = cooldownSeconds;
+        } else {
+          issues.push("accounts.cooldownSeconds must be a non-negative integer");
+        }
+      }
+    }
+  }
+
+  if (raw.limits !== undefined) {
+    if (!isObject(raw.limits)) {
+      issues.push("limits must be an object");
+    } else {
+      for (const key of Object.keys(raw.limits)) {
+        if (key !== "default" && key !== "clients") issues.push(`unknown key 'limits.${key}'`);
+      }
+      if (raw.limits.default !== undefined) {
+        const problems = validateLimits(raw.limits.default);
+        if (problems.length === 0) config.limits.default = raw.limits.default as ClientLimits;
+        issues.push(...problems.map((p) => `limits.default: ${p}`));
+      }
+      if (raw.limits.clients !== undefined) {
+        if (isObject(raw.limits.clients)) {
+          config.limits.clients = {};
+          for (const [name, limits] of Object.entries(raw.limits.clients)) {
+            const problems = validateLimits(limits);
+            if (problems.length === 0) config.limits.clients[name] = limits as ClientLimits;
+            issues.push(...problems.map((p) => `limits.clients.${name}: ${p}`));
+          }
+        } else {
+          issues.push("limits.clients must be an object");
+        }
+      }
+    }
+  }
+
+  if (raw.scheduler !== undefined) {
+    if (!isObject(raw.scheduler)) {
+      issues.push("scheduler must be an object");
+    } else {
+      const isPositiveInt = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 1;
+      for (const [key, value] of Object.entries(raw.scheduler)) {
+        if (key === "maxConcurrent" || key === "maxQueue") {
+          if (isPositiveInt(value)) config.scheduler[key] = value as number;
+          else issues.push(`scheduler.${key} must be a positive integer`);
+        } else if (key === "models") {
+          if (isObject(value) && Object.values(value).every(isPositiveInt)) {
+            config.scheduler.models = value as Record<string, number>;
+          } else {
+            issues.push("scheduler.models must map model ids to positive integers");
+          }
+        } else {
+          issues.push(`unknown key 'scheduler.${key}'`);
+        }
+      }
+    }
+  }
+
+  if (raw.models !== undefined) {
+    if (isStringArray(raw.models) && raw.models.length > 0) config.models = raw.models;
+    else issues.push("models must be a non-empty array of strings");
+  }
+
+  if (raw.maxRetries !== undefined) {
+    const n = raw.maxRetries;
+    if (typeof n === "number" && Number.isInteger(n) && n >= 0 && n <= 10) config.maxRetries = n;
+    else issues.push("maxRetries must be an integer between 0 and 10");
+  }
+
+  if (raw.cors !== undefined) {
+    if (!isObject(raw.cors)) {
+      issues.push("cors must be an object");
+    } else {
+      for (const key of Object.keys(raw.cors)) {
+        if (key !== "allowedHosts") issues.push(`unknown key 'cors.${key}'`);
+      }
+      if (raw.cors.allowedHosts !== undefined) {
+        if (isStringArray(raw.cors.allowedHosts)) config.cors.allowedHosts = raw.cors.allowedHosts;
+        else issues.push("cors.allowedHosts must be an array of hostnames");
+      }
+    }
+  }
+
+  if (raw.backend !== undefined) {
+    if (BACKENDS.includes(raw.backend as Backend)) config.backend = raw.backend as Backend;
+    else issues.push(`backend must be one of ${BACKENDS.join(", ")}`);
+  }
+
+  if (raw.vertex !== undefined) {
+    const problems = validateVertex(raw.vertex);
+    if (problems.length === 0) config.vertex = raw.vertex as unknown as VertexConfig;
+    issues.push(...problems.map((p) => `vertex: ${p}`));
+  }
+  // Every place a model name can name its backend
+  const targets = [
+    ...Object.values(config.aliases),
+    ...Object.values(config.presets).map((p) => p.model),
+    ...Object.entries(config.fallbacks).flat(2),
+  ];
+  const usesVertex = targets.some((target) => target.startsWith("vertex/"));
+  if ((config.backend === "vertex" || usesVertex) && !config.vertex) {
+    issues.push("vertex settings are required when the vertex backend is used");
+  }
+
+  if (raw.apiKey !== undefined) {
+    if (typeof raw.apiKey === "string" && raw.apiKey) config.apiKey = raw.apiKey;
+    else issues.push("apiKey must be a non-empty string");
+  }
+
+  if (raw.oauth !== undefined) {
+    if (!isObject(raw.oauth)) {
+      issues.push("oauth must be an object");
+    } else {
+      for (const [key, url] of Object.entries(raw.oauth)) {
+        if (key !== "authUrl" && key !== "tokenUrl") issues.push(`unknown key 'oauth.${key}'`);
+        else if (typeof url === "string" && isHttpUrl(url)) config.oauth[key] = url;
+        else issues.push(`oauth.${key} must be an http(s) URL`);
+      }
+    }
+  }
+
+  for (const key of ["upstreamBaseUrl", "apiBaseUrl"] as const) {
+    const url = raw[key];
+    if (url === undefined) continue;
+    if (typeof url === "string" && isHttpUrl(url)) {
+      config[key] = url.replace(/\/+$/, "");
+    } else {
+      issues.push(`${key} must be an http(s) URL`);
+    }
+  }
+
+  if (issues.length > 0) throw new ConfigError(path, issues);
+  return config;
+}
+
+/** Read and validate the config file. A missing file means defaults. */
+export function loadConfig(path: string): DaemonConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return DEFAULT_CONFIG;
+    throw new ConfigError(path, [(err as Error).message]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError(path, [`not valid JSON (${(err as Error).message})`]);
+  }
+  return validateConfig(raw, path);
+}
+
+/**
+ * Re-read the config file. On failure the previous config stays in effect and
+ * the reason is logged. Returns whether the new config was applied.
+ */
+export function reloadConfig(path: string): boolean {
+  try {
+    setConfig(loadConfig(path));
+    console.log(`[config] reloaded ${path}`);
+    return true;
+  } catch (err) {
+    console.error(`[config] rejected ${(err as Error).message}; keeping previous config`);
+    return false;
+  }
+}
+
+/**
+ * Reload when the file changes. Watches the directory so editors that save by
+ * renaming a temp file over the original are picked up too.
+ */
+export function watchConfig(path: string): FSWatcher | undefined {
+  const file = basename(path);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const watcher = watch(dirname(path), (_event, changed) => {
+      if (changed !== file) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => reloadConfig(path), 100);
+    });
+    watcher.unref();
+    return watcher;
+  } catch {
+    // Config directory doesn't exist; SIGHUP still works once it does
+    return undefined;
+  }
+}
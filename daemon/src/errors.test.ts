@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatErrorResponse } from "./errors.js";
+import { ClientCancelledError, disconnectSignal, formatErrorResponse } from "./errors.js";
 
 describe("formatErrorResponse", () => {
   it("returns correct OpenAI error shape with defaults", () => {
@@ -31,3 +31,16 @@ describe("formatErrorResponse", () => {
     });
   });
 });
+
+describe("disconnectSignal", () => {
+  it("aborts with a ClientCancelledError when the request is aborted", () => {
+    const controller = new AbortController();
+    const signal = disconnectSignal(new Request("http://localhost/", { signal: controller.signal }));
+    expect(signal.aborted).toBe(false);
+
+    controller.abort("Client connection prematurely closed.");
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(ClientCancelledError);
+    expect(signal.reason.status).toBe(499);
+  });
+});
@@ -7,6 +7,35 @@ export interface OpenAIErrorResponse {
   };
 }
 
+export interface AnthropicErrorResponse {
+  type: "error";
+  error: {
+    type: string;
+    message: string;
+  };
+}
+
+export interface GoogleErrorResponse {
+  error: {
+    code: number;
+    message: string;
+    status: string;
+  };
+}
+
+/** A client-side problem with the request body, reported as a 400. */
+export class InvalidRequestError extends Error {
+  readonly status = 400;
+
+  constructor(
+    message: string,
+    readonly param?: string,
+  ) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
+
 export function formatErrorResponse(
   message: string,
   type: string,
@@ -22,3 +51,149 @@ export function formatErrorResponse(
     },
   };
 }
+
+export function formatAnthropicError(
+  message: string,
+  type: string,
+): AnthropicErrorResponse {
+  return { type: "error", error: { type, message } };
+}
+
+/** Model output that fails a strict `json_schema` response format, reported as a 502. */
+export class StructuredOutputError extends Error {
+  readonly status = 502;
+  readonly code = "json_validate_failed";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/** A model the quota monitor knows is at 0%, rejected before calling upstream. */
+export class QuotaExhaustedError extends Error {
+  readonly status = 429;
+
+  constructor(
+    readonly model: string,
+    readonly resetTime: string | null,
+    /** Seconds until the quota resets, for the Retry-After header. */
+    readonly retryAfter: number,
+  ) {
+    super(
+      `Quota for ${model} is exhausted` +
+        (resetTime ? `; it resets at ${resetTime}` : "; try again later"),
+    );
+    this.name = "QuotaExhaustedError";
+  }
+}
+
+/** A client went over one of its configured `limits`, reported as a 429. */
+export class ClientLimitError extends Error {
+  readonly status = 429;
+
+  constructor(
+    message: string,
+    /** Seconds until the client may try again, for the Retry-After header. */
+    readonly retryAfter: number,
+  ) {
+    super(message);
+    this.name = "ClientLimitError";
+  }
+}
+
+/** The caller disconnected before its response was done; recorded with status 499. */
+export class ClientCancelledError extends Error {
+  readonly status = 499;
+
+  constructor() {
+    super("Client closed the request");
+    this.name = "ClientCancelledError";
+  }
+}
+
+/**
+ * A signal that aborts with a ClientCancelledError when the client behind
+ * `request` disconnects, so upstream calls see one error for it.
+ */
+export function disconnectSignal(request: Request): AbortSignal {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(new ClientCancelledError());
+  if (request.signal.aborted) cancel();
+  else request.signal.addEventListener("abort", cancel, { once: true });
+  return controller.signal;
+}
+
+/** The scheduler's wait queue for a model is full, reported as a fast 503. */
+export class QueueFullError extends Error {
+  readonly status = 503;
+
+  constructor(
+    readonly model: string,
+    /** Seconds until a slot is likely to free up, for the Retry-After header. */
+    readonly retryAfter: number,
+  ) {
+    super(`Too many requests queued for ${model}; try again in ${retryAfter}s`);
+    this.name = "QueueFullError";
+  }
+}
+
+/** The API keys file can't be parsed; key checks fail closed until it is fixed. */
+export class KeyStoreError extends Error {
+  readonly status = 503;
+
+  constructor(readonly path: string, detail: string) {
+    super(`API keys file ${path} is invalid (${detail}); fix or remove it`);
+    this.name = "KeyStoreError";
+  }
+}
+
+/** The daemon started without credentials and nobody has signed in yet. */
+export class NotAuthenticatedError extends Error {
+  readonly status = 401;
+
+  constructor() {
+    super("gemini-daemon is not signed in. Run `gemini-daemon login` or open /auth/login.");
+    this.name = "NotAuthenticatedError";
+  }
+}
+
+/** The config file failed validation; `issues` lists each problem with its path. */
+export class ConfigError extends Error {
+  constructor(
+    readonly path: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid config ${path}: ${issues.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const GOOGLE_STATUS: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  401: "UNAUTHENTICATED",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  429: "RESOURCE_EXHAUSTED",
+  500: "INTERNAL",
+  503: "UNAVAILABLE",
+};
+
+/** Error body in the shape the Google GenAI SDKs expect. */
+export function formatGoogleError(code: number, message: string): GoogleErrorResponse {
+  return { error: { code, message, status: GOOGLE_STATUS[code] ?? "UNKNOWN" } };
+}
+
+/** Normalize an error thrown by a GeminiClient into an HTTP status and message. */
+export function toUpstreamError(err: unknown): {
+  status: number;
+  message: string;
+  retryAfter?: number;
+} {
+  const error = err as { status?: number; message?: string; code?: number; retryAfter?: number };
+  return {
+    status: error.status ?? error.code ?? 500,
+    message: error.message ?? "Internal server error",
+    ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+  };
+}
@@ -1,8 +1,15 @@
 import { Command } from "commander";
 import { serve } from "@hono/node-server";
-import { resolveAuth } from "./services/auth.js";
-import { getClient } from "./services/gemini-client.js";
+import { join } from "node:path";
+import { fetchAccountQuotas, resolveAuth } from "./services/auth.js";
+import { createAuthContainer, watchCredentials } from "./services/auth-container.js";
+import { loginWithLoopback } from "./services/oauth-login.js";
+import { createKeyStore } from "./services/api-keys.js";
 import { createServer } from "./server.js";
+import { closeStats, initStats } from "./stats.js";
+import { startQuotaMonitor } from "./services/quota-monitor.js";
+import { configPath, dataDir } from "./paths.js";
+import { loadConfig, reloadConfig, setConfig, watchConfig } from "./config.js";
 
 const program = new Command();
 
@@ -20,30 +27,64 @@ program
     const verbose = !!opts.verbose;
 
     try {
-      const auth = await resolveAuth();
-      if (verbose) {
-        console.log(`[auth] Using ${auth.method}`);
+      const config = configPath();
+      setConfig(loadConfig(config));
+      watchConfig(config);
+      process.on("SIGHUP", () => reloadConfig(config));
+
+      const auth = createAuthContainer(undefined, verbose);
+      try {
+        auth.set(await resolveAuth());
+        if (verbose) {
+          console.log(`[auth] Using ${auth.auth?.method}`);
+        }
+      } catch (err) {
+        // Stay up so the user can sign in through /auth/login
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[auth] ${message}`);
+        console.error("[auth] starting unauthenticated; run `gemini-daemon login` or open /auth/login");
       }
 
-      const client = getClient(auth, verbose);
+      initStats(join(dataDir(), "usage.jsonl"));
+      watchCredentials(auth);
+      startQuotaMonitor(() => fetchAccountQuotas(auth.auth?.accounts ?? []), verbose);
+
+      const loopback = host === "127.0.0.1" || host === "localhost" || host === "::1";
+      const keys = createKeyStore();
+      if (!loopback && !keys.enabled()) {
+        console.warn(
+          `[keys] listening on ${host} without API keys; anyone who can reach it can use your quota. ` +
+            "Create one with `gemini-daemon keys create <name>`.",
+        );
+      }
+
+      // Google only redirects to loopback addresses, so a daemon bound to every
+      // interface is signed in from 127.0.0.1
+      const wildcard = host === "0.0.0.0" || host === "::";
+      const callbackHost = wildcard ? "127.0.0.1" : host.includes(":") ? `[${host}]` : host;
+
       const app = createServer({
-        client,
+        client: auth.client,
         auth,
+        keys,
+        origin: `http://${callbackHost}:${port}`,
         defaultModel: opts.model,
         verbose,
+        allowLocalFiles: loopback,
       });
 
       const server = serve({ fetch: app.fetch, port, hostname: host }, (info) => {
         console.log(`[gemini-daemon] listening on http://${host}:${info.port}`);
         if (verbose) {
-          console.log(`[config] model=${opts.model} auth=${auth.method}`);
+          console.log(`[config] model=${opts.model} auth=${auth.auth?.method ?? "none"}`);
         }
       });
 
       // Graceful shutdown
       const shutdown = () => {
         console.log("\n[gemini-daemon] shutting down...");
-        server.close(() => {
+        server.close(async () => {
+          await closeStats();
           console.log("[gemini-daemon] stopped");
           process.exit(0);
         });
@@ -60,4 +101,73 @@ program
     }
   });
 
+program
+  .command("login")
+  .description("Sign in with Google and save credentials for the daemon")
+  .action(async () => {
+    try {
+      setConfig(loadConfig(configPath()));
+      const path = await loginWithLoopback();
+      console.log(`Signed in. Credentials saved to ${path}`);
+      // Browser keep-alive connections would otherwise hold the process open
+      process.exit(0);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[gemini-daemon] login failed: ${message}`);
+      process.exit(1);
+    }
+  });
+
+// Subcommands report errors without a stack trace
+function runCommand(action: (...args: string[]) => void) {
+  return (...args: string[]) => {
+    try {
+      action(...args);
+    } catch (err: unknown) {
+      console.error(`[gemini-daemon] ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  };
+}
+
+const keysCommand = program
+  .command("keys")
+  .description("Manage API keys that clients must present once any key exists");
+
+keysCommand
+  .command("create <name>")
+  .description("Create a key; it is shown only once")
+  .action(
+    runCommand((name) => {
+      const { key } = createKeyStore().create(name);
+      console.log(key);
+    }),
+  );
+
+keysCommand
+  .command("list")
+  .description("List keys (names and prefixes only)")
+  .action(
+    runCommand(() => {
+      const keys = createKeyStore().list();
+      if (keys.length === 0) {
+        console.log("No API keys; the daemon accepts requests without one.");
+        return;
+      }
+      for (const { name, prefix, created_at } of keys) {
+        console.log(`${name}\t${prefix}...\t${created_at}`);
+      }
+    }),
+  );
+
+keysCommand
+  .command("revoke <name>")
+  .description("Delete a key")
+  .action(
+    runCommand((name) => {
+      if (!createKeyStore().revoke(name)) throw new Error(`No key named '${name}'`);
+      console.log(`Revoked ${name}`);
+    }),
+  );
+
 program.parse();
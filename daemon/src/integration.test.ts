@@ -1,20 +1,22 @@
 /**
  * Integration test: exercises the full Hono app through the principal user flow.
- * The repo version assumes auth is resolved at startup (no auth routes, no AuthContainer).
+ * Auth is resolved up front; the sign-in routes have their own tests.
  */
 import { describe, it, expect, vi } from "vitest";
 import { createServer } from "./server.js";
-import type { AuthResult } from "./services/auth.js";
+import { createAuthContainer, type AuthContainer } from "./services/auth-container.js";
 import type { GeminiClient } from "./services/gemini-client.js";
 
-function makeAuth(): AuthResult {
-  return {
-    oauth2Client: {
-      getAccessToken: vi.fn().mockResolvedValue({ token: "int-test-token" }),
-    } as any,
+function makeAuth(): AuthContainer {
+  const oauth2Client = {
+    getAccessToken: vi.fn().mockResolvedValue({ token: "int-test-token" }),
+  } as any;
+  return createAuthContainer({
+    oauth2Client,
     projectId: "integration-project",
     method: "gemini-cli-oauth",
-  };
+    accounts: [{ id: "oauth_creds", oauth2Client, projectId: "integration-project", credsPath: "/creds/oauth_creds.json" }],
+  });
 }
 
 function makeMockClient(): GeminiClient {
@@ -39,14 +41,20 @@ function makeMockClient(): GeminiClient {
   } as GeminiClient;
 }
 
-// Mock fetchQuota used by quota route
+// Mock fetchAccountQuotas used by quota route
 vi.mock("./services/auth.js", () => ({
-  fetchQuota: vi.fn().mockResolvedValue([
+  fetchAccountQuotas: vi.fn().mockResolvedValue([
     {
-      modelId: "gemini-2.5-flash",
-      percentLeft: 75,
-      resetTime: null,
-      resetDescription: "—",
+      account: "oauth_creds",
+      quotas: [
+        {
+          modelId: "gemini-2.5-flash",
+          fraction: 0.75,
+          percentLeft: 75,
+          resetTime: null,
+          resetDescription: "—",
+        },
+      ],
     },
   ]),
 }));
@@ -67,6 +75,7 @@ describe("integration: full app flow", () => {
     const body = await res.json();
     expect(body.status).toBe("ok");
     expect(body.version).toBe("0.1.0");
+    expect(body.authenticated).toBe(true);
     expect(body.auth_method).toBe("gemini-cli-oauth");
     expect(typeof body.uptime).toBe("number");
   });
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+describe("metrics", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it("renders counters with labels and HELP/TYPE headers", async () => {
+    const { observeRequest, renderMetrics } = await import("./metrics.js");
+    observeRequest({
+      route: "chat.completions",
+      model: "gemini-2.5-flash",
+      status: 200,
+      durationSeconds: 0.3,
+      promptTokens: 10,
+      completionTokens: 5,
+    });
+    observeRequest({
+      route: "chat.completions",
+      model: "gemini-2.5-flash",
+      status: 200,
+      durationSeconds: 3,
+      promptTokens: 1,
+      completionTokens: 0,
+    });
+
+    const text = renderMetrics();
+    expect(text).toContain("# TYPE gemini_daemon_requests_total counter");
+    expect(text).toContain(
+      'gemini_daemon_requests_total{route="chat.completions",model="gemini-2.5-flash",status="200"} 2',
+    );
+    expect(text).toContain('gemini_daemon_tokens_total{model="gemini-2.5-flash",type="prompt"} 11');
+    expect(text).toContain('gemini_daemon_tokens_total{model="gemini-2.5-flash",type="completion"} 5');
+  });
+
+  it("accumulates histogram buckets cumulatively", async () => {
+    const { observeUpstreamTtfb, renderMetrics } = await import("./metrics.js");
+    observeUpstreamTtfb("gemini-2.5-pro", 0.2);
+    observeUpstreamTtfb("gemini-2.5-pro", 7);
+
+    const text = renderMetrics();
+    expect(text).toContain('gemini_daemon_upstream_ttfb_seconds_bucket{model="gemini-2.5-pro",le="0.25"} 1');
+    expect(text).toContain('gemini_daemon_upstream_ttfb_seconds_bucket{model="gemini-2.5-pro",le="10"} 2');
+    expect(text).toContain('gemini_daemon_upstream_ttfb_seconds_bucket{model="gemini-2.5-pro",le="+Inf"} 2');
+    expect(text).toContain('gemini_daemon_upstream_ttfb_seconds_count{model="gemini-2.5-pro"} 2');
+  });
+
+  it("tracks retries and quota gauges", async () => {
+    const { countRateLimitRetry, setQuotaRemaining, renderMetrics } = await import("./metrics.js");
+    countRateLimitRetry();
+    countRateLimitRetry();
+    setQuotaRemaining("work", "gemini-2.5-pro", 0.8);
+    setQuotaRemaining("work", "gemini-2.5-pro", 0.75);
+    setQuotaRemaining("personal", "gemini-2.5-pro", 0.5);
+
+    const text = renderMetrics();
+    expect(text).toContain("gemini_daemon_upstream_retries_total 2");
+    expect(text).toContain('gemini_daemon_quota_remaining_fraction{account="work",model="gemini-2.5-pro"} 0.75');
+    expect(text).toContain('gemini_daemon_quota_remaining_fraction{account="personal",model="gemini-2.5-pro"} 0.5');
+  });
+
+  it("labels models nothing knows about as other", async () => {
+    const { observeRequest, observeUpstreamTtfb, setQuotaRemaining, renderMetrics } = await import(
+      "./metrics.js"
+    );
+    const request = {
+      route: "chat.completions",
+      status: 404,
+      durationSeconds: 0.1,
+      promptTokens: 0,
+      completionTokens: 0,
+    };
+    observeRequest({ ...request, model: "made-up-1" });
+    observeRequest({ ...request, model: "made-up-2" });
+    setQuotaRemaining("default", "gemini-3-pro", 1);
+    observeUpstreamTtfb("gemini-3-pro", 1);
+
+    const text = renderMetrics();
+    expect(text).not.toContain("made-up");
+    expect(text).toContain(
+      'gemini_daemon_requests_total{route="chat.completions",model="other",status="404"} 2',
+    );
+    // The quota API only reports real models
+    expect(text).toContain('gemini_daemon_upstream_ttfb_seconds_count{model="gemini-3-pro"} 1');
+  });
+
+  it("sums queue depth across models labelled other", async () => {
+    const { setQueueDepth, renderMetrics } = await import("./metrics.js");
+    setQueueDepth("made-up-1", 2);
+    setQueueDepth("made-up-2", 3);
+    setQueueDepth("gemini-2.5-pro", 1);
+    expect(renderMetrics()).toContain('gemini_daemon_queue_depth{model="other"} 5');
+
+    setQueueDepth("made-up-1", 0);
+    const text = renderMetrics();
+    expect(text).toContain('gemini_daemon_queue_depth{model="other"} 3');
+    expect(text).toContain('gemini_daemon_queue_depth{model="gemini-2.5-pro"} 1');
+  });
+
+  it("escapes label values", async () => {
+    const { getConfig, setConfig } = await import("./config.js");
+    setConfig({ ...getConfig(), models: ['we"ird\\model'] });
+    const { observeUpstreamTtfb, renderMetrics } = await import("./metrics.js");
+    observeUpstreamTtfb('we"ird\\model', 1);
+    expect(renderMetrics()).toContain('model="we\\"ird\\\\model"');
+  });
+});
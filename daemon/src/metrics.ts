@@ -0,0 +1,208 @@
+// Minimal Prometheus registry rendered in the text exposition format (0.0.4).
+
+import { isKnownModel } from "./config.js";
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function scalarMetric(name: string, help: string, type: "counter" | "gauge") {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    render() {
+      const lines = header(name, help, type);
+      for (const { labels, value } of series.values()) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+      return lines;
+    },
+  });
+
+  return {
+    add(labels: Labels, delta: number) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += delta;
+      series.set(key, entry);
+    },
+    set(labels: Labels, value: number) {
+      series.set(seriesKey(labels), { labels, value });
+    },
+  };
+}
+
+function histogram(name: string, help: string, buckets = DURATION_BUCKETS) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    render() {
+      const lines = header(name, help, "histogram");
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((le, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines;
+    },
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = seriesKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((le, i) => {
+        if (value <= le) entry!.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+// --- Daemon Metrics ---
+
+const requestsTotal = scalarMetric(
+  "gemini_daemon_requests_total",
+  "Requests handled, by route, model and HTTP status.",
+  "counter",
+);
+const tokensTotal = scalarMetric(
+  "gemini_daemon_tokens_total",
+  "Tokens consumed, by model and type (prompt or completion).",
+  "counter",
+);
+const requestDuration = histogram(
+  "gemini_daemon_request_duration_seconds",
+  "Total request duration, including streaming, by route and model.",
+);
+const upstreamTtfb = histogram(
+  "gemini_daemon_upstream_ttfb_seconds",
+  "Time until the upstream API returned response headers (including retries), by model.",
+);
+const rateLimitRetries = scalarMetric(
+  "gemini_daemon_upstream_retries_total",
+  "Upstream requests retried after a 429 response.",
+  "counter",
+);
+const fallbacksTotal = scalarMetric(
+  "gemini_daemon_fallbacks_total",
+  "Requests moved to a fallback model, by original and fallback model.",
+  "counter",
+);
+const quotaRemaining = scalarMetric(
+  "gemini_daemon_quota_remaining_fraction",
+  "Remaining quota fraction (0-1) per account and model, as of the last quota fetch.",
+  "gauge",
+);
+const queueDepth = scalarMetric(
+  "gemini_daemon_queue_depth",
+  "Requests waiting for an upstream slot, by model.",
+  "gauge",
+);
+const queueWait = histogram(
+  "gemini_daemon_queue_wait_seconds",
+  "Time requests waited for an upstream slot, by model and priority.",
+);
+
+// Models the quota API has reported, which are real upstream models
+const quotaModels = new Set<string>();
+
+/**
+ * The `model` label for `model`: itself when the config or the quota API
+ * knows it, else `other`, so clients can't mint a series per made-up name.
+ */
+function modelLabel(model: string): string {
+  return isKnownModel(model) || quotaModels.has(model) ? model : "other";
+}
+
+// Queue depth per model labelled `other`, summed into that one series
+const otherDepths = new Map<string, number>();
+
+export interface CompletedRequest {
+  route: string;
+  model: string;
+  status: number;
+  durationSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export function observeRequest(req: CompletedRequest): void {
+  const model = modelLabel(req.model);
+  requestsTotal.add({ route: req.route, model, status: String(req.status) }, 1);
+  requestDuration.observe({ route: req.route, model }, req.durationSeconds);
+  if (req.promptTokens > 0) tokensTotal.add({ model, type: "prompt" }, req.promptTokens);
+  if (req.completionTokens > 0) {
+    tokensTotal.add({ model, type: "completion" }, req.completionTokens);
+  }
+}
+
+export function observeUpstreamTtfb(model: string, seconds: number): void {
+  upstreamTtfb.observe({ model: modelLabel(model) }, seconds);
+}
+
+export function countRateLimitRetry(): void {
+  rateLimitRetries.add({}, 1);
+}
+
+export function countFallback(from: string, to: string): void {
+  fallbacksTotal.add({ from: modelLabel(from), to: modelLabel(to) }, 1);
+}
+
+export function setQuotaRemaining(account: string, model: string, fraction: number): void {
+  quotaModels.add(model);
+  quotaRemaining.set({ account, model }, fraction);
+}
+
+export function setQueueDepth(model: string, depth: number): void {
+  const label = modelLabel(model);
+  if (label !== "other") {
+    queueDepth.set({ model: label }, depth);
+    return;
+  }
+  if (depth > 0) otherDepths.set(model, depth);
+  else otherDepths.delete(model);
+  let total = 0;
+  for (const n of otherDepths.values()) total += n;
+  queueDepth.set({ model: "other" }, total);
+}
+
+export function observeQueueWait(model: string, priority: string, seconds: number): void {
+  queueWait.observe({ model: modelLabel(model), priority }, seconds);
+}
+
+export function renderMetrics(): string {
+  return registry.flatMap((m) => m.render()).join("\n") + "\n";
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { Hono } from "hono";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { apiKeyAuth } from "./api-key-auth.js";
+import { createKeyStore } from "../services/api-keys.js";
+
+const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-keyauth-"));
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function makeApp(path: string) {
+  const app = new Hono();
+  app.use("*", apiKeyAuth(createKeyStore(path)));
+  const whoami = (c: any) => c.json({ key: c.get("apiKeyName") ?? null });
+  app.get("/health", whoami);
+  app.get("/auth/start", whoami);
+  app.post("/v1/chat/completions", whoami);
+  app.post("/v1/messages", whoami);
+  app.post("/v1beta/models/gemini-2.5-flash:generateContent", whoami);
+  return app;
+}
+
+describe("apiKeyAuth", () => {
+  const path = join(dir, "keys.json");
+  const { key } = createKeyStore(path).create("cursor");
+  const app = makeApp(path);
+
+  it("lets everything through while no keys exist", async () => {
+    const res = await makeApp(join(dir, "none.json")).request("/v1/chat/completions", { method: "POST" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ key: null });
+  });
+
+  it.each([
+    ["authorization", `Bearer ${key}`],
+    ["x-api-key", key],
+    ["x-goog-api-key", key],
+  ])("accepts the key in %s and names the client", async (header, value) => {
+    const res = await app.request("/v1/chat/completions", { method: "POST", headers: { [header]: value } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ key: "cursor" });
+  });
+
+  it("rejects a missing key in OpenAI format", async () => {
+    const res = await app.request("/v1/chat/completions", { method: "POST" });
+    expect(res.status).toBe(401);
+    const body = await res.json();
+    expect(body.error.type).toBe("authentication_error");
+    expect(body.error.message).toContain("Missing API key");
+  });
+
+  it("rejects a wrong key in the Anthropic and Google formats", async () => {
+    const anthropic = await app.request("/v1/messages", { method: "POST", headers: { "x-api-key": "nope" } });
+    expect(anthropic.status).toBe(401);
+    expect(await anthropic.json()).toEqual({
+      type: "error",
+      error: { type: "authentication_error", message: "Invalid API key" },
+    });
+
+    const google = await app.request("/v1beta/models/gemini-2.5-flash:generateContent", {
+      method: "POST",
+      headers: { "x-goog-api-key": "nope" },
+    });
+    expect(google.status).toBe(401);
+    expect((await google.json()).error.status).toBe("UNAUTHENTICATED");
+  });
+
+  it("refuses requests with a clear error while the keys file is corrupt", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const corrupt = join(dir, "corrupt.json");
+    writeFileSync(corrupt, "{ not json");
+
+    const res = await makeApp(corrupt).request("/v1/chat/completions", {
+      method: "POST",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(res.status).toBe(503);
+    expect((await res.json()).error.message).toContain("keys file is invalid");
+    vi.restoreAllMocks();
+  });
+
+  it("keeps health checks open, and sign-in only from loopback", async () => {
+    const peer = (address: string) => ({ incoming: { socket: { remoteAddress: address } } });
+
+    expect((await app.request("/health")).status).toBe(200);
+    expect((await app.request("/auth/start", {}, peer("127.0.0.1"))).status).toBe(200);
+    expect((await app.request("/auth/start", {}, peer("::1"))).status).toBe(200);
+    expect((await app.request("/auth/start", {}, peer("192.168.1.20"))).status).toBe(401);
+    expect((await app.request("/auth/start")).status).toBe(401);
+    const withKey = await app.request("/auth/start", { headers: { "x-api-key": key } }, peer("192.168.1.20"));
+    expect(withKey.status).toBe(200);
+  });
+});
@@ -0,0 +1,65 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
+import type { KeyStore } from "../services/api-keys.js";
+import { errorResponse } from "./error-response.js";
+import { KeyStoreError } from "../errors.js";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    /** Name of the API key the request presented, when keys are enabled. */
+    apiKeyName: string | undefined;
+  }
+}
+
+/** True when the request comes from this machine. Unknown peers are not. */
+function fromLoopback(c: Context): boolean {
+  try {
+    const address = getConnInfo(c).remote.address ?? "";
+    return address.startsWith("127.") || address === "::1" || address.startsWith("::ffff:127.");
+  } catch {
+    return false;
+  }
+}
+
+// Reachable without a key: liveness checks, and the browser sign-in flow for
+// someone at the daemon's own machine. Others must not be able to sign it in
+// to their account.
+function isOpen(c: Context): boolean {
+  return c.req.path === "/health" || (c.req.path.startsWith("/auth/") && fromLoopback(c));
+}
+
+/** The key from whichever header the client's SDK uses. */
+function presentedKey(headers: Headers): string | undefined {
+  const bearer = headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (bearer ?? headers.get("x-api-key") ?? headers.get("x-goog-api-key"))?.trim() || undefined;
+}
+
+function unauthorized(c: Context, message: string): Response {
+  return errorResponse(c, 401, "authentication_error", message, "invalid_api_key");
+}
+
+/**
+ * Require a daemon API key (`Authorization: Bearer`, `x-api-key` or
+ * `x-goog-api-key`) once any key exists, and set `apiKeyName` for the route.
+ */
+export function apiKeyAuth(store: KeyStore): MiddlewareHandler {
+  return async (c, next) => {
+    if (isOpen(c) || !store.enabled()) return next();
+
+    const token = presentedKey(c.req.raw.headers);
+    if (!token) {
+      return unauthorized(c, "Missing API key. Create one with `gemini-daemon keys create <name>`.");
+    }
+    let name: string | undefined;
+    try {
+      name = store.verify(token);
+    } catch (err) {
+      if (!(err instanceof KeyStoreError)) throw err;
+      return errorResponse(c, 503, "server_error", "The daemon's API keys file is invalid; see its log");
+    }
+    if (!name) return unauthorized(c, "Invalid API key");
+
+    c.set("apiKeyName", name);
+    return next();
+  };
+}
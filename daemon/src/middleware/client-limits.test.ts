@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Hono } from "hono";
+import { clientLimits } from "./client-limits.js";
+import { createClientLimiter } from "../services/client-limits.js";
+import { DEFAULT_CONFIG, setConfig } from "../config.js";
+
+function makeApp() {
+  const limiter = createClientLimiter(Date.now, () => new Map());
+  const app = new Hono();
+  app.use("*", clientLimits(limiter));
+  app.post("/v1/chat/completions", (c) => c.json({ client: c.get("client") }));
+  app.post("/v1/messages", (c) => c.json({ client: c.get("client") }));
+  app.post("/stream", () => {
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("data: 1\n\n"));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { "content-type": "text/event-stream" } });
+  });
+  return { app, limiter };
+}
+
+function post(app: Hono, path: string, body: unknown, headers: Record<string, string> = {}) {
+  return app.request(path, {
+    method: "POST",
+    body: typeof body === "string" ? body : JSON.stringify(body),
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+describe("clientLimits", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("identifies the client by the user field, then the headers", async () => {
+    const { app } = makeApp();
+
+    const byUser = await post(app, "/v1/chat/completions", { user: "nightly-ci" }, { "user-agent": "curl/8" });
+    expect(await byUser.json()).toEqual({ client: "nightly-ci" });
+
+    const anthropic = await post(app, "/v1/messages", { metadata: { user_id: "alice" } });
+    expect(await anthropic.json()).toEqual({ client: "alice" });
+
+    const byHeader = await post(app, "/v1/chat/completions", {}, { "x-gemini-daemon-client": "aider" });
+    expect(await byHeader.json()).toEqual({ client: "aider" });
+  });
+
+  it("leaves malformed bodies for the route to reject", async () => {
+    const { app } = makeApp();
+    app.post("/echo", async (c) => {
+      try {
+        await c.req.json();
+        return c.json({ ok: true });
+      } catch {
+        return c.json({ ok: false }, 400);
+      }
+    });
+
+    expect((await post(app, "/echo", "{not json")).status).toBe(400);
+    expect((await post(app, "/echo", { user: "x" })).status).toBe(200);
+  });
+
+  it("rejects over-limit requests with rate_limit_error and rate limit headers", async () => {
+    setConfig({ ...DEFAULT_CONFIG, limits: { default: {}, clients: { ci: { requestsPerMinute: 1 } } } });
+    const { app } = makeApp();
+
+    const first = await post(app, "/v1/chat/completions", { user: "ci" });
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-ratelimit-remaining-requests")).toBe("0");
+
+    const second = await post(app, "/v1/chat/completions", { user: "ci" });
+    expect(second.status).toBe(429);
+    expect(second.headers.get("retry-after")).toMatch(/^\d+$/);
+    expect(second.headers.get("x-ratelimit-limit-requests")).toBe("1");
+    const body = await second.json();
+    expect(body.error.type).toBe("rate_limit_error");
+    expect(body.error.code).toBe("rate_limit_exceeded");
+
+    const anthropic = await post(app, "/v1/messages", { metadata: { user_id: "ci" } });
+    expect((await anthropic.json()).error.type).toBe("rate_limit_error");
+  });
+
+  it("counts a stream as in flight until its body is read", async () => {
+    setConfig({ ...DEFAULT_CONFIG, limits: { default: { concurrent: 1 }, clients: {} } });
+    const { app, limiter } = makeApp();
+
+    const res = await post(app, "/stream", {}, { "x-gemini-daemon-client": "ci" });
+    expect(limiter.usage()[0].in_flight).toBe(1);
+    expect((await post(app, "/stream", {}, { "x-gemini-daemon-client": "ci" })).status).toBe(429);
+
+    await res.text();
+    expect(limiter.usage()[0].in_flight).toBe(0);
+  });
+});
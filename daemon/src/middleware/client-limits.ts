@@ -0,0 +1,87 @@
+import type { Context, MiddlewareHandler } from "hono";
+import type { ClientLimiter } from "../services/client-limits.js";
+import { ClientLimitError } from "../errors.js";
+import { clientFromHeaders } from "../stats.js";
+import { errorResponse } from "./error-response.js";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    /** Who the request is attributed to in stats, logs and limits. */
+    client: string | undefined;
+  }
+}
+
+/** The OpenAI `user` field or Anthropic `metadata.user_id`, if the body has one. */
+async function requestUser(c: Context): Promise<string | undefined> {
+  try {
+    // Read as text so the route's own c.req.json() still reports bad JSON
+    const body = JSON.parse(await c.req.text());
+    const user = body?.user ?? body?.metadata?.user_id;
+    return typeof user === "string" && user ? user : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Call `done` once the body has been sent, failed or been abandoned. */
+function onBodyDone(res: Response, done: () => void): Response {
+  if (!res.body) {
+    done();
+    return res;
+  }
+  const reader = res.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done: end } = await reader.read();
+        if (end) {
+          done();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (err) {
+        done();
+        controller.error(err);
+      }
+    },
+    cancel(reason) {
+      done();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, res);
+}
+
+/**
+ * Identify the client of a model request and apply its `limits`. A request
+ * counts as in flight until its response body (including a stream) ends.
+ */
+export function clientLimits(limiter: ClientLimiter): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.req.method !== "POST") return next();
+
+    const client = clientFromHeaders(c.req.raw.headers, c.get("apiKeyName") ?? (await requestUser(c)));
+    c.set("client", client);
+
+    let release: () => void;
+    try {
+      release = limiter.acquire(client);
+    } catch (err) {
+      if (!(err instanceof ClientLimitError)) throw err;
+      const res = errorResponse(c, 429, "rate_limit_error", err.message, "rate_limit_exceeded");
+      for (const [name, value] of Object.entries(limiter.headers(client))) res.headers.set(name, value);
+      res.headers.set("Retry-After", String(err.retryAfter));
+      return res;
+    }
+
+    try {
+      await next();
+    } catch (err) {
+      release();
+      throw err;
+    }
+    c.res = onBodyDone(c.res, release);
+    for (const [name, value] of Object.entries(limiter.headers(client))) c.res.headers.set(name, value);
+  };
+}
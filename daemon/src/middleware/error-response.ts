@@ -0,0 +1,22 @@
+import type { Context } from "hono";
+import { formatAnthropicError, formatErrorResponse, formatGoogleError } from "../errors.js";
+
+/**
+ * An error in the shape the SDKs for the requested API surface expect:
+ * Anthropic for `/v1/messages`, Google for `/v1beta/`, OpenAI otherwise.
+ */
+export function errorResponse(
+  c: Context,
+  status: 401 | 429 | 503,
+  type: string,
+  message: string,
+  code?: string,
+): Response {
+  if (c.req.path.startsWith("/v1/messages")) {
+    return c.json(formatAnthropicError(message, type), status);
+  }
+  if (c.req.path.startsWith("/v1beta/")) {
+    return c.json(formatGoogleError(status, message), status);
+  }
+  return c.json(formatErrorResponse(message, type, undefined, code), status);
+}
@@ -0,0 +1,37 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+const APP_NAME = "gemini-daemon";
+
+/**
+ * Directory for files the daemon writes (usage ledger, keys, ...).
+ * `GEMINI_DAEMON_DATA_DIR` wins, then `XDG_DATA_HOME`, then the platform default.
+ */
+export function dataDir(): string {
+  if (process.env.GEMINI_DAEMON_DATA_DIR) return process.env.GEMINI_DAEMON_DATA_DIR;
+  if (process.env.XDG_DATA_HOME) return join(process.env.XDG_DATA_HOME, APP_NAME);
+  if (process.platform === "darwin") {
+    return join(homedir(), "Library", "Application Support", APP_NAME);
+  }
+  return join(homedir(), ".local", "share", APP_NAME);
+}
+
+/**
+ * Location of the config file: `GEMINI_DAEMON_CONFIG`, else
+ * `$XDG_CONFIG_HOME/gemini-daemon/config.json` (default `~/.config`).
+ */
+export function configPath(): string {
+  if (process.env.GEMINI_DAEMON_CONFIG) return process.env.GEMINI_DAEMON_CONFIG;
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(base, APP_NAME, "config.json");
+}
+
+/** OAuth credentials written by `gemini-daemon login` and `/auth/login`. */
+export function credentialsPath(): string {
+  return join(dataDir(), "oauth_creds.json");
+}
+
+/** Hashed client API keys managed by `gemini-daemon keys`. */
+export function keysPath(): string {
+  return join(dataDir(), "keys.json");
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { adminRoute } from "./admin.js";
+import { createClientLimiter } from "../services/client-limits.js";
+
+describe("adminRoute", () => {
+  it("GET /admin/limits lists each client's consumption", async () => {
+    const limiter = createClientLimiter(Date.now, () => new Map([["ci", 120]]));
+    limiter.acquire("ci");
+
+    const res = await adminRoute(limiter).request("/admin/limits");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      clients: [
+        {
+          client: "ci",
+          limits: { requests_per_minute: null, concurrent: null, daily_tokens: null },
+          requests_last_minute: 1,
+          in_flight: 1,
+          tokens_today: 120,
+        },
+      ],
+    });
+  });
+});
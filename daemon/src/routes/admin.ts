@@ -0,0 +1,13 @@
+import { Hono } from "hono";
+import type { ClientLimiter } from "../services/client-limits.js";
+
+export function adminRoute(limiter: ClientLimiter): Hono {
+  const app = new Hono();
+
+  // Current consumption against each client's limits
+  app.get("/admin/limits", (c) => {
+    return c.json({ clients: limiter.usage() });
+  });
+
+  return app;
+}
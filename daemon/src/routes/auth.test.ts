@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockBeginLogin, mockFinish, mockResolveAuth } = vi.hoisted(() => ({
+  mockBeginLogin: vi.fn(),
+  mockFinish: vi.fn(),
+  mockResolveAuth: vi.fn(),
+}));
+
+vi.mock("../services/oauth-login.js", async (importOriginal) => ({
+  ...((await importOriginal()) as object),
+  beginLogin: mockBeginLogin,
+}));
+
+vi.mock("../services/auth.js", () => ({
+  resolveAuth: mockResolveAuth,
+}));
+
+import { authRoute } from "./auth.js";
+import { createAuthContainer } from "../services/auth-container.js";
+
+const ORIGIN = "http://127.0.0.1:7965";
+
+describe("authRoute", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockBeginLogin.mockImplementation(async (redirectUri: string) => ({
+      authUrl: `https://accounts.example/auth?redirect_uri=${encodeURIComponent(redirectUri)}`,
+      state: "state-1",
+      finish: mockFinish,
+    }));
+    mockFinish.mockResolvedValue(undefined);
+    mockResolveAuth.mockResolvedValue({ method: "api-key", apiKey: "k", accounts: [] });
+  });
+
+  it("GET /auth/start returns the consent URL for the daemon's own callback, whatever the Host", async () => {
+    const res = await authRoute(createAuthContainer(), ORIGIN).request("http://evil.example/auth/start");
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.auth_url).toContain("accounts.example");
+    expect(mockBeginLogin).toHaveBeenCalledWith("http://127.0.0.1:7965/auth/callback");
+  });
+
+  it("GET /auth/login redirects to Google", async () => {
+    const res = await authRoute(createAuthContainer(), ORIGIN).request("http://127.0.0.1:7965/auth/login");
+
+    expect(res.status).toBe(302);
+    expect(res.headers.get("location")).toContain("accounts.example");
+  });
+
+  it("GET /auth/start reports a login that cannot start", async () => {
+    mockBeginLogin.mockRejectedValue(new Error("Gemini CLI OAuth credentials not found"));
+    const res = await authRoute(createAuthContainer(), ORIGIN).request("/auth/start");
+
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toContain("credentials not found");
+  });
+
+  it("callback finishes the login and signs the daemon in", async () => {
+    const container = createAuthContainer();
+    const app = authRoute(container, ORIGIN);
+    await app.request("/auth/start");
+
+    const res = await app.request("/auth/callback?state=state-1&code=abc");
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("Signed in");
+    expect(mockFinish).toHaveBeenCalledWith("abc");
+    expect(container.auth?.method).toBe("api-key");
+  });
+
+  it("callback rejects an unknown state", async () => {
+    const container = createAuthContainer();
+    const app = authRoute(container, ORIGIN);
+    await app.request("/auth/start");
+
+    const res = await app.request("/auth/callback?state=forged&code=abc");
+
+    expect(res.status).toBe(400);
+    expect(mockFinish).not.toHaveBeenCalled();
+    expect(container.auth).toBeUndefined();
+  });
+
+  it("callback accepts each state only once", async () => {
+    const app = authRoute(createAuthContainer(), ORIGIN);
+    await app.request("/auth/start");
+
+    await app.request("/auth/callback?state=state-1&code=abc");
+    const replay = await app.request("/auth/callback?state=state-1&code=abc");
+
+    expect(replay.status).toBe(400);
+    expect(mockFinish).toHaveBeenCalledTimes(1);
+  });
+
+  it("callback reports a denied consent", async () => {
+    const app = authRoute(createAuthContainer(), ORIGIN);
+    await app.request("/auth/start");
+
+    const res = await app.request("/auth/callback?state=state-1&error=access_denied");
+
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain("access_denied");
+  });
+
+  it("callback reports a failed token exchange", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFinish.mockRejectedValue(new Error("invalid_grant"));
+    const container = createAuthContainer();
+    const app = authRoute(container, ORIGIN);
+    await app.request("/auth/start");
+
+    const res = await app.request("/auth/callback?state=state-1&code=abc");
+
+    expect(res.status).toBe(500);
+    expect(await res.text()).toContain("invalid_grant");
+    expect(container.auth).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { Hono } from "hono";
+import type { AuthContainer } from "../services/auth-container.js";
+import { resolveAuth } from "../services/auth.js";
+import { beginLogin, loginPage, type PendingLogin } from "../services/oauth-login.js";
+
+// How long a started login waits for Google's redirect
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * `origin` is the daemon's own loopback address, e.g. `http://127.0.0.1:7965`.
+ * Google redirects there, never to the Host header a client sent.
+ */
+export function authRoute(container: AuthContainer, origin: string, verbose?: boolean): Hono {
+  const app = new Hono();
+  const pending = new Map<string, { login: PendingLogin; expiresAt: number }>();
+
+  async function start(): Promise<PendingLogin> {
+    const now = Date.now();
+    for (const [state, entry] of pending) {
+      if (entry.expiresAt <= now) pending.delete(state);
+    }
+    const login = await beginLogin(new URL("/auth/callback", origin).toString());
+    pending.set(login.state, { login, expiresAt: now + PENDING_TTL_MS });
+    return login;
+  }
+
+  // Browser entry point: straight to Google's consent screen
+  app.get("/auth/login", async (c) => {
+    try {
+      return c.redirect((await start()).authUrl);
+    } catch (err) {
+      return c.html(loginPage("Sign-in failed", errorMessage(err)), 500);
+    }
+  });
+
+  // For apps that open the browser themselves (the menubar)
+  app.get("/auth/start", async (c) => {
+    try {
+      return c.json({ auth_url: (await start()).authUrl });
+    } catch (err) {
+      return c.json({ error: errorMessage(err) }, 500);
+    }
+  });
+
+  app.get("/auth/callback", async (c) => {
+    const state = c.req.query("state") ?? "";
+    const entry = pending.get(state);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return c.html(loginPage("Sign-in failed", "This sign-in link has expired. Start the login again."), 400);
+    }
+    pending.delete(state);
+
+    const code = c.req.query("code");
+    if (!code) {
+      const error = c.req.query("error") ?? "No authorization code was returned.";
+      return c.html(loginPage("Sign-in failed", error), 400);
+    }
+
+    try {
+      await entry.login.finish(code);
+      container.set(await resolveAuth());
+    } catch (err) {
+      const message = errorMessage(err);
+      console.error(`[auth] login failed: ${message}`);
+      return c.html(loginPage("Sign-in failed", message), 500);
+    }
+
+    if (verbose) console.log(`[auth] signed in, using ${container.auth?.method}`);
+    return c.html(loginPage("Signed in", "gemini-daemon is signed in. You can close this tab."));
+  });
+
+  return app;
+}
@@ -1,10 +1,21 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { chatCompletionsRoute } from "./chat-completions.js";
 import type { GeminiClient } from "../services/gemini-client.js";
+import { startRequest } from "../stats.js";
+import { DEFAULT_CONFIG, setConfig } from "../config.js";
+import { QuotaExhaustedError } from "../errors.js";
 
 // Mock stats to avoid module state issues
+const recorder = vi.hoisted(() => ({
+  observe: vi.fn(),
+  servedBy: vi.fn(),
+  tap: (stream: AsyncGenerator<unknown>) => stream,
+  finish: vi.fn(),
+}));
+
 vi.mock("../stats.js", () => ({
-  recordRequest: vi.fn(),
+  clientFromHeaders: vi.fn(() => "test-client"),
+  startRequest: vi.fn(() => recorder),
 }));
 
 function makeMockClient(overrides?: Partial<GeminiClient>): GeminiClient {
@@ -63,6 +74,25 @@ describe("chatCompletionsRoute", () => {
     expect(body.error.message).toContain("messages");
   });
 
+  it("returns 400 with param for invalid media parts", async () => {
+    const client = makeMockClient();
+    const app = chatCompletionsRoute(client);
+    const res = await postJSON(app, {
+      messages: [
+        {
+          role: "user",
+          content: [{ type: "image_url", image_url: { url: "data:image/bmp;base64,Qk0=" } }],
+        },
+      ],
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.type).toBe("invalid_request_error");
+    expect(body.error.param).toBe("messages[0].content[0]");
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
   it("calls client and returns OpenAI response", async () => {
     const client = makeMockClient();
     const app = chatCompletionsRoute(client);
@@ -77,6 +107,54 @@ describe("chatCompletionsRoute", () => {
     expect(body.choices[0].message.content).toBe("Hello!");
     expect(body.choices[0].finish_reason).toBe("stop");
     expect(client.generateContent).toHaveBeenCalledTimes(1);
+    expect(startRequest).toHaveBeenCalledWith({
+      endpoint: "chat.completions",
+      model: "gemini-2.5-flash",
+      client: "test-client",
+      stream: false,
+    });
+    expect(recorder.observe).toHaveBeenCalledTimes(1);
+    expect(recorder.finish).toHaveBeenCalledWith(200);
+  });
+
+  it("returns 502 when strict structured output does not match the schema", async () => {
+    const client = makeMockClient({
+      generateContent: vi.fn().mockResolvedValue({
+        candidates: [
+          { content: { parts: [{ text: '{"name":42}' }], role: "model" }, finishReason: "STOP" },
+        ],
+      }),
+    });
+    const app = chatCompletionsRoute(client);
+    const res = await postJSON(app, {
+      messages: [{ role: "user", content: "Who?" }],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "person",
+          strict: true,
+          schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+        },
+      },
+    });
+
+    expect(res.status).toBe(502);
+    const body = await res.json();
+    expect(body.error.code).toBe("json_validate_failed");
+    expect(body.error.param).toBe("response_format");
+  });
+
+  it("returns 400 for a json_schema response_format without json_schema", async () => {
+    const client = makeMockClient();
+    const res = await postJSON(chatCompletionsRoute(client), {
+      messages: [{ role: "user", content: "Who?" }],
+      response_format: { type: "json_schema" },
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.param).toBe("response_format.json_schema");
+    expect(client.generateContent).not.toHaveBeenCalled();
   });
 
   it("maps 429 upstream error to rate_limit_error", async () => {
@@ -94,6 +172,7 @@ describe("chatCompletionsRoute", () => {
     expect(res.status).toBe(429);
     const body = await res.json();
     expect(body.error.type).toBe("rate_limit_error");
+    expect(recorder.finish).toHaveBeenCalledWith(429);
   });
 
   it("maps 401 upstream error to authentication_error", async () => {
@@ -129,4 +208,47 @@ describe("chatCompletionsRoute", () => {
     const body = await res.json();
     expect(body.error.type).toBe("server_error");
   });
+
+  it("reports the fallback model that served the request", async () => {
+    setConfig({ ...DEFAULT_CONFIG, fallbacks: { pro: ["flash"] } });
+    const quota: any = new Error("Rate limit exceeded");
+    quota.status = 429;
+    const client = makeMockClient({
+      generateContent: vi
+        .fn()
+        .mockRejectedValueOnce(quota)
+        .mockResolvedValueOnce({
+          candidates: [{ content: { role: "model", parts: [{ text: "Hi" }] }, finishReason: "STOP" }],
+        }),
+    });
+
+    try {
+      const app = chatCompletionsRoute(client);
+      const res = await postJSON(app, { model: "pro", messages: [{ role: "user", content: "Hi" }] });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-gemini-daemon-served-model")).toBe("gemini-2.5-flash");
+      expect((await res.json()).model).toBe("gemini-2.5-flash");
+      expect(recorder.servedBy).toHaveBeenCalledWith("gemini-2.5-flash");
+    } finally {
+      setConfig(DEFAULT_CONFIG);
+    }
+  });
+
+  it("sets Retry-After when a quota is known to be exhausted", async () => {
+    const client = makeMockClient({
+      generateContent: vi
+        .fn()
+        .mockRejectedValue(new QuotaExhaustedError("gemini-2.5-pro", "2026-05-10T12:30:00Z", 1800)),
+    });
+
+    const app = chatCompletionsRoute(client);
+    const res = await postJSON(app, { model: "pro", messages: [{ role: "user", content: "Hi" }] });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("1800");
+    const body = await res.json();
+    expect(body.error.type).toBe("rate_limit_error");
+    expect(body.error.message).toContain("2026-05-10T12:30:00Z");
+  });
 });
@@ -3,18 +3,31 @@ import { stream as honoStream } from "hono/streaming";
 import type { GeminiClient } from "../services/gemini-client.js";
 import {
   buildRequestBody,
+  strictResponseSchema,
   type OpenAIChatRequest,
 } from "../adapters/openai-to-gemini.js";
+import { assertStructuredOutput } from "../adapters/json-schema.js";
+import { applyPreset } from "../adapters/presets.js";
 import { convertResponse } from "../adapters/gemini-to-openai.js";
 import { createSSEStream } from "../streaming/sse-transformer.js";
 import { resolveModel } from "../services/gemini-client.js";
-import { formatErrorResponse } from "../errors.js";
-import { recordRequest } from "../stats.js";
+import { generateWithFallback, openStream } from "../services/fallback.js";
+import { priorityFromHeaders } from "../services/scheduler.js";
+import {
+  ClientCancelledError,
+  disconnectSignal,
+  formatErrorResponse,
+  InvalidRequestError,
+  StructuredOutputError,
+  toUpstreamError,
+} from "../errors.js";
+import { clientFromHeaders, startRequest } from "../stats.js";
 
 export function chatCompletionsRoute(
   client: GeminiClient,
   defaultModel?: string,
   verbose?: boolean,
+  allowLocalFiles?: boolean,
 ): Hono {
   const app = new Hono();
 
@@ -37,19 +50,47 @@ export function chatCompletionsRoute(
     }
 
     const model = resolveModel(body.model, defaultModel);
-    recordRequest(model);
-    const requestBody = buildRequestBody(body);
+    const clientName = c.get("client") ?? clientFromHeaders(c.req.raw.headers);
+    const priority = priorityFromHeaders(c.req.raw.headers);
+    const signal = disconnectSignal(c.req.raw);
+    const request = startRequest({
+      endpoint: "chat.completions",
+      model,
+      client: clientName,
+      stream: !!body.stream,
+    });
 
     if (verbose) {
-      console.log(`[request] model=${model} messages=${body.messages.length} stream=${!!body.stream}`);
+      console.log(`[request] model=${model} client=${clientName} messages=${body.messages.length} stream=${!!body.stream}`);
     }
 
     try {
+      const requestBody = applyPreset(
+        buildRequestBody(body, { allowLocalFiles }),
+        body.model || defaultModel,
+      );
+      const schema = strictResponseSchema(body.response_format);
+      const validateOutput = schema
+        ? (text: string) => assertStructuredOutput(text, schema)
+        : undefined;
+
       if (body.stream) {
-        const streamResult = client.generateContentStream(model, requestBody);
+        const { model: served, stream: upstream } = await openStream(
+          client,
+          model,
+          requestBody,
+          { client: clientName, priority, signal },
+          verbose,
+        );
+        request.servedBy(served);
+        const streamResult = request.tap(upstream);
 
-        const sseStream = createSSEStream(streamResult, model);
+        const sseStream = createSSEStream(streamResult, served, {
+          validateOutput,
+          includeUsage: !!body.stream_options?.include_usage,
+        });
 
+        c.header("x-gemini-daemon-served-model", served);
         c.header("Content-Type", "text/event-stream");
         c.header("Cache-Control", "no-cache");
         c.header("Connection", "keep-alive");
@@ -62,6 +103,9 @@ export function chatCompletionsRoute(
               if (done) break;
               await stream.write(value);
             }
+          } catch (err) {
+            // The client is gone and the upstream call was cancelled with it
+            if (!(err instanceof ClientCancelledError)) throw err;
           } finally {
             reader.releaseLock();
           }
@@ -69,20 +113,46 @@ export function chatCompletionsRoute(
       }
 
       // Non-streaming
-      const result = await client.generateContent(model, requestBody);
-      const response = convertResponse(result, model);
+      const { model: served, response: result } = await generateWithFallback(
+        client,
+        model,
+        requestBody,
+        { client: clientName, priority, signal },
+        verbose,
+      );
+      request.servedBy(served);
+      request.observe(result);
+      const response = convertResponse(result, served);
+      const message = response.choices[0]?.message;
+      if (validateOutput && message && !message.tool_calls) {
+        validateOutput(message.content ?? "");
+      }
+      request.finish(200);
 
       if (verbose) {
         console.log(
-          `[response] model=${model} finish=${response.choices[0]?.finish_reason} tokens=${response.usage?.total_tokens ?? "?"}`,
+          `[response] model=${served} finish=${response.choices[0]?.finish_reason} tokens=${response.usage?.total_tokens ?? "?"}`,
         );
       }
 
+      c.header("x-gemini-daemon-served-model", served);
       return c.json(response);
     } catch (err: unknown) {
-      const error = err as { status?: number; message?: string; code?: number };
-      const status = error.status ?? error.code ?? 500;
-      const message = error.message ?? "Internal server error";
+      if (err instanceof InvalidRequestError) {
+        request.finish(400);
+        return c.json(formatErrorResponse(err.message, "invalid_request_error", err.param), 400);
+      }
+      if (err instanceof StructuredOutputError) {
+        request.finish(502);
+        return c.json(
+          formatErrorResponse(err.message, "server_error", "response_format", err.code),
+          502,
+        );
+      }
+
+      const { status, message, retryAfter } = toUpstreamError(err);
+      request.finish(status);
+      if (retryAfter !== undefined) c.header("Retry-After", String(retryAfter));
 
       if (verbose) {
         console.error(`[error] model=${model} status=${status} message=${message}`);
@@ -97,6 +167,9 @@ export function chatCompletionsRoute(
       if (status === 400) {
         return c.json(formatErrorResponse(message, "invalid_request_error"), 400);
       }
+      if (status === 503) {
+        return c.json(formatErrorResponse(message, "server_error"), 503);
+      }
 
       return c.json(formatErrorResponse(message, "server_error"), 500);
     }
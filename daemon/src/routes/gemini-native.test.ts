@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { geminiNativeRoute } from "./gemini-native.js";
+import type { GeminiClient, GeminiResponse } from "../services/gemini-client.js";
+
+// Mock stats to avoid module state issues
+vi.mock("../stats.js", () => ({
+  clientFromHeaders: vi.fn(() => "test-client"),
+  startRequest: vi.fn(() => ({
+    observe: vi.fn(),
+    servedBy: vi.fn(),
+    tap: (stream: AsyncGenerator<unknown>) => stream,
+    finish: vi.fn(),
+  })),
+}));
+
+const rawResponse = {
+  candidates: [
+    { content: { parts: [{ text: "Hello!" }], role: "model" }, finishReason: "STOP", index: 0 },
+  ],
+  usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 },
+  modelVersion: "gemini-2.5-flash",
+};
+
+function makeMockClient(overrides?: Partial<GeminiClient>): GeminiClient {
+  return {
+    generateContent: vi.fn().mockResolvedValue(rawResponse),
+    generateContentStream: vi.fn(),
+    ...overrides,
+  } as GeminiClient;
+}
+
+async function* chunks(): AsyncGenerator<GeminiResponse> {
+  yield { candidates: [{ content: { parts: [{ text: "Hel" }], role: "model" } }] };
+  yield rawResponse;
+}
+
+const nativeBody = {
+  contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+  generationConfig: { temperature: 0.2, responseModalities: ["TEXT"] },
+  safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" }],
+};
+
+function post(app: any, path: string, body: any = nativeBody) {
+  return app.request(path, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("geminiNativeRoute", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("forwards generateContent bodies and responses unchanged", async () => {
+    const client = makeMockClient();
+    const app = geminiNativeRoute(client);
+    const res = await post(app, "/v1beta/models/gemini-2.5-flash:generateContent");
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(rawResponse);
+    expect(client.generateContent).toHaveBeenCalledWith("gemini-2.5-flash", nativeBody, {
+      client: "test-client",
+      priority: "batch",
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it("streams SSE chunks with alt=sse", async () => {
+    const client = makeMockClient({ generateContentStream: vi.fn().mockReturnValue(chunks()) });
+    const app = geminiNativeRoute(client);
+    const res = await post(app, "/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse");
+
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    const events = (await res.text())
+      .split("\r\n\r\n")
+      .filter(Boolean)
+      .map((e: string) => JSON.parse(e.replace(/^data: /, "")));
+    expect(events).toHaveLength(2);
+    expect(events[1]).toEqual(rawResponse);
+  });
+
+  it("returns a JSON array for streamGenerateContent without alt=sse", async () => {
+    const client = makeMockClient({ generateContentStream: vi.fn().mockReturnValue(chunks()) });
+    const app = geminiNativeRoute(client);
+    const res = await post(app, "/v1/models/gemini-2.5-flash:streamGenerateContent");
+
+    const body = JSON.parse(await res.text());
+    expect(Array.isArray(body)).toBe(true);
+    expect(body).toHaveLength(2);
+  });
+
+  it("returns Google-style errors with the upstream status", async () => {
+    const error: any = new Error("Rate limit exceeded");
+    error.status = 429;
+    const app = geminiNativeRoute(
+      makeMockClient({ generateContent: vi.fn().mockRejectedValue(error) }),
+    );
+    const res = await post(app, "/v1beta/models/gemini-2.5-pro:generateContent");
+
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({
+      error: { code: 429, message: "Rate limit exceeded", status: "RESOURCE_EXHAUSTED" },
+    });
+  });
+
+  it("reports stream setup failures before sending headers", async () => {
+    const error: any = new Error("Model not found");
+    error.status = 404;
+    async function* failing(): AsyncGenerator<GeminiResponse> {
+      throw error;
+    }
+    const app = geminiNativeRoute(
+      makeMockClient({ generateContentStream: vi.fn().mockReturnValue(failing()) }),
+    );
+    const res = await post(app, "/v1beta/models/nope:streamGenerateContent?alt=sse");
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.status).toBe("NOT_FOUND");
+  });
+
+  it("returns 404 for unsupported methods", async () => {
+    const app = geminiNativeRoute(makeMockClient());
+    const res = await post(app, "/v1beta/models/gemini-2.5-flash:embedContent");
+
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 when contents is missing", async () => {
+    const app = geminiNativeRoute(makeMockClient());
+    const res = await post(app, "/v1beta/models/gemini-2.5-flash:generateContent", {});
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.status).toBe("INVALID_ARGUMENT");
+  });
+});
@@ -0,0 +1,138 @@
+import { Hono, type Context } from "hono";
+import { stream as honoStream } from "hono/streaming";
+import type { GeminiClient, GeminiResponse } from "../services/gemini-client.js";
+import { resolveModel } from "../services/gemini-client.js";
+import { generateWithFallback, openStream } from "../services/fallback.js";
+import { priorityFromHeaders } from "../services/scheduler.js";
+import type { GeminiRequestBody } from "../adapters/openai-to-gemini.js";
+import { applyPreset } from "../adapters/presets.js";
+import { disconnectSignal, formatGoogleError, toUpstreamError } from "../errors.js";
+import { clientFromHeaders, startRequest } from "../stats.js";
+
+type NativeAction = "generateContent" | "streamGenerateContent";
+
+/**
+ * Native Gemini API passthrough (`/v1beta/models/{model}:generateContent`) so the
+ * Google GenAI SDKs can use the daemon's OAuth session instead of an API key.
+ * Request and response bodies are forwarded without translation.
+ */
+export function geminiNativeRoute(client: GeminiClient, verbose?: boolean): Hono {
+  const app = new Hono();
+
+  const handler = async (c: Context) => {
+    const target = c.req.param("target") ?? "";
+    const sep = target.lastIndexOf(":");
+    const modelName = sep > 0 ? target.slice(0, sep) : "";
+    const action = target.slice(sep + 1) as NativeAction;
+
+    if (!modelName || (action !== "generateContent" && action !== "streamGenerateContent")) {
+      return c.json(formatGoogleError(404, `Unsupported method '${target}'`), 404);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(formatGoogleError(400, "Invalid JSON in request body"), 400);
+    }
+
+    if (!Array.isArray(body.contents)) {
+      return c.json(formatGoogleError(400, "'contents' is required and must be an array"), 400);
+    }
+
+    const model = resolveModel(modelName);
+    const requestBody = applyPreset(body as unknown as GeminiRequestBody, modelName);
+    const clientName = c.get("client") ?? clientFromHeaders(c.req.raw.headers);
+    const priority = priorityFromHeaders(c.req.raw.headers);
+    const signal = disconnectSignal(c.req.raw);
+    const request = startRequest({
+      endpoint: `native.${action}`,
+      model,
+      client: clientName,
+      stream: action === "streamGenerateContent",
+    });
+
+    if (verbose) {
+      console.log(`[request] route=native model=${model} client=${clientName} action=${action}`);
+    }
+
+    try {
+      if (action === "streamGenerateContent") {
+        const { model: served, stream: upstream } = await openStream(
+          client,
+          model,
+          requestBody,
+          { client: clientName, priority, signal },
+          verbose,
+        );
+        request.servedBy(served);
+        const streamResult = request.tap(upstream);
+        const sse = c.req.query("alt") === "sse";
+
+        c.header("x-gemini-daemon-served-model", served);
+        c.header("Content-Type", sse ? "text/event-stream" : "application/json");
+        if (sse) c.header("Cache-Control", "no-cache");
+
+        return honoStream(c, async (stream) => {
+          const chunks: GeminiResponse[] = [];
+          const emit = async (chunk: GeminiResponse) => {
+            if (sse) {
+              await stream.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+            } else {
+              chunks.push(chunk);
+            }
+          };
+
+          try {
+            for await (const chunk of streamResult) {
+              await emit(chunk);
+            }
+            // Without alt=sse the API answers with one JSON array
+            if (!sse) await stream.write(JSON.stringify(chunks));
+          } catch (err) {
+            const { status, message } = toUpstreamError(err);
+            const payload = JSON.stringify(formatGoogleError(status, message));
+            await stream.write(sse ? `data: ${payload}\r\n\r\n` : payload);
+          }
+        });
+      }
+
+      const { model: served, response: result } = await generateWithFallback(
+        client,
+        model,
+        requestBody,
+        { client: clientName, priority, signal },
+        verbose,
+      );
+      request.servedBy(served);
+      request.observe(result);
+      request.finish(200);
+      c.header("x-gemini-daemon-served-model", served);
+      return c.json(result);
+    } catch (err: unknown) {
+      const { status, message, retryAfter } = toUpstreamError(err);
+      request.finish(status);
+      if (retryAfter !== undefined) c.header("Retry-After", String(retryAfter));
+
+      if (verbose) {
+        console.error(`[error] route=native model=${model} status=${status} message=${message}`);
+      }
+
+      const code =
+        status === 400 ||
+        status === 401 ||
+        status === 403 ||
+        status === 404 ||
+        status === 429 ||
+        status === 503
+          ? status
+          : 500;
+      return c.json(formatGoogleError(code, message), code);
+    }
+  };
+
+  app.post("/v1beta/models/:target", handler);
+  app.post("/v1/models/:target", handler);
+
+  return app;
+}
@@ -1,27 +1,92 @@
 import { describe, it, expect } from "vitest";
 import { healthRoute } from "./health.js";
+import { createAccountPool, type AccountPool } from "../services/account-pool.js";
+import type { AuthContainer } from "../services/auth-container.js";
+import type { AuthResult } from "../services/auth.js";
+
+function container(method?: AuthResult["method"], pool?: AccountPool): AuthContainer {
+  return { auth: method && ({ method, accounts: [] } as any), pool } as AuthContainer;
+}
 
 describe("healthRoute", () => {
-  it("returns auth_method from constructor arg", async () => {
-    const app = healthRoute("gemini-cli-oauth");
+  it("returns auth_method from the current credentials", async () => {
+    const app = healthRoute(container("gemini-cli-oauth"));
     const res = await app.request("/health");
     const body = await res.json();
 
     expect(res.status).toBe(200);
     expect(body.status).toBe("ok");
+    expect(body.authenticated).toBe(true);
     expect(body.auth_method).toBe("gemini-cli-oauth");
     expect(body.version).toBe("0.1.0");
     expect(typeof body.uptime).toBe("number");
   });
 
-  it("response includes status, uptime, version, auth_method", async () => {
-    const app = healthRoute("gemini-cli-oauth");
+  it("response includes status, uptime, version, authenticated, auth_method", async () => {
+    const app = healthRoute(container("gemini-cli-oauth"));
     const res = await app.request("/health");
     const body = await res.json();
 
     expect(body).toHaveProperty("status");
     expect(body).toHaveProperty("uptime");
     expect(body).toHaveProperty("version");
+    expect(body).toHaveProperty("authenticated");
     expect(body).toHaveProperty("auth_method");
   });
+
+  it("reports each pooled account", async () => {
+    const pool = createAccountPool([
+      {
+        id: "alice",
+        projectId: "p1",
+        credsPath: "/creds/alice.json",
+        oauth2Client: { credentials: { expiry_date: Date.UTC(2026, 0, 1) } } as any,
+      },
+      {
+        id: "bob",
+        projectId: "p2",
+        credsPath: "/creds/bob.json",
+        oauth2Client: { credentials: {} } as any,
+        refreshError: "invalid_grant",
+      },
+    ]);
+    pool.cooldown("bob", "429 Rate limit exceeded");
+
+    const res = await healthRoute(container("gemini-cli-oauth", pool)).request("/health");
+    const body = await res.json();
+
+    expect(body.accounts).toEqual([
+      {
+        id: "alice",
+        project_id: "p1",
+        available: true,
+        cooldown_until: null,
+        last_error: null,
+        token_expires_at: "2026-01-01T00:00:00.000Z",
+        refresh_error: null,
+      },
+      expect.objectContaining({
+        id: "bob",
+        available: false,
+        last_error: "429 Rate limit exceeded",
+        token_expires_at: null,
+        refresh_error: "invalid_grant",
+      }),
+    ]);
+  });
+
+  it("reports the API key backend", async () => {
+    const res = await healthRoute(container("api-key")).request("/health");
+    expect((await res.json()).auth_method).toBe("api-key");
+  });
+
+  it("reports an unauthenticated daemon", async () => {
+    const res = await healthRoute(container()).request("/health");
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.authenticated).toBe(false);
+    expect(body.auth_method).toBe("none");
+    expect(body).not.toHaveProperty("accounts");
+  });
 });
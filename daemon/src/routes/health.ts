@@ -1,17 +1,20 @@
 import { Hono } from "hono";
-import type { AuthMethod } from "../services/auth.js";
+import type { AuthContainer } from "../services/auth-container.js";
 
 const startTime = Date.now();
 
-export function healthRoute(authMethod: AuthMethod): Hono {
+export function healthRoute(container: AuthContainer): Hono {
   const app = new Hono();
 
   app.get("/health", (c) => {
+    const { auth, pool } = container;
     return c.json({
       status: "ok",
       uptime: Math.floor((Date.now() - startTime) / 1000),
       version: "0.1.0",
-      auth_method: authMethod,
+      authenticated: auth !== undefined,
+      auth_method: auth?.method ?? "none",
+      ...(pool && { accounts: pool.status() }),
     });
   });
 
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { messagesRoute } from "./messages.js";
+import type { GeminiClient, GeminiResponse } from "../services/gemini-client.js";
+
+// Mock stats to avoid module state issues
+vi.mock("../stats.js", () => ({
+  clientFromHeaders: vi.fn(() => "test-client"),
+  startRequest: vi.fn(() => ({
+    observe: vi.fn(),
+    servedBy: vi.fn(),
+    tap: (stream: AsyncGenerator<unknown>) => stream,
+    finish: vi.fn(),
+  })),
+}));
+
+function makeMockClient(overrides?: Partial<GeminiClient>): GeminiClient {
+  return {
+    generateContent: vi.fn().mockResolvedValue({
+      candidates: [
+        {
+          content: { parts: [{ text: "Hello!" }], role: "model" },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        totalTokenCount: 15,
+      },
+    }),
+    generateContentStream: vi.fn(),
+    ...overrides,
+  } as GeminiClient;
+}
+
+function postJSON(app: any, body: any) {
+  return app.request("/v1/messages", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("messagesRoute", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 400 in Anthropic error shape on invalid JSON", async () => {
+    const app = messagesRoute(makeMockClient());
+    const res = await app.request("/v1/messages", {
+      method: "POST",
+      body: "not json{{{",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.type).toBe("error");
+    expect(body.error.type).toBe("invalid_request_error");
+  });
+
+  it("returns 400 for unknown tool_use_id", async () => {
+    const client = makeMockClient();
+    const app = messagesRoute(client);
+    const res = await postJSON(app, {
+      max_tokens: 100,
+      messages: [
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "nope", content: "x" }] },
+      ],
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.message).toContain("nope");
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it("calls client and returns an Anthropic message", async () => {
+    const client = makeMockClient();
+    const app = messagesRoute(client);
+    const res = await postJSON(app, {
+      model: "gemini-2.5-flash",
+      max_tokens: 100,
+      system: "Be brief.",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.type).toBe("message");
+    expect(body.content).toEqual([{ type: "text", text: "Hello!" }]);
+    expect(body.usage).toEqual({ input_tokens: 10, output_tokens: 5 });
+
+    const [model, requestBody] = vi.mocked(client.generateContent).mock.calls[0];
+    expect(model).toBe("gemini-2.5-flash");
+    expect(requestBody).toMatchObject({
+      systemInstruction: { parts: [{ text: "Be brief." }] },
+      generationConfig: { maxOutputTokens: 100 },
+    });
+  });
+
+  it("streams Anthropic events", async () => {
+    async function* chunks(): AsyncGenerator<GeminiResponse> {
+      yield {
+        candidates: [
+          { content: { parts: [{ text: "Hi" }], role: "model" }, finishReason: "STOP" },
+        ],
+      };
+    }
+    const client = makeMockClient({
+      generateContentStream: vi.fn().mockReturnValue(chunks()),
+    });
+    const app = messagesRoute(client);
+    const res = await postJSON(app, {
+      max_tokens: 100,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    const text = await res.text();
+    expect(text).toContain("event: message_start");
+    expect(text).toContain('"text_delta"');
+    expect(text).toContain("event: message_stop");
+  });
+
+  it("maps 429 upstream error to rate_limit_error", async () => {
+    const error: any = new Error("Rate limited");
+    error.status = 429;
+    const client = makeMockClient({
+      generateContent: vi.fn().mockRejectedValue(error),
+    });
+
+    const app = messagesRoute(client);
+    const res = await postJSON(app, {
+      max_tokens: 100,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(429);
+    const body = await res.json();
+    expect(body.error.type).toBe("rate_limit_error");
+  });
+});
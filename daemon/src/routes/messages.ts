@@ -0,0 +1,147 @@
+import { Hono } from "hono";
+import { stream as honoStream } from "hono/streaming";
+import type { GeminiClient } from "../services/gemini-client.js";
+import {
+  buildAnthropicRequestBody,
+  type AnthropicMessagesRequest,
+} from "../adapters/anthropic-to-gemini.js";
+import type { GeminiRequestBody } from "../adapters/openai-to-gemini.js";
+import { convertToAnthropicResponse } from "../adapters/gemini-to-anthropic.js";
+import { applyPreset } from "../adapters/presets.js";
+import { createAnthropicSSEStream } from "../streaming/anthropic-sse.js";
+import { resolveModel } from "../services/gemini-client.js";
+import { generateWithFallback, openStream } from "../services/fallback.js";
+import { priorityFromHeaders } from "../services/scheduler.js";
+import { disconnectSignal, formatAnthropicError, toUpstreamError } from "../errors.js";
+import { clientFromHeaders, startRequest } from "../stats.js";
+
+export function messagesRoute(
+  client: GeminiClient,
+  defaultModel?: string,
+  verbose?: boolean,
+): Hono {
+  const app = new Hono();
+
+  app.post("/v1/messages", async (c) => {
+    let body: AnthropicMessagesRequest;
+    try {
+      body = await c.req.json<AnthropicMessagesRequest>();
+    } catch {
+      return c.json(
+        formatAnthropicError("Invalid JSON in request body", "invalid_request_error"),
+        400,
+      );
+    }
+
+    if (!body.messages || !Array.isArray(body.messages)) {
+      return c.json(
+        formatAnthropicError("'messages' is required and must be an array", "invalid_request_error"),
+        400,
+      );
+    }
+
+    const model = resolveModel(body.model, defaultModel);
+    const clientName = c.get("client") ?? clientFromHeaders(c.req.raw.headers);
+    const priority = priorityFromHeaders(c.req.raw.headers);
+    const signal = disconnectSignal(c.req.raw);
+    const request = startRequest({
+      endpoint: "messages",
+      model,
+      client: clientName,
+      stream: !!body.stream,
+    });
+
+    if (verbose) {
+      console.log(`[request] route=messages model=${model} client=${clientName} messages=${body.messages.length} stream=${!!body.stream}`);
+    }
+
+    try {
+      const requestBody: GeminiRequestBody = applyPreset(
+        buildAnthropicRequestBody(body),
+        body.model || defaultModel,
+      );
+
+      if (body.stream) {
+        const { model: served, stream: upstream } = await openStream(
+          client,
+          model,
+          requestBody,
+          { client: clientName, priority, signal },
+          verbose,
+        );
+        request.servedBy(served);
+        const sseStream = createAnthropicSSEStream(request.tap(upstream), served);
+
+        c.header("x-gemini-daemon-served-model", served);
+        c.header("Content-Type", "text/event-stream");
+        c.header("Cache-Control", "no-cache");
+        c.header("Connection", "keep-alive");
+
+        return honoStream(c, async (stream) => {
+          const reader = sseStream.getReader();
+          try {
+            while (true) {
+              const { value, done } = await reader.read();
+              if (done) break;
+              await stream.write(value);
+            }
+          } finally {
+            reader.releaseLock();
+          }
+        });
+      }
+
+      // Non-streaming
+      const { model: served, response: result } = await generateWithFallback(
+        client,
+        model,
+        requestBody,
+        { client: clientName, priority, signal },
+        verbose,
+      );
+      request.servedBy(served);
+      request.observe(result);
+      request.finish(200);
+      const response = convertToAnthropicResponse(result, served);
+
+      if (verbose) {
+        console.log(
+          `[response] route=messages model=${served} stop=${response.stop_reason} tokens=${response.usage.input_tokens + response.usage.output_tokens}`,
+        );
+      }
+
+      c.header("x-gemini-daemon-served-model", served);
+      return c.json(response);
+    } catch (err: unknown) {
+      const { status, message, retryAfter } = toUpstreamError(err);
+      request.finish(status);
+      if (retryAfter !== undefined) c.header("Retry-After", String(retryAfter));
+
+      if (verbose) {
+        console.error(`[error] route=messages model=${model} status=${status} message=${message}`);
+      }
+
+      if (status === 400) {
+        return c.json(formatAnthropicError(message, "invalid_request_error"), 400);
+      }
+      if (status === 401) {
+        return c.json(formatAnthropicError(message, "authentication_error"), 401);
+      }
+      if (status === 403) {
+        return c.json(formatAnthropicError(message, "permission_error"), 403);
+      }
+      if (status === 404) {
+        return c.json(formatAnthropicError(message, "not_found_error"), 404);
+      }
+      if (status === 429) {
+        return c.json(formatAnthropicError(message, "rate_limit_error"), 429);
+      }
+      if (status === 503) {
+        return c.json(formatAnthropicError(message, "overloaded_error"), 503);
+      }
+      return c.json(formatAnthropicError(message, "api_error"), 500);
+    }
+  });
+
+  return app;
+}
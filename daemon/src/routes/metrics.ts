@@ -0,0 +1,13 @@
+import { Hono } from "hono";
+import { renderMetrics } from "../metrics.js";
+
+export function metricsRoute(): Hono {
+  const app = new Hono();
+
+  app.get("/metrics", (c) => {
+    c.header("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    return c.body(renderMetrics());
+  });
+
+  return app;
+}
@@ -1,22 +1,21 @@
 import { Hono } from "hono";
-
-const AVAILABLE_MODELS = [
-  "gemini-2.5-pro",
-  "gemini-2.5-flash",
-  "gemini-2.0-flash",
-  "gemini-2.0-flash-lite",
-];
+import { getConfig } from "../config.js";
 
 export function modelsRoute(): Hono {
   const app = new Hono();
 
   app.get("/v1/models", (c) => {
-    const data = AVAILABLE_MODELS.map((id) => ({
-      id,
-      object: "model",
-      created: Math.floor(Date.now() / 1000),
-      owned_by: "google",
-    }));
+    const { models, presets } = getConfig();
+    const created = Math.floor(Date.now() / 1000);
+    const data = [
+      ...models.map((id) => ({ id, object: "model", created, owned_by: "google" })),
+      ...Object.keys(presets).map((id) => ({
+        id,
+        object: "model",
+        created,
+        owned_by: "gemini-daemon",
+      })),
+    ];
 
     return c.json({ object: "list", data });
   });
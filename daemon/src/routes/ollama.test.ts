@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ollamaRoute } from "./ollama.js";
+import type { GeminiClient, GeminiResponse } from "../services/gemini-client.js";
+
+// Mock stats to avoid module state issues
+vi.mock("../stats.js", () => ({
+  clientFromHeaders: vi.fn(() => "test-client"),
+  startRequest: vi.fn(() => ({
+    observe: vi.fn(),
+    servedBy: vi.fn(),
+    tap: (stream: AsyncGenerator<unknown>) => stream,
+    finish: vi.fn(),
+  })),
+}));
+
+const textResponse: GeminiResponse = {
+  candidates: [
+    { content: { parts: [{ text: "Hello!" }], role: "model" }, finishReason: "STOP" },
+  ],
+  usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+};
+
+function makeMockClient(overrides?: Partial<GeminiClient>): GeminiClient {
+  return {
+    generateContent: vi.fn().mockResolvedValue(textResponse),
+    generateContentStream: vi.fn(),
+    ...overrides,
+  } as GeminiClient;
+}
+
+async function* chunks(): AsyncGenerator<GeminiResponse> {
+  yield { candidates: [{ content: { parts: [{ text: "Hel" }], role: "model" } }] };
+  yield textResponse;
+}
+
+function postJSON(app: any, path: string, body: any) {
+  return app.request(path, {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function parseNDJSON(text: string): any[] {
+  return text
+    .split("\n")
+    .filter(Boolean)
+    .map((l) => JSON.parse(l));
+}
+
+describe("ollamaRoute", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("GET /api/tags lists available models", async () => {
+    const app = ollamaRoute(makeMockClient());
+    const res = await app.request("/api/tags");
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    const names = body.models.map((m: any) => m.name);
+    expect(names).toContain("gemini-2.5-flash");
+    expect(names).toContain("gemini-2.5-pro");
+  });
+
+  it("POST /api/chat streams NDJSON by default", async () => {
+    const client = makeMockClient({ generateContentStream: vi.fn().mockReturnValue(chunks()) });
+    const app = ollamaRoute(client);
+    const res = await postJSON(app, "/api/chat", {
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/x-ndjson");
+    const lines = parseNDJSON(await res.text());
+
+    expect(lines.map((l) => l.message.content)).toEqual(["Hel", "Hello!", ""]);
+    expect(lines.slice(0, -1).every((l) => l.done === false)).toBe(true);
+    const last = lines[lines.length - 1];
+    expect(last.done).toBe(true);
+    expect(last.done_reason).toBe("stop");
+    expect(last.prompt_eval_count).toBe(10);
+    expect(last.eval_count).toBe(5);
+  });
+
+  it("POST /api/chat returns a single object when stream is false", async () => {
+    const client = makeMockClient();
+    const app = ollamaRoute(client);
+    const res = await postJSON(app, "/api/chat", {
+      model: "gemini-2.5-flash:latest",
+      stream: false,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.message).toEqual({ role: "assistant", content: "Hello!" });
+    expect(body.done).toBe(true);
+    expect(vi.mocked(client.generateContent).mock.calls[0][0]).toBe("gemini-2.5-flash");
+  });
+
+  it("POST /api/generate streams response fields", async () => {
+    const client = makeMockClient({ generateContentStream: vi.fn().mockReturnValue(chunks()) });
+    const app = ollamaRoute(client);
+    const res = await postJSON(app, "/api/generate", { prompt: "Hi" });
+
+    const lines = parseNDJSON(await res.text());
+    expect(lines.map((l) => l.response)).toEqual(["Hel", "Hello!", ""]);
+    expect(lines[lines.length - 1].done).toBe(true);
+  });
+
+  it("returns Ollama-style errors", async () => {
+    const error: any = new Error("Rate limited");
+    error.status = 429;
+    const app = ollamaRoute(
+      makeMockClient({ generateContent: vi.fn().mockRejectedValue(error) }),
+    );
+    const res = await postJSON(app, "/api/generate", { prompt: "Hi", stream: false });
+
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({ error: "Rate limited" });
+  });
+
+  it("returns an Ollama-worded 400 for a tool result with nothing to answer", async () => {
+    const client = makeMockClient();
+    const res = await postJSON(ollamaRoute(client), "/api/chat", {
+      messages: [
+        { role: "user", content: "Time?" },
+        { role: "tool", content: "noon" },
+      ],
+      stream: false,
+    });
+
+    expect(res.status).toBe(400);
+    const { error } = await res.json();
+    expect(error).toContain("tool_name");
+    expect(error).not.toContain("tool_call_id");
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when messages are missing", async () => {
+    const app = ollamaRoute(makeMockClient());
+    const res = await postJSON(app, "/api/chat", { model: "gemini-2.5-flash" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("messages");
+  });
+});
@@ -0,0 +1,172 @@
+import { Hono, type Context } from "hono";
+import { stream as honoStream } from "hono/streaming";
+import type { GeminiClient } from "../services/gemini-client.js";
+import { buildRequestBody, type OpenAIChatRequest } from "../adapters/openai-to-gemini.js";
+import { applyPreset } from "../adapters/presets.js";
+import {
+  convertOllamaChatRequest,
+  convertOllamaGenerateRequest,
+  type OllamaChatRequest,
+  type OllamaGenerateRequest,
+} from "../adapters/ollama-to-chat.js";
+import { convertToOllamaChat, convertToOllamaGenerate } from "../adapters/gemini-to-ollama.js";
+import { createOllamaStream, type OllamaStreamKind } from "../streaming/ollama-ndjson.js";
+import { resolveModel } from "../services/gemini-client.js";
+import { generateWithFallback, openStream } from "../services/fallback.js";
+import { priorityFromHeaders } from "../services/scheduler.js";
+import { disconnectSignal, InvalidRequestError, toUpstreamError } from "../errors.js";
+import { clientFromHeaders, startRequest } from "../stats.js";
+import { getConfig } from "../config.js";
+
+/** Ollama-compatible API so tools that only speak Ollama can use the daemon. */
+export function ollamaRoute(
+  client: GeminiClient,
+  defaultModel?: string,
+  verbose?: boolean,
+): Hono {
+  const app = new Hono();
+
+  app.get("/api/tags", (c) => {
+    const modifiedAt = new Date().toISOString();
+    const { models: modelNames, presets } = getConfig();
+    const models = [...modelNames, ...Object.keys(presets)].map((name) => ({
+      name,
+      model: name,
+      modified_at: modifiedAt,
+      size: 0,
+      digest: "",
+      details: { format: "gemini", family: "gemini", parameter_size: "", quantization_level: "" },
+    }));
+    return c.json({ models });
+  });
+
+  async function handle(
+    c: Context,
+    kind: OllamaStreamKind,
+    chatRequest: OpenAIChatRequest,
+    stream: boolean,
+  ) {
+    const startedAt = Date.now();
+    const model = resolveModel(chatRequest.model, defaultModel);
+    const clientName = c.get("client") ?? clientFromHeaders(c.req.raw.headers);
+    const priority = priorityFromHeaders(c.req.raw.headers);
+    const signal = disconnectSignal(c.req.raw);
+    const request = startRequest({
+      endpoint: `ollama.${kind}`,
+      model,
+      client: clientName,
+      stream,
+    });
+
+    if (verbose) {
+      console.log(`[request] route=ollama-${kind} model=${model} client=${clientName} stream=${stream}`);
+    }
+
+    try {
+      const requestBody = applyPreset(
+        buildRequestBody(chatRequest),
+        chatRequest.model || defaultModel,
+      );
+
+      if (stream) {
+        const { model: served, stream: upstream } = await openStream(
+          client,
+          model,
+          requestBody,
+          { client: clientName, priority, signal },
+          verbose,
+        );
+        request.servedBy(served);
+        const ndjson = createOllamaStream(request.tap(upstream), served, kind, startedAt);
+
+        c.header("x-gemini-daemon-served-model", served);
+        c.header("Content-Type", "application/x-ndjson");
+
+        return honoStream(c, async (out) => {
+          const reader = ndjson.getReader();
+          try {
+            while (true) {
+              const { value, done } = await reader.read();
+              if (done) break;
+              await out.write(value);
+            }
+          } finally {
+            reader.releaseLock();
+          }
+        });
+      }
+
+      const { model: served, response: result } = await generateWithFallback(
+        client,
+        model,
+        requestBody,
+        { client: clientName, priority, signal },
+        verbose,
+      );
+      request.servedBy(served);
+      request.observe(result);
+      request.finish(200);
+      c.header("x-gemini-daemon-served-model", served);
+      return c.json(
+        kind === "chat"
+          ? convertToOllamaChat(result, served, startedAt)
+          : convertToOllamaGenerate(result, served, startedAt),
+      );
+    } catch (err: unknown) {
+      const { status, message, retryAfter } = toUpstreamError(err);
+      request.finish(status);
+      if (retryAfter !== undefined) c.header("Retry-After", String(retryAfter));
+
+      if (verbose) {
+        console.error(`[error] route=ollama-${kind} model=${model} status=${status} message=${message}`);
+      }
+
+      const code =
+        status === 400 || status === 401 || status === 404 || status === 429 || status === 503
+          ? status
+          : 500;
+      return c.json({ error: message }, code);
+    }
+  }
+
+  app.post("/api/chat", async (c) => {
+    let body: OllamaChatRequest;
+    try {
+      body = await c.req.json<OllamaChatRequest>();
+    } catch {
+      return c.json({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    if (!body.messages || !Array.isArray(body.messages)) {
+      return c.json({ error: "'messages' is required and must be an array" }, 400);
+    }
+
+    let chatRequest: OpenAIChatRequest;
+    try {
+      chatRequest = convertOllamaChatRequest(body);
+    } catch (err) {
+      if (!(err instanceof InvalidRequestError)) throw err;
+      return c.json({ error: err.message }, 400);
+    }
+
+    // Ollama streams unless told otherwise
+    return handle(c, "chat", chatRequest, body.stream !== false);
+  });
+
+  app.post("/api/generate", async (c) => {
+    let body: OllamaGenerateRequest;
+    try {
+      body = await c.req.json<OllamaGenerateRequest>();
+    } catch {
+      return c.json({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    if (typeof body.prompt !== "string") {
+      return c.json({ error: "'prompt' is required and must be a string" }, 400);
+    }
+
+    return handle(c, "generate", convertOllamaGenerateRequest(body), body.stream !== false);
+  });
+
+  return app;
+}
@@ -1,21 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 vi.mock("../services/auth.js", () => ({
-  fetchQuota: vi.fn(),
+  fetchAccountQuotas: vi.fn(),
 }));
 
 import { quotaRoute } from "./quota.js";
-import { fetchQuota } from "../services/auth.js";
-import type { AuthResult } from "../services/auth.js";
-
-function makeAuth(): AuthResult {
-  return {
-    oauth2Client: {
-      getAccessToken: vi.fn().mockResolvedValue({ token: "test" }),
-    } as any,
+import { fetchAccountQuotas } from "../services/auth.js";
+import { createAuthContainer, type AuthContainer } from "../services/auth-container.js";
+
+function makeAuth(): AuthContainer {
+  const oauth2Client = {
+    getAccessToken: vi.fn().mockResolvedValue({ token: "test" }),
+  } as any;
+  return createAuthContainer({
+    oauth2Client,
     projectId: "test-project",
     method: "gemini-cli-oauth",
-  };
+    accounts: [{ id: "oauth_creds", oauth2Client, projectId: "test-project", credsPath: "/creds/oauth_creds.json" }],
+  });
 }
 
 describe("quotaRoute", () => {
@@ -27,12 +29,13 @@ describe("quotaRoute", () => {
     const mockQuotas = [
       {
         modelId: "gemini-2.5-flash",
+        fraction: 0.8,
         percentLeft: 80,
         resetTime: "2026-02-22T12:00:00Z",
         resetDescription: "Resets in 2h",
       },
     ];
-    vi.mocked(fetchQuota).mockResolvedValue(mockQuotas);
+    vi.mocked(fetchAccountQuotas).mockResolvedValue([{ account: "oauth_creds", quotas: mockQuotas }]);
 
     const app = quotaRoute(makeAuth());
     const res = await app.request("/quota");
@@ -40,19 +43,20 @@ describe("quotaRoute", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.quotas).toEqual(mockQuotas);
-    expect(fetchQuota).toHaveBeenCalledTimes(1);
+    expect(fetchAccountQuotas).toHaveBeenCalledTimes(1);
   });
 
   it("caches for 60 seconds", async () => {
     const mockQuotas = [
       {
         modelId: "gemini-2.5-flash",
+        fraction: 0.8,
         percentLeft: 80,
         resetTime: null,
         resetDescription: "—",
       },
     ];
-    vi.mocked(fetchQuota).mockResolvedValue(mockQuotas);
+    vi.mocked(fetchAccountQuotas).mockResolvedValue([{ account: "oauth_creds", quotas: mockQuotas }]);
 
     const app = quotaRoute(makeAuth());
 
@@ -64,11 +68,13 @@ describe("quotaRoute", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.quotas).toEqual(mockQuotas);
-    expect(fetchQuota).toHaveBeenCalledTimes(1);
+    expect(fetchAccountQuotas).toHaveBeenCalledTimes(1);
   });
 
   it("returns error on fetchQuota failure", async () => {
-    vi.mocked(fetchQuota).mockRejectedValue(new Error("API failed"));
+    vi.mocked(fetchAccountQuotas).mockResolvedValue([
+      { account: "oauth_creds", quotas: [], error: "Error: API failed" },
+    ]);
 
     const app = quotaRoute(makeAuth());
     const res = await app.request("/quota");
@@ -78,4 +84,36 @@ describe("quotaRoute", () => {
     expect(body.quotas).toEqual([]);
     expect(body.error).toBeTruthy();
   });
+
+  it("reports each account and the best quota per model", async () => {
+    const quota = (percentLeft: number) => ({
+      modelId: "gemini-2.5-pro",
+      fraction: percentLeft / 100,
+      percentLeft,
+      resetTime: null,
+      resetDescription: "—",
+    });
+    vi.mocked(fetchAccountQuotas).mockResolvedValue([
+      { account: "alice", quotas: [quota(0)] },
+      { account: "bob", quotas: [quota(70)] },
+      { account: "carol", quotas: [], error: "Error: expired" },
+    ]);
+
+    const app = quotaRoute(makeAuth());
+    const res = await app.request("/quota");
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.quotas).toEqual([quota(70)]);
+    expect(body.accounts.map((a: { account: string }) => a.account)).toEqual(["alice", "bob", "carol"]);
+    expect(body.accounts[2].error).toBe("Error: expired");
+  });
+
+  it("returns 401 while signed out", async () => {
+    const res = await quotaRoute(createAuthContainer()).request("/quota");
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error).toBe("Not signed in");
+    expect(fetchAccountQuotas).not.toHaveBeenCalled();
+  });
 });
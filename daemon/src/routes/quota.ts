@@ -1,22 +1,48 @@
 import { Hono } from "hono";
-import type { AuthResult } from "../services/auth.js";
-import { fetchQuota, type QuotaInfo } from "../services/auth.js";
+import type { AuthContainer } from "../services/auth-container.js";
+import { fetchAccountQuotas, type AccountQuota, type QuotaInfo } from "../services/auth.js";
+import { recordQuota } from "../services/quota-monitor.js";
 
-export function quotaRoute(auth: AuthResult): Hono {
+/** Per model, the account with the most quota left: what a request can still use. */
+function bestPerModel(results: AccountQuota[]): QuotaInfo[] {
+  const best = new Map<string, QuotaInfo>();
+  for (const { quotas } of results) {
+    for (const quota of quotas) {
+      const current = best.get(quota.modelId);
+      if (!current || quota.fraction > current.fraction) best.set(quota.modelId, quota);
+    }
+  }
+  return [...best.values()].sort((a, b) => a.modelId.localeCompare(b.modelId));
+}
+
+export function quotaRoute(container: AuthContainer): Hono {
   const app = new Hono();
-  let cache: { data: QuotaInfo[]; ts: number } | null = null;
+  let cache: { data: { quotas: QuotaInfo[]; accounts: AccountQuota[] }; ts: number } | null = null;
 
   app.get("/quota", async (c) => {
-    try {
-      if (cache && Date.now() - cache.ts < 60_000) {
-        return c.json({ quotas: cache.data });
-      }
-      const quotas = await fetchQuota(auth.oauth2Client, auth.projectId);
-      cache = { data: quotas, ts: Date.now() };
-      return c.json({ quotas });
-    } catch (err) {
-      return c.json({ quotas: [], error: String(err) }, 500);
+    const { auth } = container;
+    if (!auth) {
+      return c.json({ quotas: [], accounts: [], error: "Not signed in" }, 401);
+    }
+    if (auth.method !== "gemini-cli-oauth") {
+      return c.json(
+        { quotas: [], accounts: [], error: "Quota information is only available with Gemini CLI OAuth" },
+        501,
+      );
+    }
+    if (cache && Date.now() - cache.ts < 60_000) {
+      return c.json(cache.data);
+    }
+    const accounts = await fetchAccountQuotas(auth.accounts);
+    recordQuota(accounts);
+
+    const failed = accounts.filter((a) => a.error);
+    if (failed.length === accounts.length) {
+      return c.json({ quotas: [], accounts, error: failed[0]?.error ?? "No accounts" }, 500);
     }
+    const data = { quotas: bestPerModel(accounts), accounts };
+    cache = { data, ts: Date.now() };
+    return c.json(data);
   });
 
   return app;
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { responsesRoute } from "./responses.js";
+import type { GeminiClient, GeminiResponse } from "../services/gemini-client.js";
+
+// Mock stats to avoid module state issues
+vi.mock("../stats.js", () => ({
+  clientFromHeaders: vi.fn(() => "test-client"),
+  startRequest: vi.fn(() => ({
+    observe: vi.fn(),
+    servedBy: vi.fn(),
+    tap: (stream: AsyncGenerator<unknown>) => stream,
+    finish: vi.fn(),
+  })),
+}));
+
+function textResponse(text: string): GeminiResponse {
+  return {
+    candidates: [
+      { content: { parts: [{ text }], role: "model" }, finishReason: "STOP" },
+    ],
+    usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+  };
+}
+
+function makeMockClient(overrides?: Partial<GeminiClient>): GeminiClient {
+  return {
+    generateContent: vi.fn().mockResolvedValue(textResponse("Hello!")),
+    generateContentStream: vi.fn(),
+    ...overrides,
+  } as GeminiClient;
+}
+
+function postJSON(app: any, body: any) {
+  return app.request("/v1/responses", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("responsesRoute", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 400 when input is missing", async () => {
+    const app = responsesRoute(makeMockClient());
+    const res = await postJSON(app, { model: "gemini-2.5-flash" });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.param).toBe("input");
+  });
+
+  it("returns a response object", async () => {
+    const client = makeMockClient();
+    const app = responsesRoute(client);
+    const res = await postJSON(app, {
+      model: "gemini-2.5-flash",
+      instructions: "Be brief.",
+      input: "Hi",
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.object).toBe("response");
+    expect(body.status).toBe("completed");
+    expect(body.output[0].content[0]).toEqual({
+      type: "output_text",
+      text: "Hello!",
+      annotations: [],
+    });
+
+    const [, requestBody] = vi.mocked(client.generateContent).mock.calls[0];
+    expect(requestBody).toMatchObject({
+      systemInstruction: { parts: [{ text: "Be brief." }] },
+      contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+    });
+  });
+
+  it("chains previous_response_id without resending history", async () => {
+    const client = makeMockClient({
+      generateContent: vi
+        .fn()
+        .mockResolvedValueOnce(textResponse("First answer"))
+        .mockResolvedValueOnce(textResponse("Second answer")),
+    });
+    const app = responsesRoute(client);
+
+    const first = await (await postJSON(app, { input: "First question" })).json();
+    const res = await postJSON(app, {
+      input: "Second question",
+      previous_response_id: first.id,
+    });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).previous_response_id).toBe(first.id);
+
+    const [, requestBody] = vi.mocked(client.generateContent).mock.calls[1];
+    expect((requestBody as any).contents).toEqual([
+      { role: "user", parts: [{ text: "First question" }] },
+      { role: "model", parts: [{ text: "First answer" }] },
+      { role: "user", parts: [{ text: "Second question" }] },
+    ]);
+  });
+
+  it("returns 400 for an unknown previous_response_id", async () => {
+    const app = responsesRoute(makeMockClient());
+    const res = await postJSON(app, { input: "Hi", previous_response_id: "resp_missing" });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.param).toBe("previous_response_id");
+  });
+
+  it("does not store responses when store is false", async () => {
+    const app = responsesRoute(makeMockClient());
+    const created = await (await postJSON(app, { input: "Hi", store: false })).json();
+
+    const res = await app.request(`/v1/responses/${created.id}`);
+    expect(res.status).toBe(404);
+  });
+
+  it("retrieves stored responses by id", async () => {
+    const app = responsesRoute(makeMockClient());
+    const created = await (await postJSON(app, { input: "Hi" })).json();
+
+    const res = await app.request(`/v1/responses/${created.id}`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).id).toBe(created.id);
+  });
+
+  it("streams typed events and stores the result", async () => {
+    async function* chunks(): AsyncGenerator<GeminiResponse> {
+      yield textResponse("Streamed");
+    }
+    const app = responsesRoute(
+      makeMockClient({ generateContentStream: vi.fn().mockReturnValue(chunks()) }),
+    );
+
+    const res = await postJSON(app, { input: "Hi", stream: true });
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    const text = await res.text();
+    expect(text).toContain("event: response.output_text.delta");
+    expect(text).toContain("event: response.completed");
+
+    const id = text.match(/"id":"(resp_[0-9a-f]+)"/)![1];
+    const stored = await app.request(`/v1/responses/${id}`);
+    expect(stored.status).toBe(200);
+  });
+});
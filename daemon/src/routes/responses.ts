@@ -0,0 +1,196 @@
+import { Hono } from "hono";
+import { stream as honoStream } from "hono/streaming";
+import type { GeminiClient } from "../services/gemini-client.js";
+import { buildRequestBody } from "../adapters/openai-to-gemini.js";
+import { applyPreset } from "../adapters/presets.js";
+import {
+  convertResponsesRequest,
+  normalizeInput,
+  type ResponsesInputItem,
+  type ResponsesRequest,
+} from "../adapters/responses-to-chat.js";
+import {
+  convertToResponsesObject,
+  responseId,
+  type ResponsesObject,
+} from "../adapters/gemini-to-responses.js";
+import { createResponsesSSEStream } from "../streaming/responses-sse.js";
+import { createResponseStore } from "../services/response-store.js";
+import { resolveModel } from "../services/gemini-client.js";
+import { generateWithFallback, openStream } from "../services/fallback.js";
+import { priorityFromHeaders } from "../services/scheduler.js";
+import {
+  disconnectSignal,
+  formatErrorResponse,
+  InvalidRequestError,
+  toUpstreamError,
+} from "../errors.js";
+import { clientFromHeaders, startRequest } from "../stats.js";
+
+export function responsesRoute(
+  client: GeminiClient,
+  defaultModel?: string,
+  verbose?: boolean,
+): Hono {
+  const app = new Hono();
+  const store = createResponseStore();
+
+  app.post("/v1/responses", async (c) => {
+    let body: ResponsesRequest;
+    try {
+      body = await c.req.json<ResponsesRequest>();
+    } catch {
+      return c.json(
+        formatErrorResponse("Invalid JSON in request body", "invalid_request_error"),
+        400,
+      );
+    }
+
+    if (typeof body.input !== "string" && !Array.isArray(body.input)) {
+      return c.json(
+        formatErrorResponse("'input' is required and must be a string or an array", "invalid_request_error", "input"),
+        400,
+      );
+    }
+
+    let history: ResponsesInputItem[] = [];
+    if (body.previous_response_id) {
+      const previous = store.get(body.previous_response_id);
+      if (!previous) {
+        return c.json(
+          formatErrorResponse(
+            `Previous response with id '${body.previous_response_id}' not found`,
+            "invalid_request_error",
+            "previous_response_id",
+          ),
+          400,
+        );
+      }
+      history = previous.items;
+    }
+
+    const model = resolveModel(body.model, defaultModel);
+    const clientName = c.get("client") ?? clientFromHeaders(c.req.raw.headers);
+    const priority = priorityFromHeaders(c.req.raw.headers);
+    const signal = disconnectSignal(c.req.raw);
+    const request = startRequest({
+      endpoint: "responses",
+      model,
+      client: clientName,
+      stream: !!body.stream,
+    });
+
+    if (verbose) {
+      console.log(`[request] route=responses model=${model} client=${clientName} history=${history.length} stream=${!!body.stream}`);
+    }
+
+    const id = responseId();
+    const save = (response: ResponsesObject) => {
+      if (body.store === false) return;
+      store.put(id, {
+        response,
+        items: [...history, ...normalizeInput(body.input), ...response.output],
+      });
+    };
+
+    try {
+      const requestBody = applyPreset(
+        buildRequestBody(convertResponsesRequest(body, history)),
+        body.model || defaultModel,
+      );
+
+      if (body.stream) {
+        const { model: served, stream: upstream } = await openStream(
+          client,
+          model,
+          requestBody,
+          { client: clientName, priority, signal },
+          verbose,
+        );
+        request.servedBy(served);
+        const sseStream = createResponsesSSEStream(request.tap(upstream), served, body, id, save);
+
+        c.header("x-gemini-daemon-served-model", served);
+        c.header("Content-Type", "text/event-stream");
+        c.header("Cache-Control", "no-cache");
+        c.header("Connection", "keep-alive");
+
+        return honoStream(c, async (stream) => {
+          const reader = sseStream.getReader();
+          try {
+            while (true) {
+              const { value, done } = await reader.read();
+              if (done) break;
+              await stream.write(value);
+            }
+          } finally {
+            reader.releaseLock();
+          }
+        });
+      }
+
+      // Non-streaming
+      const { model: served, response: result } = await generateWithFallback(
+        client,
+        model,
+        requestBody,
+        { client: clientName, priority, signal },
+        verbose,
+      );
+      request.servedBy(served);
+      request.observe(result);
+      request.finish(200);
+      const response = convertToResponsesObject(result, served, body, id);
+      save(response);
+
+      if (verbose) {
+        console.log(
+          `[response] route=responses model=${served} status=${response.status} tokens=${response.usage?.total_tokens ?? "?"}`,
+        );
+      }
+
+      c.header("x-gemini-daemon-served-model", served);
+      return c.json(response);
+    } catch (err: unknown) {
+      if (err instanceof InvalidRequestError) {
+        request.finish(400);
+        return c.json(formatErrorResponse(err.message, "invalid_request_error", err.param), 400);
+      }
+
+      const { status, message, retryAfter } = toUpstreamError(err);
+      request.finish(status);
+      if (retryAfter !== undefined) c.header("Retry-After", String(retryAfter));
+
+      if (verbose) {
+        console.error(`[error] route=responses model=${model} status=${status} message=${message}`);
+      }
+
+      if (status === 429) {
+        return c.json(formatErrorResponse(message, "rate_limit_error"), 429);
+      }
+      if (status === 401 || status === 403) {
+        return c.json(formatErrorResponse(message, "authentication_error"), 401);
+      }
+      if (status === 400) {
+        return c.json(formatErrorResponse(message, "invalid_request_error"), 400);
+      }
+      if (status === 503) {
+        return c.json(formatErrorResponse(message, "server_error"), 503);
+      }
+      return c.json(formatErrorResponse(message, "server_error"), 500);
+    }
+  });
+
+  app.get("/v1/responses/:id", (c) => {
+    const entry = store.get(c.req.param("id"));
+    if (!entry) {
+      return c.json(
+        formatErrorResponse(`Response with id '${c.req.param("id")}' not found`, "invalid_request_error"),
+        404,
+      );
+    }
+    return c.json(entry.response);
+  });
+
+  return app;
+}
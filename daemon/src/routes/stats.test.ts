@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { statsRoute } from "./stats.js";
+import { createScheduler } from "../services/scheduler.js";
+
+describe("statsRoute", () => {
+  it("defaults to today's window and keeps requests_by_model", async () => {
+    const res = await statsRoute().request("/stats");
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.window).toBe("today");
+    expect(body).toHaveProperty("requests_by_model");
+    expect(body).toHaveProperty("by_client");
+  });
+
+  it("includes the upstream queue when given a scheduler", async () => {
+    const scheduler = createScheduler();
+    const release = await scheduler.acquire("gemini-2.5-pro", "interactive");
+
+    const body = await (await statsRoute(scheduler).request("/stats")).json();
+    expect(body.queue).toEqual([
+      expect.objectContaining({ model: "gemini-2.5-pro", active: 1, queued: { interactive: 0, batch: 0 } }),
+    ]);
+    release();
+  });
+
+  it("rejects unknown windows", async () => {
+    const res = await statsRoute().request("/stats?window=forever");
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error.param).toBe("window");
+  });
+});
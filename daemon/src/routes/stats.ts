@@ -1,11 +1,27 @@
 import { Hono } from "hono";
-import { getStats } from "../stats.js";
+import { getStats, windowStart } from "../stats.js";
+import { formatErrorResponse } from "../errors.js";
+import type { Scheduler } from "../services/scheduler.js";
 
-export function statsRoute(): Hono {
+export function statsRoute(scheduler?: Scheduler): Hono {
   const app = new Hono();
 
   app.get("/stats", (c) => {
-    return c.json(getStats());
+    const window = c.req.query("window") ?? "today";
+    if (windowStart(window) === undefined) {
+      return c.json(
+        formatErrorResponse(
+          "'window' must be 'today' or a duration like '24h' or '7d'",
+          "invalid_request_error",
+          "window",
+        ),
+        400,
+      );
+    }
+    return c.json({
+      ...getStats(window),
+      ...(scheduler && { queue: scheduler.status() }),
+    });
   });
 
   return app;
@@ -1,22 +1,60 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import type { GeminiClient } from "./services/gemini-client.js";
-import type { AuthResult } from "./services/auth.js";
+import type { AuthContainer } from "./services/auth-container.js";
+import type { KeyStore } from "./services/api-keys.js";
+import { apiKeyAuth } from "./middleware/api-key-auth.js";
+import { clientLimits } from "./middleware/client-limits.js";
+import { createClientLimiter, type ClientLimiter } from "./services/client-limits.js";
+import { createScheduler, scheduleClient, type Scheduler } from "./services/scheduler.js";
+import { getConfig } from "./config.js";
 import { chatCompletionsRoute } from "./routes/chat-completions.js";
+import { messagesRoute } from "./routes/messages.js";
+import { responsesRoute } from "./routes/responses.js";
 import { modelsRoute } from "./routes/models.js";
+import { ollamaRoute } from "./routes/ollama.js";
+import { geminiNativeRoute } from "./routes/gemini-native.js";
 import { healthRoute } from "./routes/health.js";
+import { authRoute } from "./routes/auth.js";
 import { statsRoute } from "./routes/stats.js";
+import { metricsRoute } from "./routes/metrics.js";
 import { quotaRoute } from "./routes/quota.js";
+import { adminRoute } from "./routes/admin.js";
+
+// Endpoints that call a model, and so count against client limits
+const MODEL_PATHS = [
+  "/v1/chat/completions",
+  "/v1/messages",
+  "/v1/responses",
+  "/api/chat",
+  "/api/generate",
+  "/v1beta/models/*",
+  "/v1/models/*",
+];
 
 export interface ServerOptions {
   client: GeminiClient;
-  auth: AuthResult;
+  /** Current credentials; `/auth/login` swaps them in after a sign-in. */
+  auth: AuthContainer;
+  /** Client API keys; without a store, or while it is empty, requests need no key. */
+  keys?: KeyStore;
+  /** Per-client limits; defaults to one enforcing the config's `limits`. */
+  limiter?: ClientLimiter;
+  /** Upstream concurrency per model; defaults to one following the config's `scheduler`. */
+  scheduler?: Scheduler;
   defaultModel?: string;
   verbose?: boolean;
+  /** The daemon's loopback address for sign-in redirects; defaults to the standard port. */
+  origin?: string;
+  /** Accept `file://` media URLs in chat requests (only safe on loopback). */
+  allowLocalFiles?: boolean;
 }
 
 export function createServer(options: ServerOptions): Hono {
-  const { client, auth, defaultModel, verbose } = options;
+  const { auth, keys, defaultModel, verbose, allowLocalFiles } = options;
+  const limiter = options.limiter ?? createClientLimiter();
+  const scheduler = options.scheduler ?? createScheduler();
+  const client = scheduleClient(options.client, scheduler);
   const app = new Hono();
 
   app.use("*", cors({
@@ -24,17 +62,27 @@ export function createServer(options: ServerOptions): Hono {
       if (!origin) return origin; // allow non-browser requests
       try {
         const url = new URL(origin);
-        if (url.hostname === "localhost" || url.hostname === "127.0.0.1") return origin;
+        if (getConfig().cors.allowedHosts.includes(url.hostname)) return origin;
       } catch {}
       return null; // block external origins
     },
   }));
 
-  app.route("/", healthRoute(auth.method));
+  if (keys) app.use("*", apiKeyAuth(keys));
+  for (const path of MODEL_PATHS) app.use(path, clientLimits(limiter));
+
+  app.route("/", healthRoute(auth));
+  app.route("/", authRoute(auth, options.origin ?? "http://127.0.0.1:7965", verbose));
   app.route("/", modelsRoute());
-  app.route("/", chatCompletionsRoute(client, defaultModel, verbose));
-  app.route("/", statsRoute());
+  app.route("/", chatCompletionsRoute(client, defaultModel, verbose, allowLocalFiles));
+  app.route("/", messagesRoute(client, defaultModel, verbose));
+  app.route("/", responsesRoute(client, defaultModel, verbose));
+  app.route("/", ollamaRoute(client, defaultModel, verbose));
+  app.route("/", geminiNativeRoute(client, verbose));
+  app.route("/", statsRoute(scheduler));
+  app.route("/", metricsRoute());
   app.route("/", quotaRoute(auth));
+  app.route("/", adminRoute(limiter));
 
   return app;
 }
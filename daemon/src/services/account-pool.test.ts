@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createAccountPool } from "./account-pool.js";
+import type { AuthAccount } from "./auth.js";
+import { DEFAULT_CONFIG, setConfig, type AccountStrategy } from "../config.js";
+import { clearQuota, recordQuota } from "./quota-monitor.js";
+
+const MODEL = "gemini-2.5-pro";
+
+function accounts(...ids: string[]): AuthAccount[] {
+  return ids.map((id) => ({ id, oauth2Client: {} as any, projectId: `${id}-project`, credsPath: `/creds/${id}.json` }));
+}
+
+function useStrategy(strategy: AccountStrategy) {
+  setConfig({ ...DEFAULT_CONFIG, accounts: { ...DEFAULT_CONFIG.accounts, strategy } });
+}
+
+describe("createAccountPool", () => {
+  afterEach(() => {
+    setConfig(DEFAULT_CONFIG);
+    clearQuota();
+  });
+
+  it("rotates round-robin and skips accounts cooling down", () => {
+    const pool = createAccountPool(accounts("a", "b", "c"));
+    expect([1, 2, 3, 4].map(() => pool.pick(MODEL)!.id)).toEqual(["a", "b", "c", "a"]);
+
+    pool.cooldown("b", "429 Rate limit exceeded");
+    expect([1, 2, 3].map(() => pool.pick(MODEL)!.id)).toEqual(["c", "a", "c"]);
+  });
+
+  it("returns accounts to rotation after the cooldown", () => {
+    let now = 0;
+    const pool = createAccountPool(accounts("a", "b"), () => now);
+    pool.cooldown("a", "401");
+
+    expect(pool.status()[0]).toMatchObject({ id: "a", available: false, last_error: "401" });
+    now = DEFAULT_CONFIG.accounts.cooldownSeconds * 1000;
+    expect(pool.status()[0].available).toBe(true);
+  });
+
+  it("still serves from a cooling account when it's the only one left", () => {
+    const pool = createAccountPool(accounts("a"));
+    pool.cooldown("a", "429");
+
+    expect(pool.pick(MODEL)?.id).toBe("a");
+    expect(pool.pick(MODEL, undefined, new Set(["a"]))).toBeUndefined();
+  });
+
+  it("prefers the account with the most quota left", () => {
+    useStrategy("most-quota");
+    const quota = (percentLeft: number) => [
+      { modelId: MODEL, fraction: percentLeft / 100, percentLeft, resetTime: null, resetDescription: "" },
+    ];
+    recordQuota([
+      { account: "a", quotas: quota(10) },
+      { account: "b", quotas: quota(60) },
+      { account: "c", quotas: quota(0) },
+    ]);
+    const pool = createAccountPool(accounts("a", "b", "c"));
+
+    expect(pool.pick(MODEL)?.id).toBe("b");
+    expect(pool.pick(MODEL, undefined, new Set(["b"]))?.id).toBe("a");
+  });
+
+  it("pins each client to one account under the sticky strategy", () => {
+    useStrategy("sticky");
+    const pool = createAccountPool(accounts("a", "b"));
+
+    expect(pool.pick(MODEL, "ci")?.id).toBe("a");
+    expect(pool.pick(MODEL, "laptop")?.id).toBe("b");
+    expect(pool.pick(MODEL, "ci")?.id).toBe("a");
+
+    pool.cooldown("a", "429");
+    expect(pool.pick(MODEL, "ci")?.id).toBe("b");
+  });
+
+  it("forgets the least recently seen clients past the sticky limit", () => {
+    useStrategy("sticky");
+    const pool = createAccountPool(accounts("a", "b"));
+
+    expect(pool.pick(MODEL, "ci")?.id).toBe("a");
+    for (let i = 1; i <= 1000; i++) pool.pick(MODEL, `client-${i}`);
+    // Round-robin now points at b; a still-pinned client would stay on a
+    expect(pool.pick(MODEL, "ci")?.id).toBe("b");
+    expect(pool.pick(MODEL, "client-1000")?.id).toBe("a");
+  });
+
+  it("keeps accounts with a sliver of quota in rotation", () => {
+    const quota = (fraction: number) => [
+      { modelId: MODEL, fraction, percentLeft: Math.round(fraction * 100), resetTime: null, resetDescription: "" },
+    ];
+    recordQuota([
+      { account: "a", quotas: quota(0) },
+      { account: "b", quotas: quota(0.004) },
+    ]);
+    const pool = createAccountPool(accounts("a", "b"));
+
+    expect(pool.pick(MODEL)?.id).toBe("b");
+    expect(pool.pick(MODEL)?.id).toBe("b");
+  });
+});
@@ -0,0 +1,114 @@
+import type { AuthAccount } from "./auth.js";
+import { getConfig } from "../config.js";
+import { quotaLeft } from "./quota-monitor.js";
+
+export interface AccountStatus {
+  id: string;
+  project_id: string;
+  available: boolean;
+  /** ISO time the account returns to rotation, while it sits out. */
+  cooldown_until: string | null;
+  last_error: string | null;
+  /** ISO expiry of the current access token. */
+  token_expires_at: string | null;
+  /** Set while the refresh token is failing; usually means the user must log in again. */
+  refresh_error: string | null;
+}
+
+export interface AccountPool {
+  readonly size: number;
+  /**
+   * Choose an account for a request. Accounts cooling down or known to be out
+   * of quota for `model` are avoided while others remain; `exclude` (accounts
+   * already tried for this request) are never returned.
+   */
+  pick(model: string, client?: string, exclude?: ReadonlySet<string>): AuthAccount | undefined;
+  /** Take an account out of rotation for `accounts.cooldownSeconds`. */
+  cooldown(id: string, reason: string): void;
+  status(): AccountStatus[];
+}
+
+// Client names come from requests, so only the most recent ones stay pinned
+const MAX_STICKY_CLIENTS = 1000;
+
+/** Spreads requests over the configured accounts using `accounts.strategy`. */
+export function createAccountPool(
+  accounts: AuthAccount[],
+  now: () => number = Date.now,
+): AccountPool {
+  const cooldowns = new Map<string, { until: number; reason: string }>();
+  const sticky = new Map<string, string>();
+  let cursor = 0;
+
+  const coolingDown = (id: string) => (cooldowns.get(id)?.until ?? 0) > now();
+
+  function roundRobin(candidates: AuthAccount[]): AuthAccount {
+    for (let i = 0; i < accounts.length; i++) {
+      const account = accounts[(cursor + i) % accounts.length];
+      if (candidates.includes(account)) {
+        cursor = (accounts.indexOf(account) + 1) % accounts.length;
+        return account;
+      }
+    }
+    return candidates[0];
+  }
+
+  return {
+    size: accounts.length,
+
+    pick(model, client = "unknown", exclude) {
+      const remaining = accounts.filter((a) => !exclude?.has(a.id));
+      if (remaining.length === 0) return undefined;
+
+      const ready = remaining.filter((a) => !coolingDown(a.id));
+      const withQuota = ready.filter((a) => quotaLeft(a.id, model) !== 0);
+      // When everything is cooling down, use whichever comes back first
+      const candidates =
+        withQuota.length > 0
+          ? withQuota
+          : ready.length > 0
+            ? ready
+            : [...remaining].sort((a, b) => cooldowns.get(a.id)!.until - cooldowns.get(b.id)!.until);
+
+      switch (getConfig().accounts.strategy) {
+        case "most-quota": {
+          const left = (a: AuthAccount) => quotaLeft(a.id, model) ?? 1;
+          return candidates.reduce((best, a) => (left(a) > left(best) ? a : best));
+        }
+        case "sticky": {
+          const pinned = candidates.find((a) => a.id === sticky.get(client));
+          const account = pinned ?? roundRobin(candidates);
+          // Re-insert so the Map's order runs from least to most recently used
+          sticky.delete(client);
+          sticky.set(client, account.id);
+          if (sticky.size > MAX_STICKY_CLIENTS) sticky.delete(sticky.keys().next().value!);
+          return account;
+        }
+        default:
+          return roundRobin(candidates);
+      }
+    },
+
+    cooldown(id, reason) {
+      const seconds = getConfig().accounts.cooldownSeconds;
+      cooldowns.set(id, { until: now() + seconds * 1000, reason });
+    },
+
+    status() {
+      return accounts.map(({ id, projectId, oauth2Client, refreshError }) => {
+        const entry = cooldowns.get(id);
+        const cooling = coolingDown(id);
+        const expiry = oauth2Client.credentials?.expiry_date;
+        return {
+          id,
+          project_id: projectId,
+          available: !cooling,
+          cooldown_until: cooling ? new Date(entry!.until).toISOString() : null,
+          last_error: entry?.reason ?? null,
+          token_expires_at: expiry ? new Date(expiry).toISOString() : null,
+          refresh_error: refreshError ?? null,
+        };
+      });
+    },
+  };
+}
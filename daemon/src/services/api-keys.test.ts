@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createKeyStore } from "./api-keys.js";
+import { KeyStoreError } from "../errors.js";
+
+const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-keys-"));
+let n = 0;
+const freshPath = () => join(dir, `keys-${++n}.json`);
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("createKeyStore", () => {
+  it("is disabled until a key exists", () => {
+    const store = createKeyStore(freshPath());
+    expect(store.enabled()).toBe(false);
+    expect(store.list()).toEqual([]);
+
+    store.create("cursor");
+    expect(store.enabled()).toBe(true);
+  });
+
+  it("verifies keys by name and stores only their hash", () => {
+    const path = freshPath();
+    const store = createKeyStore(path);
+    const { key } = store.create("cursor");
+    store.create("ci");
+
+    expect(key).toMatch(/^gd-/);
+    expect(store.verify(key)).toBe("cursor");
+    expect(store.verify(key + "x")).toBeUndefined();
+    expect(readFileSync(path, "utf-8")).not.toContain(key);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(store.list()).toEqual([
+      { name: "cursor", prefix: key.slice(0, 7), created_at: expect.any(String) },
+      expect.objectContaining({ name: "ci" }),
+    ]);
+  });
+
+  it("rejects duplicate and malformed names", () => {
+    const store = createKeyStore(freshPath());
+    store.create("cursor");
+
+    expect(() => store.create("cursor")).toThrow("already exists");
+    expect(() => store.create("has space")).toThrow("Key names");
+  });
+
+  it("revokes keys", () => {
+    const store = createKeyStore(freshPath());
+    const { key } = store.create("cursor");
+
+    expect(store.revoke("cursor")).toBe(true);
+    expect(store.revoke("cursor")).toBe(false);
+    expect(store.verify(key)).toBeUndefined();
+    expect(store.enabled()).toBe(false);
+  });
+
+  it("sees keys another process created", () => {
+    const path = freshPath();
+    const daemon = createKeyStore(path);
+    expect(daemon.enabled()).toBe(false);
+
+    const { key } = createKeyStore(path).create("cli");
+
+    expect(daemon.verify(key)).toBe("cli");
+  });
+
+  it("fails closed on a corrupt file and logs it once", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const path = freshPath();
+    writeFileSync(path, "{ not json");
+    const store = createKeyStore(path);
+
+    expect(store.enabled()).toBe(true);
+    expect(() => store.verify("gd-anything")).toThrow(KeyStoreError);
+    expect(() => store.create("cursor")).toThrow("fix or remove it");
+    expect(readFileSync(path, "utf-8")).toBe("{ not json");
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][0]).toContain(path);
+    error.mockRestore();
+  });
+});
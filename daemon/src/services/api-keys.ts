@@ -0,0 +1,134 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { chmodSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { keysPath } from "../paths.js";
+import { KeyStoreError } from "../errors.js";
+
+/** A stored key. Only its hash is kept; the key itself is shown once, on creation. */
+export interface ApiKeyRecord {
+  name: string;
+  /** SHA-256 of the key, hex. */
+  hash: string;
+  /** The first characters of the key, to tell keys apart in `keys list`. */
+  prefix: string;
+  created_at: string;
+}
+
+export interface KeyStore {
+  /**
+   * True once any key exists; until then requests need no key. Also true
+   * while the file is invalid, so requests fail closed. Every other method
+   * throws a KeyStoreError then.
+   */
+  enabled(): boolean;
+  /** Add a key called `name` and return it. */
+  create(name: string): { name: string; key: string };
+  list(): Omit<ApiKeyRecord, "hash">[];
+  /** Delete the key called `name`; false if there is none. */
+  revoke(name: string): boolean;
+  /** The name of the key `token` matches, if any. */
+  verify(token: string): string | undefined;
+}
+
+const KEY_PREFIX = "gd-";
+const NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+function hashKey(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+/**
+ * Client API keys in a JSON file (default `keys.json` in the data dir). The
+ * file is re-read when it changes, so keys created or revoked from the CLI
+ * apply to a running daemon.
+ */
+export function createKeyStore(path = keysPath()): KeyStore {
+  let cache: { mtimeMs: number; keys: ApiKeyRecord[] } | { mtimeMs: number; error: KeyStoreError } | undefined;
+
+  function load(): ApiKeyRecord[] {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(path).mtimeMs;
+    } catch {
+      cache = undefined;
+      return [];
+    }
+    if (cache?.mtimeMs !== mtimeMs) {
+      try {
+        const data = JSON.parse(readFileSync(path, "utf-8")) as { keys?: ApiKeyRecord[] };
+        const keys = data.keys ?? [];
+        if (!Array.isArray(keys)) throw new Error("'keys' must be an array");
+        cache = { mtimeMs, keys };
+      } catch (err) {
+        // Logged once per version of the file, not on every request
+        cache = { mtimeMs, error: new KeyStoreError(path, (err as Error).message) };
+        console.error(`[keys] rejected ${cache.error.message}; refusing requests until then`);
+      }
+    }
+    if ("error" in cache) throw cache.error;
+    return cache.keys;
+  }
+
+  function save(keys: ApiKeyRecord[]): void {
+    mkdirSync(dirname(path), { recursive: true });
+    const tmp = join(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+    writeFileSync(tmp, JSON.stringify({ keys }, null, 2) + "\n", { mode: 0o600 });
+    chmodSync(tmp, 0o600);
+    renameSync(tmp, path);
+    cache = undefined;
+  }
+
+  return {
+    enabled() {
+      try {
+        return load().length > 0;
+      } catch (err) {
+        if (err instanceof KeyStoreError) return true;
+        throw err;
+      }
+    },
+
+    create(name) {
+      if (!NAME_PATTERN.test(name)) {
+        throw new Error("Key names may only use letters, digits, '.', '_' and '-' (up to 64)");
+      }
+      const keys = load();
+      if (keys.some((k) => k.name === name)) throw new Error(`A key named '${name}' already exists`);
+
+      const key = KEY_PREFIX + randomBytes(24).toString("base64url");
+      save([
+        ...keys,
+        {
+          name,
+          hash: hashKey(key).toString("hex"),
+          prefix: key.slice(0, KEY_PREFIX.length + 4),
+          created_at: new Date().toISOString(),
+        },
+      ]);
+      return { name, key };
+    },
+
+    list() {
+      return load().map(({ name, prefix, created_at }) => ({ name, prefix, created_at }));
+    },
+
+    revoke(name) {
+      const keys = load();
+      const remaining = keys.filter((k) => k.name !== name);
+      if (remaining.length === keys.length) return false;
+      save(remaining);
+      return true;
+    },
+
+    verify(token) {
+      const hash = hashKey(token);
+      // Compare against every key so timing doesn't reveal which one matched
+      let match: string | undefined;
+      for (const record of load()) {
+        const stored = Buffer.from(record.hash, "hex");
+        if (stored.length === hash.length && timingSafeEqual(stored, hash)) match ??= record.name;
+      }
+      return match;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterAll, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, type FSWatcher } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const { mockReloadAccount, mockResolveAuth } = vi.hoisted(() => ({
+  mockReloadAccount: vi.fn(),
+  mockResolveAuth: vi.fn(),
+}));
+
+vi.mock("./auth.js", () => ({
+  reloadAccount: mockReloadAccount,
+  resolveAuth: mockResolveAuth,
+}));
+
+import { createAuthContainer, watchCredentials } from "./auth-container.js";
+import type { AuthResult } from "./auth.js";
+
+const apiKeyAuth: AuthResult = { method: "api-key", apiKey: "test-key", accounts: [] };
+
+describe("createAuthContainer", () => {
+  it("starts signed out and rejects requests with 401", async () => {
+    const container = createAuthContainer();
+
+    expect(container.auth).toBeUndefined();
+    expect(container.pool).toBeUndefined();
+    await expect(container.client.generateContent("gemini-2.5-flash", {})).rejects.toMatchObject({
+      status: 401,
+      message: expect.stringContaining("gemini-daemon login"),
+    });
+  });
+
+  it("rejects streams while signed out", async () => {
+    const stream = createAuthContainer().client.generateContentStream("gemini-2.5-flash", {});
+    await expect(stream.next()).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("swaps in credentials after a sign-in", () => {
+    const container = createAuthContainer();
+    container.set(apiKeyAuth);
+
+    expect(container.auth?.method).toBe("api-key");
+    expect(container.pool?.size).toBe(0);
+  });
+});
+
+describe("watchCredentials", () => {
+  const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-watch-"));
+  const alice = join(dir, "alice.json");
+  let watchers: FSWatcher[] = [];
+
+  afterEach(() => {
+    watchers.forEach((w) => w.close());
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("reloads the account whose file changed", async () => {
+    const account = { id: "alice", credsPath: alice, projectId: "p", oauth2Client: {} as any };
+    const container = createAuthContainer({ ...apiKeyAuth, accounts: [account] });
+    watchers = watchCredentials(container, [alice]);
+
+    writeFileSync(alice, "{}");
+
+    await vi.waitFor(() => expect(mockReloadAccount).toHaveBeenCalledWith(account));
+  });
+
+  it("signs a signed-out daemon in when a login appears", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    mockResolveAuth.mockResolvedValue(apiKeyAuth);
+    const container = createAuthContainer();
+    watchers = watchCredentials(container, [alice]);
+
+    writeFileSync(alice, "{}");
+
+    await vi.waitFor(() => expect(container.auth?.method).toBe("api-key"));
+  });
+
+  it("ignores other files in the directory", async () => {
+    const container = createAuthContainer();
+    watchers = watchCredentials(container, [alice]);
+
+    writeFileSync(join(dir, "notes.txt"), "hi");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(mockResolveAuth).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { credentialPaths, reloadAccount, resolveAuth, type AuthResult } from "./auth.js";
+import { createAccountPool, type AccountPool } from "./account-pool.js";
+import { getClient, type GeminiClient } from "./gemini-client.js";
+import { NotAuthenticatedError } from "../errors.js";
+
+export interface AuthContainer {
+  /** The resolved credentials, or undefined until someone signs in. */
+  readonly auth: AuthResult | undefined;
+  /** Accounts behind `client`, reported by `/health`. */
+  readonly pool: AccountPool | undefined;
+  /** Delegates to the client for the current credentials; rejects with 401 while signed out. */
+  readonly client: GeminiClient;
+  /** Swap in new credentials, e.g. after a login. In-flight requests keep the old client. */
+  set(auth: AuthResult): void;
+}
+
+/**
+ * Holds the daemon's credentials so routes built at startup keep working when
+ * they change: the daemon can start signed out and sign in later.
+ */
+export function createAuthContainer(initial?: AuthResult, verbose?: boolean): AuthContainer {
+  let current: { auth: AuthResult; pool: AccountPool; client: GeminiClient } | undefined;
+
+  function set(auth: AuthResult): void {
+    const pool = createAccountPool(auth.accounts);
+    current = { auth, pool, client: getClient(auth, verbose, pool) };
+  }
+
+  function active(): GeminiClient {
+    if (!current) throw new NotAuthenticatedError();
+    return current.client;
+  }
+
+  if (initial) set(initial);
+
+  return {
+    get auth() {
+      return current?.auth;
+    },
+    get pool() {
+      return current?.pool;
+    },
+    client: {
+      async generateContent(model, body, options) {
+        return active().generateContent(model, body, options);
+      },
+      async *generateContentStream(model, body, options) {
+        yield* active().generateContentStream(model, body, options);
+      },
+    },
+    set,
+  };
+}
+
+async function credentialsChanged(container: AuthContainer, path: string): Promise<void> {
+  const account = container.auth?.accounts.find((a) => a.credsPath === path);
+  if (account) {
+    await reloadAccount(account);
+    return;
+  }
+  if (container.auth) return;
+
+  // Signed out, e.g. `gemini-daemon login` ran while the daemon was up
+  try {
+    container.set(await resolveAuth());
+    console.log(`[auth] signed in with ${path}`);
+  } catch (err) {
+    console.error(`[auth] still signed out: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Watch the credential files for logins made elsewhere (Gemini CLI, the
+ * `login` command): the matching account gets a fresh client, or a signed-out
+ * daemon signs in.
+ */
+export function watchCredentials(container: AuthContainer, paths = credentialPaths()): FSWatcher[] {
+  const watchers: FSWatcher[] = [];
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  for (const dir of new Set(paths.map((p) => dirname(p)))) {
+    try {
+      const watcher = watch(dir, (_event, changed) => {
+        const path = changed && join(dir, basename(String(changed)));
+        if (!path || !paths.includes(path)) return;
+        clearTimeout(timers.get(path));
+        timers.set(path, setTimeout(() => void credentialsChanged(container, path), 100));
+      });
+      watcher.unref();
+      watchers.push(watcher);
+    } catch {
+      // Directory doesn't exist (yet); a restart picks it up
+    }
+  }
+  return watchers;
+}
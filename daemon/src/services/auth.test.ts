@@ -23,8 +23,12 @@ vi.mock("node:fs", async (importOriginal) => {
 // Mock google-auth-library with a proper class constructor
 vi.mock("google-auth-library", () => ({
   OAuth2Client: class MockOAuth2Client {
+    credentials: Record<string, unknown> = {};
     getAccessToken = mockGetAccessToken;
-    setCredentials = mockSetCredentials;
+    setCredentials = (creds: Record<string, unknown>) => {
+      this.credentials = creds;
+      mockSetCredentials(creds);
+    };
     on = mockOn;
   },
 }));
@@ -33,6 +37,9 @@ vi.mock("google-auth-library", () => ({
 vi.stubGlobal("fetch", mockFetch);
 
 import { readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { OAuthAuthResult } from "./auth.js";
 
 const sampleCreds = JSON.stringify({
   access_token: "ya29.test",
@@ -71,13 +78,51 @@ describe("auth", () => {
       });
 
       const { resolveAuth } = await loadAuth();
-      const result = await resolveAuth();
+      const result = (await resolveAuth()) as OAuthAuthResult;
 
       expect(result.method).toBe("gemini-cli-oauth");
       expect(result.projectId).toBe("test-project");
       expect(result.oauth2Client).toBeTruthy();
     });
 
+    it("loads every configured account and skips ones that fail", async () => {
+      const { DEFAULT_CONFIG, setConfig } = await import("../config.js");
+      setConfig({
+        ...DEFAULT_CONFIG,
+        accounts: { ...DEFAULT_CONFIG.accounts, credentials: ["/creds/alice.json", "/creds/bob.json"] },
+      });
+      vi.mocked(readFile).mockImplementation(async (path) => {
+        if (String(path).includes("bob")) throw new Error("ENOENT");
+        return sampleCreds;
+      });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ cloudaicompanionProject: "alice-project" }),
+      });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const { resolveAuth } = await loadAuth();
+      const result = (await resolveAuth()) as OAuthAuthResult;
+
+      expect(result.accounts.map((a) => a.id)).toEqual(["alice"]);
+      expect(result.projectId).toBe("alice-project");
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("skipping /creds/bob.json"));
+    });
+
+    it("uses an API key for the gemini-api backend", async () => {
+      const { DEFAULT_CONFIG, setConfig } = await import("../config.js");
+      setConfig({ ...DEFAULT_CONFIG, backend: "gemini-api", apiKey: "from-config" });
+      process.env.GEMINI_API_KEY = "from-env";
+
+      try {
+        const { resolveAuth } = await loadAuth();
+        expect(await resolveAuth()).toEqual({ method: "api-key", apiKey: "from-env", accounts: [] });
+        expect(readFile).not.toHaveBeenCalled();
+      } finally {
+        delete process.env.GEMINI_API_KEY;
+      }
+    });
+
     it("throws when credential file is missing", async () => {
       vi.mocked(readFile).mockRejectedValue(new Error("ENOENT"));
 
@@ -163,11 +208,12 @@ describe("auth", () => {
       const mockOAuth2Client = {
         getAccessToken: mockGetAccessToken,
       } as any;
-      const quotas = await fetchQuota(mockOAuth2Client, "test-project");
+      const quotas = await fetchQuota(mockOAuth2Client, "test-project", "default");
 
       expect(quotas).toHaveLength(2);
       const flash = quotas.find((q) => q.modelId === "gemini-2.5-flash");
       expect(flash?.percentLeft).toBe(50);
+      expect(flash?.fraction).toBe(0.5);
       const pro = quotas.find((q) => q.modelId === "gemini-2.5-pro");
       expect(pro?.percentLeft).toBe(90);
     });
@@ -188,7 +234,7 @@ describe("auth", () => {
       const mockOAuth2Client = {
         getAccessToken: mockGetAccessToken,
       } as any;
-      const quotas = await fetchQuota(mockOAuth2Client, "test-project");
+      const quotas = await fetchQuota(mockOAuth2Client, "test-project", "default");
 
       expect(quotas).toHaveLength(1);
       expect(quotas[0].modelId).toBe("gemini-2.5-flash");
@@ -213,7 +259,7 @@ describe("auth", () => {
       const mockOAuth2Client = {
         getAccessToken: mockGetAccessToken,
       } as any;
-      const quotas = await fetchQuota(mockOAuth2Client, "test-project");
+      const quotas = await fetchQuota(mockOAuth2Client, "test-project", "default");
 
       expect(quotas[0].resetDescription).toBe("Resets in 2h 30m");
     });
@@ -228,9 +274,96 @@ describe("auth", () => {
       const mockOAuth2Client = {
         getAccessToken: mockGetAccessToken,
       } as any;
-      const quotas = await fetchQuota(mockOAuth2Client, "test-project");
+      const quotas = await fetchQuota(mockOAuth2Client, "test-project", "default");
 
       expect(quotas).toEqual([]);
     });
   });
+
+  describe("credential updates", () => {
+    let dir: string;
+    let credsPath: string;
+
+    beforeEach(async () => {
+      const { mkdtempSync } = await vi.importActual<typeof import("node:fs")>("node:fs");
+      dir = mkdtempSync(join(tmpdir(), "gemini-daemon-auth-"));
+      credsPath = join(dir, "alice.json");
+      const { DEFAULT_CONFIG, setConfig } = await import("../config.js");
+      setConfig({ ...DEFAULT_CONFIG, accounts: { ...DEFAULT_CONFIG.accounts, credentials: [credsPath] } });
+      vi.mocked(readFile).mockResolvedValue(sampleCreds);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ cloudaicompanionProject: "alice-project" }),
+      });
+    });
+
+    afterEach(async () => {
+      const { rmSync } = await vi.importActual<typeof import("node:fs")>("node:fs");
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function readStore() {
+      const actual = await vi.importActual<typeof import("node:fs")>("node:fs");
+      return JSON.parse(actual.readFileSync(credsPath, "utf-8"));
+    }
+
+    function tokensListener(): (tokens: object) => void {
+      return mockOn.mock.calls.find(([event]) => event === "tokens")![1];
+    }
+
+    it("writes refreshed tokens back to the credentials file", async () => {
+      const { resolveAuth } = await loadAuth();
+      await resolveAuth();
+
+      tokensListener()({ access_token: "ya29.refreshed", expiry_date: 1800000000000, id_token: null });
+
+      await vi.waitFor(async () => {
+        expect(await readStore()).toEqual({
+          ...JSON.parse(sampleCreds),
+          access_token: "ya29.refreshed",
+          expiry_date: 1800000000000,
+        });
+      });
+      const { statSync } = await vi.importActual<typeof import("node:fs")>("node:fs");
+      expect(statSync(credsPath).mode & 0o777).toBe(0o600);
+    });
+
+    it("leaves a file that now holds a different login alone", async () => {
+      const { resolveAuth } = await loadAuth();
+      await resolveAuth();
+      vi.mocked(readFile).mockResolvedValue(JSON.stringify({ refresh_token: "1//someone-else" }));
+
+      tokensListener()({ access_token: "ya29.refreshed" });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const { existsSync } = await vi.importActual<typeof import("node:fs")>("node:fs");
+      expect(existsSync(credsPath)).toBe(false);
+    });
+
+    it("swaps the account's client when the file holds a new login", async () => {
+      const { resolveAuth, reloadAccount } = await loadAuth();
+      const [account] = (await resolveAuth()).accounts;
+      const previous = account.oauth2Client;
+      account.refreshError = "invalid_grant";
+
+      vi.mocked(readFile).mockResolvedValue(
+        JSON.stringify({ ...JSON.parse(sampleCreds), refresh_token: "1//new-login" }),
+      );
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      expect(await reloadAccount(account)).toBe(true);
+      expect(account.oauth2Client).not.toBe(previous);
+      expect(account.oauth2Client.credentials.refresh_token).toBe("1//new-login");
+      expect(account.refreshError).toBeUndefined();
+    });
+
+    it("ignores changes that keep the same login", async () => {
+      const { resolveAuth, reloadAccount } = await loadAuth();
+      const [account] = (await resolveAuth()).accounts;
+      const previous = account.oauth2Client;
+
+      expect(await reloadAccount(account)).toBe(false);
+      expect(account.oauth2Client).toBe(previous);
+    });
+  });
 });
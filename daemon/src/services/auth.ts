@@ -1,18 +1,53 @@
-import { OAuth2Client } from "google-auth-library";
+import { GoogleAuth, OAuth2Client, type Credentials } from "google-auth-library";
 import { readFile } from "node:fs/promises";
-import { readFileSync } from "node:fs";
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
-import { join, dirname } from "node:path";
+import { basename, dirname, extname, join } from "node:path";
 import { fileURLToPath } from "node:url";
+import { setQuotaRemaining } from "../metrics.js";
+import { getConfig, type VertexConfig } from "../config.js";
+import { credentialsPath } from "../paths.js";
 
-export type AuthMethod = "gemini-cli-oauth";
 
-export interface AuthResult {
+/** One Gemini CLI login. */
+export interface AuthAccount {
+  /** Credential file name without extension, unique within the pool. */
+  id: string;
+  /** Swapped for a new client when the credentials file changes. */
   oauth2Client: OAuth2Client;
   projectId: string;
-  method: AuthMethod;
+  credsPath: string;
+  /** Why the last token refresh failed; cleared once one succeeds. */
+  refreshError?: string;
 }
 
+export interface OAuthAuthResult {
+  method: "gemini-cli-oauth";
+  /** The first account; kept for callers that only need one. */
+  oauth2Client: OAuth2Client;
+  projectId: string;
+  accounts: AuthAccount[];
+}
+
+/** An AI Studio key for the public Gemini API. No OAuth accounts or quota data. */
+export interface ApiKeyAuthResult {
+  method: "api-key";
+  apiKey: string;
+  accounts: AuthAccount[];
+}
+
+/** Vertex AI with a service account or Application Default Credentials. */
+export interface VertexAuthResult {
+  method: "vertex";
+  googleAuth: GoogleAuth;
+  accounts: AuthAccount[];
+}
+
+export type AuthResult = OAuthAuthResult | ApiKeyAuthResult | VertexAuthResult;
+
+/** Which backend is active, as reported by `/health`. */
+export type AuthMethod = AuthResult["method"];
+
 // Load Gemini CLI OAuth credentials from environment or config file.
 // These are the public credentials embedded in Google's open-source gemini-cli.
 function loadOAuthCredentials(): { clientId: string; clientSecret: string } {
@@ -44,14 +79,25 @@ function loadOAuthCredentials(): { clientId: string; clientSecret: string } {
   }
 }
 
-const { clientId: GEMINI_CLI_CLIENT_ID, clientSecret: GEMINI_CLI_CLIENT_SECRET } =
-  loadOAuthCredentials();
+// Loaded on first use so API-key setups don't need the OAuth client file
+let oauthCredentials: { clientId: string; clientSecret: string } | undefined;
+
+/** An OAuth client using the Gemini CLI client ID and the configured endpoints. */
+export function createOAuthClient(redirectUri?: string): OAuth2Client {
+  oauthCredentials ??= loadOAuthCredentials();
+  const { authUrl, tokenUrl } = getConfig().oauth;
+  return new OAuth2Client({
+    clientId: oauthCredentials.clientId,
+    clientSecret: oauthCredentials.clientSecret,
+    redirectUri,
+    endpoints: { oauth2AuthBaseUrl: authUrl, oauth2TokenUrl: tokenUrl },
+  });
+}
 
 const OAUTH_CREDS_PATH = join(homedir(), ".gemini", "oauth_creds.json");
 
-const CODE_ASSIST_BASE = "https://cloudcode-pa.googleapis.com/v1internal";
-
-interface OAuthCreds {
+/** The credentials file format shared with Gemini CLI. */
+export interface OAuthCreds {
   access_token: string;
   refresh_token: string;
   expiry_date: number;
@@ -59,6 +105,45 @@ interface OAuthCreds {
   token_type: string;
 }
 
+/**
+ * Replace `path` with `creds`, readable only by the current user. The write
+ * goes through a temporary file so readers never see a partial file.
+ */
+export function writeCredentials(creds: OAuthCreds, path: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = join(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+  writeFileSync(tmp, JSON.stringify(creds, null, 2) + "\n", { mode: 0o600 });
+  // `mode` only applies when the file is created
+  chmodSync(tmp, 0o600);
+  renameSync(tmp, path);
+}
+
+/** Merge tokens from a refresh into the credentials file the client came from. */
+async function saveRefreshedTokens(
+  oauth2Client: OAuth2Client,
+  credsPath: string,
+  tokens: Credentials,
+): Promise<void> {
+  let creds: Partial<OAuthCreds> = {};
+  try {
+    creds = JSON.parse(await readFile(credsPath, "utf-8"));
+  } catch {
+    // Missing or unreadable; rebuild it from the client
+  }
+  // A newer login replaced the file; don't overwrite it with this one's tokens
+  if (creds.refresh_token && creds.refresh_token !== oauth2Client.credentials.refresh_token) return;
+
+  const updates = Object.fromEntries(Object.entries(tokens).filter(([, value]) => value != null));
+  writeCredentials(
+    {
+      ...creds,
+      refresh_token: oauth2Client.credentials.refresh_token ?? undefined,
+      ...updates,
+    } as OAuthCreds,
+    credsPath,
+  );
+}
+
 async function getAccessToken(oauth2Client: OAuth2Client): Promise<string> {
   const tokenRes = await oauth2Client.getAccessToken();
   if (!tokenRes.token) throw new Error("Failed to obtain access token");
@@ -72,7 +157,7 @@ async function loadProjectId(oauth2Client: OAuth2Client): Promise<string> {
 
   const token = await getAccessToken(oauth2Client);
 
-  const res = await fetch(`${CODE_ASSIST_BASE}:loadCodeAssist`, {
+  const res = await fetch(`${getConfig().upstreamBaseUrl}:loadCodeAssist`, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${token}`,
@@ -116,6 +201,8 @@ async function loadProjectId(oauth2Client: OAuth2Client): Promise<string> {
 
 export interface QuotaInfo {
   modelId: string;
+  /** Remaining fraction (0-1) as reported; `percentLeft` is it rounded for display. */
+  fraction: number;
   percentLeft: number;
   resetTime: string | null;
   resetDescription: string;
@@ -130,12 +217,14 @@ function formatResetTime(resetTime: string): string {
   return `Resets in ${minutes}m`;
 }
 
+/** Quota per model for one account; `account` labels its metrics. */
 export async function fetchQuota(
   oauth2Client: OAuth2Client,
   projectId: string,
+  account: string,
 ): Promise<QuotaInfo[]> {
   const token = await getAccessToken(oauth2Client);
-  const res = await fetch(`${CODE_ASSIST_BASE}:retrieveUserQuota`, {
+  const res = await fetch(`${getConfig().upstreamBaseUrl}:retrieveUserQuota`, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${token}`,
@@ -182,8 +271,10 @@ export async function fetchQuota(
 
   const quotas: QuotaInfo[] = [];
   for (const [modelId, info] of byModel) {
+    setQuotaRemaining(account, modelId, info.fraction);
     quotas.push({
       modelId,
+      fraction: info.fraction,
       percentLeft: Math.round(info.fraction * 100),
       resetTime: info.resetTime,
       resetDescription: info.resetTime
@@ -197,14 +288,37 @@ export async function fetchQuota(
   return quotas;
 }
 
-export async function resolveAuth(): Promise<AuthResult> {
+export interface AccountQuota {
+  account: string;
+  quotas: QuotaInfo[];
+  error?: string;
+}
+
+/** `fetchQuota` for every account; a failing account reports its error instead. */
+export async function fetchAccountQuotas(accounts: AuthAccount[]): Promise<AccountQuota[]> {
+  return Promise.all(
+    accounts.map(async ({ id, oauth2Client, projectId }) => {
+      try {
+        return { account: id, quotas: await fetchQuota(oauth2Client, projectId, id) };
+      } catch (err) {
+        return { account: id, quotas: [], error: String(err) };
+      }
+    }),
+  );
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+async function loadAccount(credsPath: string, id: string): Promise<AuthAccount> {
   let raw: string;
   try {
-    raw = await readFile(OAUTH_CREDS_PATH, "utf-8");
+    raw = await readFile(credsPath, "utf-8");
   } catch {
     throw new Error(
-      `No OAuth credentials found at ${OAUTH_CREDS_PATH}. ` +
-        "Run `gemini auth login` to authenticate.",
+      `No OAuth credentials found at ${credsPath}. ` +
+        "Run `gemini-daemon login` to authenticate.",
     );
   }
 
@@ -213,22 +327,19 @@ export async function resolveAuth(): Promise<AuthResult> {
     creds = JSON.parse(raw);
   } catch {
     throw new Error(
-      `Failed to parse ${OAUTH_CREDS_PATH}. ` +
+      `Failed to parse ${credsPath}. ` +
         "Try running `gemini auth login` again.",
     );
   }
 
   if (!creds.refresh_token) {
     throw new Error(
-      `No refresh_token in ${OAUTH_CREDS_PATH}. ` +
+      `No refresh_token in ${credsPath}. ` +
         "Run `gemini auth login` to re-authenticate.",
     );
   }
 
-  const oauth2Client = new OAuth2Client(
-    GEMINI_CLI_CLIENT_ID,
-    GEMINI_CLI_CLIENT_SECRET,
-  );
+  const oauth2Client = createOAuthClient();
 
   oauth2Client.setCredentials({
     access_token: creds.access_token,
@@ -236,6 +347,11 @@ export async function resolveAuth(): Promise<AuthResult> {
     expiry_date: creds.expiry_date,
     token_type: creds.token_type,
   });
+  oauth2Client.on("tokens", (tokens) => {
+    saveRefreshedTokens(oauth2Client, credsPath, tokens).catch((err) => {
+      console.error(`[auth] failed to save refreshed token to ${credsPath}: ${(err as Error).message}`);
+    });
+  });
 
   // Verify we can get a valid token (triggers refresh if expired)
   try {
@@ -251,6 +367,130 @@ export async function resolveAuth(): Promise<AuthResult> {
   // Get project ID from Code Assist API
   const projectId = await loadProjectId(oauth2Client);
 
-  console.log("[auth] Using gemini-cli OAuth credentials");
-  return { oauth2Client, projectId, method: "gemini-cli-oauth" };
+  return { id, oauth2Client, projectId, credsPath };
+}
+
+/**
+ * Re-read an account's credentials file after it changed. When it holds a
+ * different login (a new refresh token), swap in a client for it. Our own
+ * token write-backs keep the refresh token, so they are ignored.
+ */
+export async function reloadAccount(account: AuthAccount): Promise<boolean> {
+  let creds: Partial<OAuthCreds>;
+  try {
+    creds = JSON.parse(await readFile(account.credsPath, "utf-8"));
+  } catch {
+    // Deleted or caught mid-write; keep the current client
+    return false;
+  }
+  if (!creds.refresh_token || creds.refresh_token === account.oauth2Client.credentials.refresh_token) {
+    return false;
+  }
+
+  try {
+    const next = await loadAccount(account.credsPath, account.id);
+    account.oauth2Client = next.oauth2Client;
+    account.projectId = next.projectId;
+    account.refreshError = undefined;
+    console.log(`[auth] reloaded credentials for ${account.id}`);
+    return true;
+  } catch (err) {
+    account.refreshError = (err as Error).message;
+    console.error(`[auth] failed to reload ${account.credsPath}: ${account.refreshError}`);
+    return false;
+  }
+}
+
+function resolveApiKey(): ApiKeyAuthResult {
+  const apiKey = process.env.GEMINI_API_KEY || getConfig().apiKey;
+  if (!apiKey) {
+    throw new Error(
+      "backend is 'gemini-api' but no API key is set. " +
+        "Set GEMINI_API_KEY or apiKey in the config file.",
+    );
+  }
+  console.log("[auth] Using Gemini API key");
+  return { method: "api-key", apiKey, accounts: [] };
+}
+
+/** Credentials for Vertex AI: the configured service-account file, else ADC. */
+export function createVertexAuth(vertex: VertexConfig): GoogleAuth {
+  return new GoogleAuth({
+    keyFile: vertex.credentials ? expandHome(vertex.credentials) : undefined,
+    scopes: ["https://www.googleapis.com/auth/cloud-platform"],
+  });
+}
+
+async function resolveVertex(vertex: VertexConfig): Promise<VertexAuthResult> {
+  const googleAuth = createVertexAuth(vertex);
+  try {
+    await googleAuth.getAccessToken();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(
+      `Failed to obtain Vertex AI credentials: ${message}. ` +
+        "Set vertex.credentials to a service-account file or run `gcloud auth application-default login`.",
+    );
+  }
+  console.log(`[auth] Using Vertex AI (project ${vertex.project}, ${vertex.region})`);
+  return { method: "vertex", googleAuth, accounts: [] };
+}
+
+/**
+ * With the `gemini-api` backend, use an API key; with `vertex`, Google Cloud
+ * credentials. Otherwise load every
+ * configured credential file (`accounts.credentials`, default
+ * `~/.gemini/oauth_creds.json`). Files that fail are skipped with a warning;
+ * it's an error only if none load.
+ */
+export async function resolveAuth(): Promise<AuthResult> {
+  const { backend, vertex } = getConfig();
+  if (backend === "gemini-api") return resolveApiKey();
+  if (backend === "vertex" && vertex) return resolveVertex(vertex);
+
+  const configured = getConfig().accounts.credentials;
+  // Prefer our own login over Gemini CLI's
+  const defaultPath = existsSync(credentialsPath()) ? credentialsPath() : OAUTH_CREDS_PATH;
+  const paths = configured.length > 0 ? configured.map(expandHome) : [defaultPath];
+
+  const accounts: AuthAccount[] = [];
+  const errors: Error[] = [];
+  const seen = new Map<string, number>();
+  for (const path of paths) {
+    const name = basename(path, extname(path));
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    try {
+      accounts.push(await loadAccount(path, count > 1 ? `${name}-${count}` : name));
+    } catch (err) {
+      errors.push(err as Error);
+      if (paths.length > 1) console.error(`[auth] skipping ${path}: ${(err as Error).message}`);
+    }
+  }
+
+  if (accounts.length === 0) throw errors[0];
+
+  console.log(
+    accounts.length > 1
+      ? `[auth] Using gemini-cli OAuth credentials (${accounts.length} accounts)`
+      : "[auth] Using gemini-cli OAuth credentials",
+  );
+  const [primary] = accounts;
+  return {
+    // Getters, so a reloaded client shows through
+    get oauth2Client() {
+      return primary.oauth2Client;
+    },
+    get projectId() {
+      return primary.projectId;
+    },
+    method: "gemini-cli-oauth",
+    accounts,
+  };
+}
+
+/** Every file `resolveAuth` may load accounts from, to watch for new logins. */
+export function credentialPaths(): string[] {
+  const configured = getConfig().accounts.credentials;
+  return configured.length > 0 ? configured.map(expandHome) : [credentialsPath(), OAUTH_CREDS_PATH];
 }
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createClientLimiter } from "./client-limits.js";
+import { ClientLimitError } from "../errors.js";
+import { DEFAULT_CONFIG, setConfig, type ClientLimits } from "../config.js";
+
+const NOW = new Date(2026, 4, 10, 12, 0, 0).getTime();
+
+function useLimits(clients: Record<string, ClientLimits>, defaults: ClientLimits = {}) {
+  setConfig({ ...DEFAULT_CONFIG, limits: { default: defaults, clients } });
+}
+
+describe("createClientLimiter", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("admits everything without limits", () => {
+    const limiter = createClientLimiter(() => NOW, () => new Map());
+    for (let i = 0; i < 100; i++) limiter.acquire("anyone");
+    expect(limiter.headers("anyone")).toEqual({});
+  });
+
+  it("caps requests per minute and says when to retry", () => {
+    useLimits({ ci: { requestsPerMinute: 2 } });
+    let now = NOW;
+    const limiter = createClientLimiter(() => now, () => new Map());
+
+    limiter.acquire("ci");
+    now += 20_000;
+    limiter.acquire("ci");
+    limiter.acquire("someone-else");
+
+    let error: unknown;
+    try {
+      limiter.acquire("ci");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ClientLimitError);
+    expect(error).toMatchObject({ status: 429, retryAfter: 40 });
+    expect(limiter.headers("ci")).toEqual({
+      "x-ratelimit-limit-requests": "2",
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "40s",
+    });
+
+    now += 40_000;
+    expect(() => limiter.acquire("ci")).not.toThrow();
+  });
+
+  it("caps concurrent requests until one is released", () => {
+    useLimits({}, { concurrent: 1 });
+    const limiter = createClientLimiter(() => NOW, () => new Map());
+
+    const release = limiter.acquire("ci");
+    expect(() => limiter.acquire("ci")).toThrow("Too many concurrent requests");
+
+    release();
+    release();
+    expect(limiter.usage()[0].in_flight).toBe(0);
+    expect(() => limiter.acquire("ci")).not.toThrow();
+  });
+
+  it("stops a client whose daily token budget is used up", () => {
+    useLimits({ ci: { dailyTokens: 1000 } });
+    let since = 0;
+    const tokens = (start: number) => {
+      since = start;
+      return new Map([["ci", 1200]]);
+    };
+    const limiter = createClientLimiter(() => NOW, tokens);
+
+    expect(() => limiter.acquire("ci")).toThrow(/budget for ci is used up \(1200 of 1000\)/);
+    expect(since).toBe(new Date(2026, 4, 10).getTime());
+    expect(limiter.headers("ci")).toEqual({
+      "x-ratelimit-limit-tokens": "1000",
+      "x-ratelimit-remaining-tokens": "0",
+      "x-ratelimit-reset-tokens": `${12 * 3600}s`,
+    });
+    expect(() => limiter.acquire("other")).not.toThrow();
+  });
+
+  it("reports usage for configured and active clients", () => {
+    useLimits({ ci: { requestsPerMinute: 10, dailyTokens: 5000 } });
+    const limiter = createClientLimiter(() => NOW, () => new Map([["ci", 300], ["cursor", 40]]));
+    limiter.acquire("ci");
+    limiter.acquire("aider");
+
+    expect(limiter.usage()).toEqual([
+      {
+        client: "aider",
+        limits: { requests_per_minute: null, concurrent: null, daily_tokens: null },
+        requests_last_minute: 1,
+        in_flight: 1,
+        tokens_today: 0,
+      },
+      {
+        client: "ci",
+        limits: { requests_per_minute: 10, concurrent: null, daily_tokens: 5000 },
+        requests_last_minute: 1,
+        in_flight: 1,
+        tokens_today: 300,
+      },
+      expect.objectContaining({ client: "cursor", tokens_today: 40, in_flight: 0 }),
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { getConfig, type ClientLimits } from "../config.js";
+import { ClientLimitError } from "../errors.js";
+import { tokensByClient, windowStart } from "../stats.js";
+
+const MINUTE_MS = 60_000;
+
+export interface ClientUsage {
+  client: string;
+  limits: {
+    requests_per_minute: number | null;
+    concurrent: number | null;
+    daily_tokens: number | null;
+  };
+  requests_last_minute: number;
+  in_flight: number;
+  tokens_today: number;
+}
+
+export interface ClientLimiter {
+  /**
+   * Admit a request from `client`, or throw a ClientLimitError naming the
+   * limit it hit. Call the returned function when the response is done.
+   */
+  acquire(client: string): () => void;
+  /** OpenAI-style `x-ratelimit-*` headers for the client's current state. */
+  headers(client: string): Record<string, string>;
+  /** Every client with limits or recent traffic. */
+  usage(): ClientUsage[];
+}
+
+/** The limits that apply to `client`: its own entry, else the default. */
+export function limitsFor(client: string): ClientLimits {
+  const { limits } = getConfig();
+  return limits.clients[client] ?? limits.default;
+}
+
+function seconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+/**
+ * Enforces `limits` per client. Request rates and concurrency are tracked in
+ * memory; daily token use comes from the usage ledger, so it survives
+ * restarts. A token budget is checked before each request, so the request
+ * that crosses it still completes.
+ */
+export function createClientLimiter(
+  now: () => number = Date.now,
+  tokensSince: (since: number) => ReadonlyMap<string, number> = tokensByClient,
+): ClientLimiter {
+  const started = new Map<string, number[]>();
+  const inFlight = new Map<string, number>();
+
+  // Start times within the last minute, oldest first
+  function recent(client: string): number[] {
+    const cutoff = now() - MINUTE_MS;
+    const times = (started.get(client) ?? []).filter((t) => t > cutoff);
+    if (times.length > 0) started.set(client, times);
+    else started.delete(client);
+    return times;
+  }
+
+  function today(): { start: number; resetsIn: number } {
+    const start = windowStart("today", now())!;
+    const midnight = new Date(start);
+    midnight.setDate(midnight.getDate() + 1);
+    return { start, resetsIn: midnight.getTime() - now() };
+  }
+
+  return {
+    acquire(client) {
+      const limits = limitsFor(client);
+
+      const times = recent(client);
+      if (limits.requestsPerMinute !== undefined && times.length >= limits.requestsPerMinute) {
+        throw new ClientLimitError(
+          `Rate limit reached for ${client}: ${limits.requestsPerMinute} requests per minute`,
+          seconds(times[0] + MINUTE_MS - now()),
+        );
+      }
+
+      const active = inFlight.get(client) ?? 0;
+      if (limits.concurrent !== undefined && active >= limits.concurrent) {
+        throw new ClientLimitError(
+          `Too many concurrent requests for ${client}: the limit is ${limits.concurrent}`,
+          1,
+        );
+      }
+
+      if (limits.dailyTokens !== undefined) {
+        const { start, resetsIn } = today();
+        const used = tokensSince(start).get(client) ?? 0;
+        if (used >= limits.dailyTokens) {
+          throw new ClientLimitError(
+            `Daily token budget for ${client} is used up (${used} of ${limits.dailyTokens}); it resets at midnight`,
+            seconds(resetsIn),
+          );
+        }
+      }
+
+      started.set(client, [...times, now()]);
+      inFlight.set(client, active + 1);
+
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        const remaining = (inFlight.get(client) ?? 1) - 1;
+        if (remaining > 0) inFlight.set(client, remaining);
+        else inFlight.delete(client);
+      };
+    },
+
+    headers(client) {
+      const limits = limitsFor(client);
+      const headers: Record<string, string> = {};
+
+      if (limits.requestsPerMinute !== undefined) {
+        const times = recent(client);
+        headers["x-ratelimit-limit-requests"] = String(limits.requestsPerMinute);
+        headers["x-ratelimit-remaining-requests"] = String(Math.max(0, limits.requestsPerMinute - times.length));
+        headers["x-ratelimit-reset-requests"] = `${times.length > 0 ? seconds(times[0] + MINUTE_MS - now()) : 0}s`;
+      }
+      if (limits.dailyTokens !== undefined) {
+        const { start, resetsIn } = today();
+        const used = tokensSince(start).get(client) ?? 0;
+        headers["x-ratelimit-limit-tokens"] = String(limits.dailyTokens);
+        headers["x-ratelimit-remaining-tokens"] = String(Math.max(0, limits.dailyTokens - used));
+        headers["x-ratelimit-reset-tokens"] = `${seconds(resetsIn)}s`;
+      }
+      return headers;
+    },
+
+    usage() {
+      const tokens = tokensSince(today().start);
+      const clients = new Set([
+        ...Object.keys(getConfig().limits.clients),
+        ...started.keys(),
+        ...inFlight.keys(),
+        ...tokens.keys(),
+      ]);
+
+      return [...clients].sort().map((client) => {
+        const limits = limitsFor(client);
+        return {
+          client,
+          limits: {
+            requests_per_minute: limits.requestsPerMinute ?? null,
+            concurrent: limits.concurrent ?? null,
+            daily_tokens: limits.dailyTokens ?? null,
+          },
+          requests_last_minute: recent(client).length,
+          in_flight: inFlight.get(client) ?? 0,
+          tokens_today: tokens.get(client) ?? 0,
+        };
+      });
+    },
+  };
+}
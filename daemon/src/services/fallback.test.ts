@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fallbackChain, generateWithFallback, openStream } from "./fallback.js";
+import type { GeminiClient, GeminiResponse } from "./gemini-client.js";
+import { DEFAULT_CONFIG, setConfig, type QuotaPolicy } from "../config.js";
+import { clearQuota, recordQuota } from "./quota-monitor.js";
+import { QueueFullError, QuotaExhaustedError } from "../errors.js";
+
+function upstreamError(status: number): Error {
+  return Object.assign(new Error(`status ${status}`), { status });
+}
+
+function reply(text: string): GeminiResponse {
+  return { candidates: [{ content: { role: "model", parts: [{ text }] } }] };
+}
+
+function useFallbacks(fallbacks: Record<string, string[]>) {
+  setConfig({ ...DEFAULT_CONFIG, fallbacks });
+}
+
+describe("fallbackChain", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("resolves aliases in keys and entries", () => {
+    useFallbacks({ pro: ["flash", "gemini-2.0-flash-lite"] });
+    expect(fallbackChain("gemini-2.5-pro")).toEqual([
+      "gemini-2.5-pro",
+      "gemini-2.5-flash",
+      "gemini-2.0-flash-lite",
+    ]);
+  });
+
+  it("is just the model when no chain is configured", () => {
+    expect(fallbackChain("gemini-2.5-pro")).toEqual(["gemini-2.5-pro"]);
+  });
+});
+
+describe("generateWithFallback", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("moves down the chain on 429 and 5xx", async () => {
+    useFallbacks({ pro: ["flash", "gemini-2.0-flash-lite"] });
+    const generateContent = vi
+      .fn()
+      .mockRejectedValueOnce(upstreamError(429))
+      .mockRejectedValueOnce(upstreamError(503))
+      .mockResolvedValueOnce(reply("ok"));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    const result = await generateWithFallback(client, "gemini-2.5-pro", {});
+
+    expect(result.model).toBe("gemini-2.0-flash-lite");
+    expect(generateContent.mock.calls.map(([m]) => m)).toEqual([
+      "gemini-2.5-pro",
+      "gemini-2.5-flash",
+      "gemini-2.0-flash-lite",
+    ]);
+  });
+
+  it("does not fall back on client errors", async () => {
+    useFallbacks({ pro: ["flash"] });
+    const generateContent = vi.fn().mockRejectedValue(upstreamError(400));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    await expect(generateWithFallback(client, "gemini-2.5-pro", {})).rejects.toMatchObject({
+      status: 400,
+    });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not fall back when the scheduler queue is full", async () => {
+    useFallbacks({ pro: ["flash"] });
+    const generateContent = vi.fn().mockRejectedValue(new QueueFullError("gemini-2.5-pro", 3));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    await expect(generateWithFallback(client, "gemini-2.5-pro", {})).rejects.toMatchObject({
+      status: 503,
+      retryAfter: 3,
+    });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the last error when the chain runs out", async () => {
+    useFallbacks({ pro: ["flash"] });
+    const generateContent = vi.fn().mockRejectedValue(upstreamError(429));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    await expect(generateWithFallback(client, "gemini-2.5-pro", {})).rejects.toMatchObject({
+      status: 429,
+    });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("quota pre-flight", () => {
+  function useQuotaPolicy(policy: QuotaPolicy) {
+    setConfig({
+      ...DEFAULT_CONFIG,
+      fallbacks: { pro: ["flash"] },
+      quota: { ...DEFAULT_CONFIG.quota, policy },
+    });
+  }
+
+  function proExhausted(resetTime: string | null) {
+    const quotas = [{ modelId: "gemini-2.5-pro", fraction: 0, percentLeft: 0, resetTime, resetDescription: "" }];
+    recordQuota([{ account: "oauth_creds", quotas }]);
+  }
+
+  afterEach(() => {
+    setConfig(DEFAULT_CONFIG);
+    clearQuota();
+  });
+
+  it("skips models known to be exhausted without calling upstream", async () => {
+    useQuotaPolicy("fallback");
+    proExhausted(null);
+    const generateContent = vi.fn().mockResolvedValue(reply("ok"));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    const result = await generateWithFallback(client, "gemini-2.5-pro", {});
+
+    expect(result.model).toBe("gemini-2.5-flash");
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with the reset time under the reject policy", async () => {
+    useQuotaPolicy("reject");
+    const resetTime = new Date(Date.now() + 90_000).toISOString();
+    proExhausted(resetTime);
+    const generateContent = vi.fn();
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    const err = await generateWithFallback(client, "gemini-2.5-pro", {}).catch((e) => e);
+
+    expect(err).toBeInstanceOf(QuotaExhaustedError);
+    expect(err.message).toContain(resetTime);
+    expect(err.retryAfter).toBeGreaterThanOrEqual(89);
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it("calls upstream anyway when the policy is off", async () => {
+    useQuotaPolicy("off");
+    proExhausted(null);
+    const generateContent = vi.fn().mockResolvedValue(reply("ok"));
+    const client = { generateContent, generateContentStream: vi.fn() } as GeminiClient;
+
+    expect((await generateWithFallback(client, "gemini-2.5-pro", {})).model).toBe("gemini-2.5-pro");
+  });
+});
+
+describe("openStream", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("falls back when the stream fails before its first chunk and keeps that chunk", async () => {
+    useFallbacks({ pro: ["flash"] });
+    async function* failing(): AsyncGenerator<GeminiResponse> {
+      throw upstreamError(429);
+    }
+    async function* chunks(): AsyncGenerator<GeminiResponse> {
+      yield reply("a");
+      yield reply("b");
+    }
+    const generateContentStream = vi
+      .fn()
+      .mockReturnValueOnce(failing())
+      .mockReturnValueOnce(chunks());
+    const client = { generateContent: vi.fn(), generateContentStream } as GeminiClient;
+
+    const { model, stream } = await openStream(client, "gemini-2.5-pro", {});
+    const texts: string[] = [];
+    for await (const chunk of stream) {
+      texts.push(chunk.candidates![0].content!.parts![0].text!);
+    }
+
+    expect(model).toBe("gemini-2.5-flash");
+    expect(texts).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { GeminiClient, GeminiResponse, GenerateOptions } from "./gemini-client.js";
+import { resolveModel } from "./gemini-client.js";
+import { getConfig } from "../config.js";
+import { QueueFullError, QuotaExhaustedError, toUpstreamError } from "../errors.js";
+import { countFallback } from "../metrics.js";
+import { exhaustedQuota, retryAfterSeconds } from "./quota-monitor.js";
+
+/** The requested model followed by its configured fallbacks, aliases resolved. */
+export function fallbackChain(model: string): string[] {
+  const { fallbacks } = getConfig();
+  const entries = Object.entries(fallbacks).find(([key]) => resolveModel(key) === model)?.[1] ?? [];
+  const chain = [model, ...entries.map((m) => resolveModel(m))];
+  return [...new Set(chain)];
+}
+
+/**
+ * Apply the quota policy before calling upstream: drop models known to be at
+ * 0% (`fallback`) or reject outright (`reject`).
+ */
+function preflight(chain: string[], verbose?: boolean): string[] {
+  const { policy } = getConfig().quota;
+  if (policy === "off") return chain;
+
+  const requested = exhaustedQuota(chain[0]);
+  if (!requested) return chain;
+
+  const available = policy === "fallback" ? chain.filter((m) => !exhaustedQuota(m)) : [];
+  if (available.length === 0) {
+    throw new QuotaExhaustedError(chain[0], requested.resetTime, retryAfterSeconds(requested));
+  }
+  countFallback(chain[0], available[0]);
+  if (verbose) console.log(`[fallback] ${chain[0]} quota exhausted, using ${available[0]}`);
+  return available;
+}
+
+function shouldFallBack(err: unknown): boolean {
+  // A full queue should reach the caller as a fast 503, not spill onto other models
+  if (err instanceof QueueFullError) return false;
+  const { status } = toUpstreamError(err);
+  return status === 429 || status >= 500;
+}
+
+async function withFallback<T>(
+  model: string,
+  attempt: (model: string) => Promise<T>,
+  verbose?: boolean,
+): Promise<{ model: string; result: T }> {
+  const chain = preflight(fallbackChain(model), verbose);
+
+  for (const [i, candidate] of chain.entries()) {
+    try {
+      return { model: candidate, result: await attempt(candidate) };
+    } catch (err) {
+      const next = chain[i + 1];
+      if (!next || !shouldFallBack(err)) throw err;
+      countFallback(candidate, next);
+      if (verbose) {
+        const { status } = toUpstreamError(err);
+        console.log(`[fallback] ${candidate} failed with ${status}, trying ${next}`);
+      }
+    }
+  }
+
+  // Unreachable: the chain always has at least the requested model
+  throw new Error("Fallback chain exhausted");
+}
+
+/** `generateContent`, moving down the fallback chain on quota exhaustion or 429/5xx. */
+export async function generateWithFallback(
+  client: GeminiClient,
+  model: string,
+  body: object,
+  options?: GenerateOptions,
+  verbose?: boolean,
+): Promise<{ model: string; response: GeminiResponse }> {
+  const { model: served, result } = await withFallback(
+    model,
+    (m) => client.generateContent(m, body, options),
+    verbose,
+  );
+  return { model: served, response: result };
+}
+
+async function* prepend(
+  first: IteratorResult<GeminiResponse>,
+  rest: AsyncGenerator<GeminiResponse>,
+): AsyncGenerator<GeminiResponse> {
+  if (first.done) return;
+  yield first.value;
+  yield* rest;
+}
+
+/**
+ * Start a stream and wait for its first chunk, so upstream errors surface
+ * before any response is sent and can still fall back to another model.
+ */
+export async function openStream(
+  client: GeminiClient,
+  model: string,
+  body: object,
+  options?: GenerateOptions,
+  verbose?: boolean,
+): Promise<{ model: string; stream: AsyncGenerator<GeminiResponse> }> {
+  const { model: served, result } = await withFallback(
+    model,
+    async (m) => {
+      const stream = client.generateContentStream(m, body, options);
+      return prepend(await stream.next(), stream);
+    },
+    verbose,
+  );
+  return { model: served, stream: result };
+}
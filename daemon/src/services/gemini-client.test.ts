@@ -1,17 +1,27 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { resolveModel, getClient } from "./gemini-client.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { resolveModel, getClient, isQuotaExhausted, splitBackend } from "./gemini-client.js";
 import type { AuthResult } from "./auth.js";
+import { createAccountPool } from "./account-pool.js";
+import { DEFAULT_CONFIG, setConfig } from "../config.js";
 
 const mockFetch = vi.fn();
 vi.stubGlobal("fetch", mockFetch);
 
+const { mockCreateVertexAuth } = vi.hoisted(() => ({ mockCreateVertexAuth: vi.fn() }));
+vi.mock("./auth.js", async (importOriginal) => ({
+  ...((await importOriginal()) as object),
+  createVertexAuth: mockCreateVertexAuth,
+}));
+
 function makeAuth(): AuthResult {
+  const oauth2Client = {
+    getAccessToken: vi.fn().mockResolvedValue({ token: "test-token" }),
+  } as any;
   return {
-    oauth2Client: {
-      getAccessToken: vi.fn().mockResolvedValue({ token: "test-token" }),
-    } as any,
+    oauth2Client,
     projectId: "test-project",
     method: "gemini-cli-oauth",
+    accounts: [{ id: "oauth_creds", oauth2Client, projectId: "test-project", credsPath: "/creds/oauth_creds.json" }],
   };
 }
 
@@ -147,4 +157,234 @@ describe("getClient", () => {
     ).rejects.toThrow("Rate limit exceeded");
     expect(mockFetch).toHaveBeenCalledTimes(4);
   });
+
+  it("does not retry when the quota is exhausted", async () => {
+    const auth = makeAuth();
+
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 429,
+      text: () =>
+        Promise.resolve(
+          JSON.stringify({
+            error: {
+              message: "You have exhausted your capacity on this model.",
+              details: [{ reason: "QUOTA_EXHAUSTED" }],
+            },
+          }),
+        ),
+    });
+
+    const client = getClient(auth);
+
+    await expect(client.generateContent("test-model", {})).rejects.toMatchObject({
+      status: 429,
+      quotaExhausted: true,
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getClient cancellation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("passes the signal to fetch", async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ response: {} })));
+    const controller = new AbortController();
+
+    await getClient(makeAuth()).generateContent("test-model", {}, { signal: controller.signal });
+
+    expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  it("stops waiting between retries when the signal aborts", async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ error: { details: [{ retryDelay: "60s" }] } }), { status: 429 }),
+    );
+    const controller = new AbortController();
+
+    const result = getClient(makeAuth()).generateContent("test-model", {}, { signal: controller.signal });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort(new Error("client went away"));
+
+    await expect(result).rejects.toThrow("client went away");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getClient with several accounts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("moves to the next account when one is out of quota or unauthorized", async () => {
+    const account = (id: string) => ({
+      id,
+      projectId: `${id}-project`,
+      credsPath: `/creds/${id}.json`,
+      oauth2Client: { getAccessToken: vi.fn().mockResolvedValue({ token: `${id}-token` }) } as any,
+    });
+    const auth = { ...makeAuth(), accounts: [account("a"), account("b"), account("c")] };
+    const failure = (status: number, body = "{}") => ({
+      ok: false,
+      status,
+      text: () => Promise.resolve(body),
+    });
+    mockFetch
+      .mockResolvedValueOnce(
+        failure(429, JSON.stringify({ error: { details: [{ reason: "QUOTA_EXHAUSTED" }] } })),
+      )
+      .mockResolvedValueOnce(failure(401))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ response: { candidates: [] } }),
+      });
+
+    const pool = createAccountPool(auth.accounts);
+    await getClient(auth, false, pool).generateContent("gemini-2.5-pro", {});
+
+    const projects = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).project);
+    expect(projects).toEqual(["a-project", "b-project", "c-project"]);
+    expect(pool.status().map((s) => s.available)).toEqual([false, false, true]);
+  });
+});
+
+describe("getClient with an API key", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setConfig({ ...DEFAULT_CONFIG, apiBaseUrl: "http://127.0.0.1:9100/v1beta" });
+  });
+
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  const auth: AuthResult = { method: "api-key", apiKey: "test-key", accounts: [] };
+
+  it("calls the public endpoint with the key and an unwrapped body", async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: "Hi" }] } }] })),
+    );
+
+    const result = await getClient(auth).generateContent("gemini-2.5-flash", { contents: [] });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("http://127.0.0.1:9100/v1beta/models/gemini-2.5-flash:generateContent");
+    expect(init.headers["x-goog-api-key"]).toBe("test-key");
+    expect(JSON.parse(init.body)).toEqual({ contents: [] });
+    expect(result.candidates![0].content!.parts![0].text).toBe("Hi");
+  });
+
+  it("streams server-sent events", async () => {
+    const events = ["a", "b"]
+      .map((text) => `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] })}\r\n\r\n`)
+      .join("");
+    mockFetch.mockResolvedValue(new Response(events));
+
+    const texts: string[] = [];
+    for await (const chunk of getClient(auth).generateContentStream("gemini-2.5-flash", {})) {
+      texts.push(chunk.candidates![0].content!.parts![0].text!);
+    }
+
+    expect(mockFetch.mock.calls[0][0]).toContain(":streamGenerateContent?alt=sse");
+    expect(texts).toEqual(["a", "b"]);
+  });
+});
+
+describe("getClient with Vertex AI", () => {
+  const vertex = { project: "acme", region: "europe-west4" };
+  const googleAuth = { getAccessToken: vi.fn().mockResolvedValue("vertex-token") } as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setConfig({ ...DEFAULT_CONFIG, vertex });
+  });
+
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("calls the regional publisher endpoint with a bearer token", async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ candidates: [] })));
+
+    const auth: AuthResult = { method: "vertex", googleAuth, accounts: [] };
+    await getClient(auth).generateContent("gemini-2.5-pro", { contents: [] });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(
+      "https://europe-west4-aiplatform.googleapis.com/v1/projects/acme/locations/europe-west4" +
+        "/publishers/google/models/gemini-2.5-pro:generateContent",
+    );
+    expect(init.headers.Authorization).toBe("Bearer vertex-token");
+    expect(JSON.parse(init.body)).toEqual({ contents: [] });
+  });
+
+  it("encodes the project and region in the path", async () => {
+    setConfig({
+      ...DEFAULT_CONFIG,
+      vertex: { project: "acme/../x", region: "us central1", baseUrl: "http://127.0.0.1:9100/v1" },
+    });
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ candidates: [] })));
+
+    await getClient({ method: "vertex", googleAuth, accounts: [] }).generateContent("gemini-2.5-pro", {});
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "http://127.0.0.1:9100/v1/projects/acme%2F..%2Fx/locations/us%20central1" +
+        "/publishers/google/models/gemini-2.5-pro:generateContent",
+    );
+  });
+
+  it("loads new credentials when vertex.credentials changes on reload", async () => {
+    mockFetch.mockImplementation(async () => new Response(JSON.stringify({ candidates: [] })));
+    mockCreateVertexAuth.mockReturnValue({ getAccessToken: vi.fn().mockResolvedValue("service-token") });
+    const client = getClient({ method: "vertex", googleAuth, accounts: [] });
+
+    await client.generateContent("gemini-2.5-pro", {});
+    expect(mockCreateVertexAuth).not.toHaveBeenCalled();
+
+    setConfig({ ...DEFAULT_CONFIG, vertex: { ...vertex, credentials: "~/sa.json" } });
+    await client.generateContent("gemini-2.5-pro", {});
+    await client.generateContent("gemini-2.5-pro", {});
+
+    expect(mockCreateVertexAuth).toHaveBeenCalledTimes(1);
+    expect(mockCreateVertexAuth).toHaveBeenCalledWith(expect.objectContaining({ credentials: "~/sa.json" }));
+    expect(mockFetch.mock.calls[2][1].headers.Authorization).toBe("Bearer service-token");
+  });
+
+  it("routes a backend-prefixed model away from the default backend", async () => {
+    setConfig({ ...DEFAULT_CONFIG, apiKey: "alias-key", apiBaseUrl: "http://127.0.0.1:9100/v1beta" });
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ candidates: [] })));
+
+    await getClient(makeAuth()).generateContent("gemini-api/gemini-2.5-flash", {});
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("http://127.0.0.1:9100/v1beta/models/gemini-2.5-flash:generateContent");
+    expect(init.headers["x-goog-api-key"]).toBe("alias-key");
+  });
+});
+
+describe("splitBackend", () => {
+  it("only splits known backend prefixes", () => {
+    expect(splitBackend("vertex/gemini-2.5-pro")).toEqual({ backend: "vertex", model: "gemini-2.5-pro" });
+    expect(splitBackend("gemini-2.5-pro")).toEqual({ model: "gemini-2.5-pro" });
+    expect(splitBackend("tunedModels/my-model")).toEqual({ model: "tunedModels/my-model" });
+  });
+});
+
+describe("isQuotaExhausted", () => {
+  it("recognizes daily quota failures", () => {
+    expect(
+      isQuotaExhausted(
+        JSON.stringify({
+          error: {
+            details: [{ violations: [{ quotaId: "GenerateRequestsPerDayPerProjectPerModel" }] }],
+          },
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("treats transient rate limits and unparseable bodies as retryable", () => {
+    expect(isQuotaExhausted(JSON.stringify({ error: { details: [{ retryDelay: "1s" }] } }))).toBe(false);
+    expect(isQuotaExhausted("not json")).toBe(false);
+  });
 });
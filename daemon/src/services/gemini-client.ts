@@ -1,25 +1,32 @@
 import type { OAuth2Client } from "google-auth-library";
-import type { AuthResult } from "./auth.js";
-
-const CODE_ASSIST_BASE = "https://cloudcode-pa.googleapis.com/v1internal";
-
-const MODEL_ALIASES: Record<string, string> = {
-  pro: "gemini-2.5-pro",
-  flash: "gemini-2.5-flash",
-  "3-pro": "gemini-3-pro",
-  "3-flash": "gemini-3-flash",
-};
+import type { GoogleAuth } from "google-auth-library";
+import type { Priority } from "./scheduler.js";
+import { createVertexAuth, type AuthMethod, type AuthResult } from "./auth.js";
+import { createAccountPool, type AccountPool } from "./account-pool.js";
+import { countRateLimitRetry, observeUpstreamTtfb } from "../metrics.js";
+import { BACKENDS, getConfig, type Backend, type VertexConfig } from "../config.js";
 
 const DEFAULT_MODEL = "gemini-2.5-flash";
 
+export interface GenerateOptions {
+  /** Caller identity, for `sticky` account selection. */
+  client?: string;
+  /** Queue position in the scheduler; defaults to batch. */
+  priority?: Priority;
+  /** Aborts the upstream call, including queueing and retries, e.g. when the client disconnects. */
+  signal?: AbortSignal;
+}
+
 export interface GeminiClient {
   generateContent(
     model: string,
-    body: Record<string, unknown>,
+    body: object,
+    options?: GenerateOptions,
   ): Promise<GeminiResponse>;
   generateContentStream(
     model: string,
-    body: Record<string, unknown>,
+    body: object,
+    options?: GenerateOptions,
   ): AsyncGenerator<GeminiResponse>;
 }
 
@@ -28,6 +35,7 @@ export interface GeminiResponse {
   usageMetadata?: {
     promptTokenCount?: number;
     candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
     totalTokenCount?: number;
   };
 }
@@ -42,6 +50,13 @@ export interface GeminiCandidate {
 
 export interface GeminiPart {
   text?: string;
+  /** Marks `text` as a thought summary rather than answer text. */
+  thought?: boolean;
+  thoughtSignature?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
   functionCall?: {
     name: string;
     args: Record<string, unknown>;
@@ -73,7 +88,7 @@ async function getAuthHeaders(oauth2Client: OAuth2Client): Promise<Record<string
 function wrapRequest(
   model: string,
   projectId: string,
-  innerRequest: Record<string, unknown>,
+  innerRequest: object,
 ): Record<string, unknown> {
   return {
     model,
@@ -82,8 +97,6 @@ function wrapRequest(
   };
 }
 
-const MAX_RETRIES = 3;
-
 function parseRetryDelay(responseBody: string): number | null {
   try {
     const json = JSON.parse(responseBody);
@@ -100,8 +113,48 @@ function parseRetryDelay(responseBody: string): number | null {
   return null;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** The parts of a Google API error detail that tell rate limits from exhausted quota. */
+interface ErrorDetail {
+  reason?: string;
+  violations?: Array<{ quotaId?: string }>;
+}
+
+/**
+ * True when a 429 means the quota is used up (not a momentary rate limit), so
+ * retrying the same model is pointless.
+ */
+export function isQuotaExhausted(responseBody: string): boolean {
+  try {
+    const error: unknown = JSON.parse(responseBody)?.error;
+    if (typeof error !== "object" || error === null) return false;
+    const { details, message } = error as { details?: unknown; message?: unknown };
+
+    for (const d of Array.isArray(details) ? (details as unknown[]) : []) {
+      if (typeof d !== "object" || d === null) continue;
+      const detail = d as ErrorDetail;
+      if (detail.reason === "QUOTA_EXHAUSTED") return true;
+      const violations = Array.isArray(detail.violations) ? detail.violations : [];
+      if (violations.some((v) => /PerDay/i.test(v?.quotaId ?? ""))) return true;
+    }
+    return typeof message === "string" && /exhausted/i.test(message);
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+  });
 }
 
 async function fetchWithRetry(
@@ -109,27 +162,42 @@ async function fetchWithRetry(
   init: RequestInit,
   verbose?: boolean,
 ): Promise<Response> {
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+  const maxRetries = getConfig().maxRetries;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     const res = await fetch(url, init);
 
-    if (res.status !== 429 || attempt === MAX_RETRIES) {
+    if (res.status !== 429 || attempt === maxRetries) {
       return res;
     }
 
     const text = await res.text();
+    if (isQuotaExhausted(text)) {
+      // Body was consumed; hand back an equivalent response for error handling
+      return new Response(text, { status: 429 });
+    }
     const delayMs = parseRetryDelay(text) ?? 1000 * (attempt + 1);
+    countRateLimitRetry();
 
     if (verbose) {
-      console.log(`[retry] 429 received, retrying in ${delayMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      console.log(`[retry] 429 received, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
     }
 
-    await sleep(delayMs);
+    await sleep(delayMs, init.signal);
   }
 
   // Unreachable, but TypeScript needs it
   throw new Error("Retry loop exhausted");
 }
 
+async function apiError(res: Response, verbose?: boolean): Promise<Error> {
+  const text = await res.text();
+  if (verbose) console.error(`[gemini] API error ${res.status}: ${text}`);
+  const error: any = new Error(sanitizeApiError(res.status));
+  error.status = res.status;
+  if (res.status === 429) error.quotaExhausted = isQuotaExhausted(text);
+  return error;
+}
+
 function sanitizeApiError(status: number): string {
   switch (status) {
     case 400: return "Bad request to upstream API";
@@ -141,105 +209,313 @@ function sanitizeApiError(status: number): string {
   }
 }
 
-export function getClient(auth: AuthResult, verbose?: boolean): GeminiClient {
-  const { oauth2Client, projectId } = auth;
+/**
+ * POST to the Code Assist API with an account from the pool. An account that
+ * answers 429 or fails to authenticate is cooled down and the next one tried.
+ */
+async function send(
+  pool: AccountPool,
+  method: string,
+  model: string,
+  body: object,
+  options: GenerateOptions | undefined,
+  verbose?: boolean,
+): Promise<Response> {
+  const url = `${getConfig().upstreamBaseUrl}:${method}`;
+  const tried = new Set<string>();
+  let lastError: Error | undefined;
+
+  for (
+    let account = pool.pick(model, options?.client);
+    account;
+    account = pool.pick(model, options?.client, tried)
+  ) {
+    tried.add(account.id);
+
+    let headers: Record<string, string>;
+    try {
+      headers = await getAuthHeaders(account.oauth2Client);
+      account.refreshError = undefined;
+    } catch (err) {
+      account.refreshError = (err as Error).message;
+      pool.cooldown(account.id, `token refresh failed: ${account.refreshError}`);
+      lastError = Object.assign(new Error(sanitizeApiError(401)), { status: 401 });
+      continue;
+    }
 
-  return {
-    async generateContent(model, body) {
-      const url = `${CODE_ASSIST_BASE}:generateContent`;
-      const headers = await getAuthHeaders(oauth2Client);
-      const wrapped = wrapRequest(model, projectId, body);
-
-      const res = await fetchWithRetry(
-        url,
-        { method: "POST", headers, body: JSON.stringify(wrapped) },
-        verbose,
-      );
+    const wrapped = wrapRequest(model, account.projectId, body);
+    const startedAt = Date.now();
+    const res = await fetchWithRetry(
+      url,
+      { method: "POST", headers, body: JSON.stringify(wrapped), signal: options?.signal },
+      verbose,
+    );
+    observeUpstreamTtfb(model, (Date.now() - startedAt) / 1000);
+
+    if (res.ok) return res;
+
+    lastError = await apiError(res, verbose);
+    if (res.status !== 429 && res.status !== 401 && res.status !== 403) throw lastError;
+    pool.cooldown(account.id, `${res.status} ${lastError.message}`);
+    if (verbose && pool.size > 1) {
+      console.log(`[accounts] ${account.id} returned ${res.status}; taking it out of rotation`);
+    }
+  }
+
+  throw lastError ?? new Error("No accounts available");
+}
+
+/** Parse a `text/event-stream` body into its JSON `data:` payloads. */
+async function* readSSE<T>(res: Response): AsyncGenerator<T> {
+  if (!res.body) {
+    throw new Error("No response body for streaming request");
+  }
 
-      if (!res.ok) {
-        const text = await res.text();
-        if (verbose) console.error(`[gemini] API error ${res.status}: ${text}`);
-        const error: any = new Error(sanitizeApiError(res.status));
-        error.status = res.status;
-        throw error;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      // Keep the last (potentially incomplete) line in the buffer
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith("data: ")) {
+          const data = trimmed.slice(6);
+          if (data === "[DONE]") return;
+          try {
+            yield JSON.parse(data) as T;
+          } catch {
+            // Skip unparseable lines
+          }
+        }
       }
+    }
 
+    // Process any remaining data in the buffer
+    if (buffer.trim().startsWith("data: ")) {
+      const data = buffer.trim().slice(6);
+      if (data !== "[DONE]") {
+        try {
+          yield JSON.parse(data) as T;
+        } catch {
+          // Skip
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Client for the Code Assist API, spreading requests over the pooled OAuth accounts. */
+function codeAssistClient(pool: AccountPool, verbose?: boolean): GeminiClient {
+  return {
+    async generateContent(model, body, options) {
+      const res = await send(pool, "generateContent", model, body, options, verbose);
       const data = (await res.json()) as CloudCodeResponse;
       return data.response;
     },
 
-    async *generateContentStream(model, body) {
-      const url = `${CODE_ASSIST_BASE}:streamGenerateContent?alt=sse`;
-      const headers = await getAuthHeaders(oauth2Client);
-      const wrapped = wrapRequest(model, projectId, body);
-
-      const res = await fetchWithRetry(
-        url,
-        { method: "POST", headers, body: JSON.stringify(wrapped) },
+    async *generateContentStream(model, body, options) {
+      const res = await send(
+        pool,
+        "streamGenerateContent?alt=sse",
+        model,
+        body,
+        options,
         verbose,
       );
-
-      if (!res.ok) {
-        const text = await res.text();
-        if (verbose) console.error(`[gemini] API error ${res.status}: ${text}`);
-        const error: any = new Error(sanitizeApiError(res.status));
-        error.status = res.status;
-        throw error;
+      for await (const chunk of readSSE<CloudCodeResponse>(res)) {
+        yield chunk.response;
       }
+    },
+  };
+}
 
-      if (!res.body) {
-        throw new Error("No response body for streaming request");
-      }
+/**
+ * Client for endpoints that take and return plain Gemini bodies (the public
+ * Gemini API and Vertex AI), as opposed to Code Assist's wrapped ones.
+ */
+function directClient(
+  endpoint: (model: string, method: string) => string,
+  authHeaders: () => Promise<Record<string, string>>,
+  verbose?: boolean,
+): GeminiClient {
+  async function post(
+    model: string,
+    method: string,
+    body: object,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const headers = { ...(await authHeaders()), "Content-Type": "application/json" };
+    const startedAt = Date.now();
+    const res = await fetchWithRetry(
+      endpoint(model, method),
+      { method: "POST", headers, body: JSON.stringify(body), signal },
+      verbose,
+    );
+    observeUpstreamTtfb(model, (Date.now() - startedAt) / 1000);
+
+    if (!res.ok) {
+      throw await apiError(res, verbose);
+    }
+    return res;
+  }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      try {
-        while (true) {
-          const { value, done } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          // Keep the last (potentially incomplete) line in the buffer
-          buffer = lines.pop() ?? "";
-
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (trimmed.startsWith("data: ")) {
-              const data = trimmed.slice(6);
-              if (data === "[DONE]") return;
-              try {
-                const parsed = JSON.parse(data) as CloudCodeResponse;
-                yield parsed.response;
-              } catch {
-                // Skip unparseable lines
-              }
-            }
-          }
-        }
+  return {
+    async generateContent(model, body, options) {
+      const res = await post(model, "generateContent", body, options?.signal);
+      return (await res.json()) as GeminiResponse;
+    },
 
-        // Process any remaining data in the buffer
-        if (buffer.trim().startsWith("data: ")) {
-          const data = buffer.trim().slice(6);
-          if (data !== "[DONE]") {
-            try {
-              const parsed = JSON.parse(data) as CloudCodeResponse;
-              yield parsed.response;
-            } catch {
-              // Skip
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
+    async *generateContentStream(model, body, options) {
+      const res = await post(model, "streamGenerateContent?alt=sse", body, options?.signal);
+      yield* readSSE<GeminiResponse>(res);
+    },
+  };
+}
+
+/** Client for the public Gemini API (`generativelanguage.googleapis.com`) with an AI Studio key. */
+function apiKeyClient(apiKey: string, verbose?: boolean): GeminiClient {
+  return directClient(
+    (model, method) =>
+      `${getConfig().apiBaseUrl}/models/${encodeURIComponent(model)}:${method}`,
+    async () => ({ "x-goog-api-key": apiKey }),
+    verbose,
+  );
+}
+
+function vertexBaseUrl({ region, baseUrl }: VertexConfig): string {
+  if (baseUrl) return baseUrl.replace(/\/+$/, "");
+  const host = region === "global" ? "aiplatform.googleapis.com" : `${region}-aiplatform.googleapis.com`;
+  return `https://${host}/v1`;
+}
+
+function currentVertex(): VertexConfig {
+  const vertex = getConfig().vertex;
+  if (!vertex) throw new Error("vertex settings are missing from the config");
+  return vertex;
+}
+
+/**
+ * Client for Gemini models on Vertex AI in the configured project and region.
+ * Settings are read per request, so a config reload applies at once; new
+ * credentials are loaded when `vertex.credentials` changes. `initial` serves
+ * the credentials setting in effect when the client was created.
+ */
+function vertexClient(initial: GoogleAuth | undefined, verbose?: boolean): GeminiClient {
+  let current = initial && { credentials: getConfig().vertex?.credentials, googleAuth: initial };
+
+  function googleAuthFor(vertex: VertexConfig): GoogleAuth {
+    if (!current || current.credentials !== vertex.credentials) {
+      current = { credentials: vertex.credentials, googleAuth: createVertexAuth(vertex) };
+    }
+    return current.googleAuth;
+  }
+
+  return directClient(
+    (model, method) => {
+      const vertex = currentVertex();
+      return (
+        `${vertexBaseUrl(vertex)}/projects/${encodeURIComponent(vertex.project)}` +
+        `/locations/${encodeURIComponent(vertex.region)}` +
+        `/publishers/google/models/${encodeURIComponent(model)}:${method}`
+      );
+    },
+    async () => {
+      const token = await googleAuthFor(currentVertex()).getAccessToken();
+      if (!token) throw new Error("Failed to obtain Vertex AI access token");
+      return { Authorization: `Bearer ${token}` };
+    },
+    verbose,
+  );
+}
+
+const BACKEND_FOR_METHOD: Record<AuthMethod, Backend> = {
+  "gemini-cli-oauth": "code-assist",
+  "api-key": "gemini-api",
+  vertex: "vertex",
+};
+
+/** Split an optional backend prefix off a model id: `vertex/gemini-2.5-pro`. */
+export function splitBackend(model: string): { backend?: Backend; model: string } {
+  const sep = model.indexOf("/");
+  const prefix = model.slice(0, sep) as Backend;
+  if (sep > 0 && BACKENDS.includes(prefix)) return { backend: prefix, model: model.slice(sep + 1) };
+  return { model };
+}
+
+function backendClient(
+  backend: Backend,
+  auth: AuthResult,
+  pool: AccountPool,
+  verbose?: boolean,
+): GeminiClient {
+  switch (backend) {
+    case "code-assist":
+      if (auth.method !== "gemini-cli-oauth") {
+        throw new Error("The code-assist backend needs a Gemini CLI login as the default backend");
       }
+      return codeAssistClient(pool, verbose);
+    case "gemini-api": {
+      const apiKey =
+        auth.method === "api-key" ? auth.apiKey : process.env.GEMINI_API_KEY || getConfig().apiKey;
+      if (!apiKey) throw new Error("The gemini-api backend needs GEMINI_API_KEY or apiKey");
+      return apiKeyClient(apiKey, verbose);
+    }
+    case "vertex": {
+      if (auth.method === "vertex") return vertexClient(auth.googleAuth, verbose);
+      if (!getConfig().vertex) throw new Error("The vertex backend needs vertex settings in the config");
+      return vertexClient(undefined, verbose);
+    }
+  }
+}
+
+/**
+ * The client for the backend each model uses: the one its `backend/` prefix
+ * names, else the default backend `auth` was resolved for. `pool` only
+ * applies to Code Assist OAuth accounts.
+ */
+export function getClient(
+  auth: AuthResult,
+  verbose?: boolean,
+  pool: AccountPool = createAccountPool(auth.accounts),
+): GeminiClient {
+  const clients = new Map<Backend, GeminiClient>();
+  const clientFor = (backend = BACKEND_FOR_METHOD[auth.method]) => {
+    let client = clients.get(backend);
+    if (!client) {
+      client = backendClient(backend, auth, pool, verbose);
+      clients.set(backend, client);
+    }
+    return client;
+  };
+
+  return {
+    async generateContent(model, body, options) {
+      const target = splitBackend(model);
+      return clientFor(target.backend).generateContent(target.model, body, options);
+    },
+
+    async *generateContentStream(model, body, options) {
+      const target = splitBackend(model);
+      yield* clientFor(target.backend).generateContentStream(target.model, body, options);
     },
   };
 }
 
 export function resolveModel(model?: string, defaultModel?: string): string {
   const m = model || defaultModel || DEFAULT_MODEL;
-  return MODEL_ALIASES[m] ?? m;
+  const { aliases, presets } = getConfig();
+  // A preset's target may itself be an alias
+  const target = presets[m]?.model ?? m;
+  return aliases[target] ?? target;
 }
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_CONFIG, getConfig, setConfig } from "../config.js";
+import { beginLogin, loginWithLoopback } from "./oauth-login.js";
+
+const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-login-"));
+const storePath = join(dir, "oauth_creds.json");
+
+// A fake Google token endpoint that checks the PKCE verifier against the challenge
+let tokenServer: Server;
+let tokenUrl: string;
+let challenge: string | null = null;
+let requests: URLSearchParams[] = [];
+let refreshToken: string | undefined = "1//fake-refresh";
+
+beforeAll(async () => {
+  tokenServer = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const params = new URLSearchParams(raw);
+      requests.push(params);
+      const verifier = params.get("code_verifier") ?? "";
+      const expected = createHash("sha256").update(verifier).digest("base64url");
+      res.setHeader("Content-Type", "application/json");
+      if (params.get("code") !== "good-code" || expected !== challenge) {
+        res.writeHead(400).end(JSON.stringify({ error: "invalid_grant" }));
+        return;
+      }
+      res.end(
+        JSON.stringify({
+          access_token: "ya29.fake",
+          refresh_token: refreshToken,
+          expires_in: 3600,
+          scope: "https://www.googleapis.com/auth/cloud-platform",
+          token_type: "Bearer",
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => tokenServer.listen(0, "127.0.0.1", resolve));
+  tokenUrl = `http://127.0.0.1:${(tokenServer.address() as AddressInfo).port}/token`;
+});
+
+afterAll(() => {
+  tokenServer.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  process.env.GEMINI_CLI_CLIENT_ID = "test-client-id";
+  process.env.GEMINI_CLI_CLIENT_SECRET = "test-client-secret";
+  setConfig({ ...DEFAULT_CONFIG, oauth: { authUrl: "https://auth.example/authorize", tokenUrl } });
+  requests = [];
+  refreshToken = "1//fake-refresh";
+  rmSync(storePath, { force: true });
+});
+
+afterEach(() => {
+  setConfig(DEFAULT_CONFIG);
+  delete process.env.GEMINI_CLI_CLIENT_ID;
+  delete process.env.GEMINI_CLI_CLIENT_SECRET;
+});
+
+describe("beginLogin", () => {
+  it("builds a PKCE consent URL on the configured endpoint", async () => {
+    const login = await beginLogin("http://127.0.0.1:7965/auth/callback", storePath);
+    const url = new URL(login.authUrl);
+
+    expect(`${url.origin}${url.pathname}`).toBe(getConfig().oauth.authUrl);
+    expect(url.searchParams.get("client_id")).toBe("test-client-id");
+    expect(url.searchParams.get("redirect_uri")).toBe("http://127.0.0.1:7965/auth/callback");
+    expect(url.searchParams.get("access_type")).toBe("offline");
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(url.searchParams.get("code_challenge")).toBeTruthy();
+    expect(url.searchParams.get("state")).toBe(login.state);
+    expect(url.searchParams.get("scope")).toContain("cloud-platform");
+  });
+
+  it("exchanges the code with its verifier and writes the credentials store", async () => {
+    const login = await beginLogin("http://127.0.0.1:7965/auth/callback", storePath);
+    challenge = new URL(login.authUrl).searchParams.get("code_challenge");
+
+    await login.finish("good-code");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].get("redirect_uri")).toBe("http://127.0.0.1:7965/auth/callback");
+    const creds = JSON.parse(readFileSync(storePath, "utf-8"));
+    expect(creds).toMatchObject({
+      access_token: "ya29.fake",
+      refresh_token: "1//fake-refresh",
+      token_type: "Bearer",
+    });
+    expect(creds.expiry_date).toBeGreaterThan(Date.now());
+    expect(statSync(storePath).mode & 0o777).toBe(0o600);
+  });
+
+  it("rejects a code the token endpoint refuses", async () => {
+    const login = await beginLogin("http://127.0.0.1:7965/auth/callback", storePath);
+    challenge = new URL(login.authUrl).searchParams.get("code_challenge");
+
+    await expect(login.finish("bad-code")).rejects.toThrow(/invalid_grant/);
+    expect(() => statSync(storePath)).toThrow();
+  });
+
+  it("refuses to start when accounts.credentials lists files", async () => {
+    setConfig({
+      ...getConfig(),
+      accounts: { ...DEFAULT_CONFIG.accounts, credentials: ["~/creds/alice.json"] },
+    });
+
+    await expect(beginLogin("http://127.0.0.1:7965/auth/callback", storePath)).rejects.toThrow(
+      /not available while accounts\.credentials/,
+    );
+  });
+
+  it("refuses tokens without a refresh token", async () => {
+    refreshToken = undefined;
+    const login = await beginLogin("http://127.0.0.1:7965/auth/callback", storePath);
+    challenge = new URL(login.authUrl).searchParams.get("code_challenge");
+
+    await expect(login.finish("good-code")).rejects.toThrow(/refresh token/);
+  });
+});
+
+describe("loginWithLoopback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Stand in for the browser: Google would redirect back to the loopback URI
+  function browser(code: string) {
+    return (authUrl: string) => {
+      const params = new URL(authUrl).searchParams;
+      challenge = params.get("code_challenge");
+      const redirect = new URL(params.get("redirect_uri")!);
+      redirect.searchParams.set("code", code);
+      redirect.searchParams.set("state", params.get("state")!);
+      void fetch(redirect).then((res) => res.text());
+    };
+  }
+
+  it("completes the flow through the loopback redirect", async () => {
+    const path = await loginWithLoopback(storePath, browser("good-code"));
+
+    expect(path).toBe(storePath);
+    expect(JSON.parse(readFileSync(storePath, "utf-8")).refresh_token).toBe("1//fake-refresh");
+    expect(requests[0].get("redirect_uri")).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/oauth2callback$/);
+  });
+
+  it("fails when the token exchange fails", async () => {
+    await expect(loginWithLoopback(storePath, browser("bad-code"))).rejects.toThrow(/invalid_grant/);
+  });
+});
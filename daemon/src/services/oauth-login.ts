@@ -0,0 +1,168 @@
+import { CodeChallengeMethod } from "google-auth-library";
+import { spawn } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { getConfig } from "../config.js";
+import { credentialsPath } from "../paths.js";
+import { createOAuthClient, writeCredentials } from "./auth.js";
+
+// Same scopes as Gemini CLI, so either tool can use the other's login
+const SCOPES = [
+  "https://www.googleapis.com/auth/cloud-platform",
+  "https://www.googleapis.com/auth/userinfo.email",
+  "https://www.googleapis.com/auth/userinfo.profile",
+];
+
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** A login waiting for Google to redirect back with an authorization code. */
+export interface PendingLogin {
+  authUrl: string;
+  /** Echoed back on the redirect; reject callbacks that don't match. */
+  state: string;
+  /** Exchange the code for tokens and write them to the credentials store. */
+  finish(code: string): Promise<void>;
+}
+
+/**
+ * Start an installed-app OAuth flow with PKCE. Google redirects the browser to
+ * `redirectUri` with `code` and `state`; pass the code to `finish`.
+ */
+export async function beginLogin(
+  redirectUri: string,
+  storePath = credentialsPath(),
+): Promise<PendingLogin> {
+  // With an account list only the listed files are loaded, so a login
+  // written to the daemon's own store would never be used
+  if (getConfig().accounts.credentials.length > 0) {
+    throw new Error(
+      "Sign-in is not available while accounts.credentials lists credential files. " +
+        "Log in with Gemini CLI and add its credentials file to the list instead.",
+    );
+  }
+  const client = createOAuthClient(redirectUri);
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const state = randomBytes(16).toString("hex");
+
+  const authUrl = client.generateAuthUrl({
+    access_type: "offline",
+    // Without consent Google omits the refresh token on repeat logins
+    prompt: "consent",
+    scope: SCOPES,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: CodeChallengeMethod.S256,
+  });
+
+  return {
+    authUrl,
+    state,
+    async finish(code) {
+      const { tokens } = await client.getToken({ code, codeVerifier });
+      if (!tokens.access_token || !tokens.refresh_token) {
+        throw new Error("Google did not return a refresh token; try signing in again");
+      }
+      writeCredentials(
+        {
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token,
+          expiry_date: tokens.expiry_date ?? 0,
+          scope: tokens.scope ?? SCOPES.join(" "),
+          token_type: tokens.token_type ?? "Bearer",
+        },
+        storePath,
+      );
+    },
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** The page shown in the browser once the redirect has been handled. */
+export function loginPage(title: string, detail: string): string {
+  return (
+    `<!doctype html><html><head><meta charset="utf-8"><title>gemini-daemon</title></head>` +
+    `<body style="font-family: system-ui, sans-serif; margin: 4em auto; max-width: 32em">` +
+    `<h1>${escapeHtml(title)}</h1><p>${escapeHtml(detail)}</p></body></html>`
+  );
+}
+
+/** Open `url` in the default browser. Failures are ignored; the URL is also printed. */
+export function openBrowser(url: string): void {
+  const command = process.platform === "darwin" ? "open" : "xdg-open";
+  const child = spawn(command, [url], { detached: true, stdio: "ignore" });
+  child.on("error", () => {});
+  child.unref();
+}
+
+/**
+ * Run the login from the command line: listen on a loopback port for the
+ * redirect, send the user to Google, and resolve with the credentials path.
+ */
+export async function loginWithLoopback(
+  storePath = credentialsPath(),
+  open: (url: string) => void = openBrowser,
+): Promise<string> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const login = await beginLogin(`http://127.0.0.1:${port}/oauth2callback`, storePath);
+
+    const done = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error("Timed out waiting for the browser sign-in")),
+        LOGIN_TIMEOUT_MS,
+      );
+      timer.unref();
+
+      server.on("request", async (req, res) => {
+        const url = new URL(req.url ?? "/", `http://127.0.0.1:${port}`);
+        if (url.pathname !== "/oauth2callback") {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const send = (status: number, title: string, detail: string) => {
+          res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+          res.end(loginPage(title, detail));
+        };
+
+        const error = url.searchParams.get("error");
+        const code = url.searchParams.get("code");
+        if (url.searchParams.get("state") !== login.state) {
+          send(400, "Sign-in failed", "The sign-in state did not match. Start the login again.");
+          return;
+        }
+        if (error || !code) {
+          send(400, "Sign-in failed", error ?? "No authorization code was returned.");
+          reject(new Error(`Sign-in failed: ${error ?? "no authorization code"}`));
+          return;
+        }
+
+        try {
+          await login.finish(code);
+          send(200, "Signed in", "gemini-daemon is signed in. You can close this tab.");
+          clearTimeout(timer);
+          resolve();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          send(500, "Sign-in failed", message);
+          reject(err);
+        }
+      });
+    });
+
+    console.log(`Opening your browser to sign in. If it does not open, visit:\n\n  ${login.authUrl}\n`);
+    open(login.authUrl);
+    await done;
+    return storePath;
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  clearQuota,
+  exhaustedQuota,
+  quotaLeft,
+  recordQuota,
+  retryAfterSeconds,
+  startQuotaMonitor,
+  stopQuotaMonitor,
+} from "./quota-monitor.js";
+import type { QuotaInfo } from "./auth.js";
+
+const NOW = Date.parse("2026-05-10T12:00:00Z");
+
+function quota(modelId: string, fraction: number, resetTime: string | null): QuotaInfo {
+  return { modelId, fraction, percentLeft: Math.round(fraction * 100), resetTime, resetDescription: "" };
+}
+
+describe("quota monitor", () => {
+  afterEach(() => {
+    stopQuotaMonitor();
+    clearQuota();
+  });
+
+  it("reports models at 0% until their reset time", () => {
+    recordQuota([
+      {
+        account: "alice",
+        quotas: [
+          quota("gemini-2.5-pro", 0, "2026-05-10T12:30:00Z"),
+          quota("gemini-2.5-flash", 0.4, "2026-05-10T12:30:00Z"),
+        ],
+      },
+    ]);
+
+    expect(exhaustedQuota("gemini-2.5-pro", NOW)?.resetTime).toBe("2026-05-10T12:30:00Z");
+    expect(exhaustedQuota("gemini-2.5-flash", NOW)).toBeUndefined();
+    expect(exhaustedQuota("gemini-2.0-flash", NOW)).toBeUndefined();
+    expect(exhaustedQuota("gemini-2.5-pro", Date.parse("2026-05-10T12:30:00Z"))).toBeUndefined();
+  });
+
+  it("treats a model as exhausted only when every account is out", () => {
+    recordQuota([
+      { account: "alice", quotas: [quota("gemini-2.5-pro", 0, "2026-05-10T13:00:00Z")] },
+      { account: "bob", quotas: [quota("gemini-2.5-pro", 0, "2026-05-10T12:20:00Z")] },
+    ]);
+    expect(exhaustedQuota("gemini-2.5-pro", NOW)?.resetTime).toBe("2026-05-10T12:20:00Z");
+    expect(quotaLeft("bob", "gemini-2.5-pro", NOW)).toBe(0);
+
+    recordQuota([{ account: "bob", quotas: [quota("gemini-2.5-pro", 0.25, null)] }]);
+    expect(exhaustedQuota("gemini-2.5-pro", NOW)).toBeUndefined();
+    expect(quotaLeft("bob", "gemini-2.5-pro", NOW)).toBe(0.25);
+  });
+
+  it("doesn't count a quota that rounds to 0% as exhausted", () => {
+    recordQuota([{ account: "alice", quotas: [quota("gemini-2.5-pro", 0.004, "2026-05-10T12:30:00Z")] }]);
+    expect(exhaustedQuota("gemini-2.5-pro", NOW)).toBeUndefined();
+  });
+
+  it("computes Retry-After from the reset time", () => {
+    expect(retryAfterSeconds(quota("m", 0, "2026-05-10T12:30:00Z"), NOW)).toBe(1800);
+    expect(retryAfterSeconds(quota("m", 0, null), NOW)).toBe(60);
+  });
+
+  it("keeps the previous snapshot when a refresh fails", async () => {
+    recordQuota([{ account: "alice", quotas: [quota("gemini-2.5-pro", 0, null)] }]);
+    const load = vi.fn().mockRejectedValue(new Error("offline"));
+
+    startQuotaMonitor(load);
+    await vi.waitFor(() => expect(load).toHaveBeenCalled());
+
+    expect(exhaustedQuota("gemini-2.5-pro")).toBeDefined();
+  });
+});
@@ -0,0 +1,90 @@
+import type { AccountQuota, QuotaInfo } from "./auth.js";
+import { getConfig } from "../config.js";
+
+// Used as Retry-After when the upstream doesn't say when a quota resets
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/** Latest quota per account, then per model. */
+const snapshot = new Map<string, Map<string, QuotaInfo>>();
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Store a fresh `fetchAccountQuotas` result. Accounts whose fetch failed keep
+ * what was known about them before.
+ */
+export function recordQuota(results: AccountQuota[]): void {
+  for (const { account, quotas, error } of results) {
+    if (error) continue;
+    snapshot.set(account, new Map(quotas.map((q) => [q.modelId, q])));
+  }
+}
+
+export function clearQuota(): void {
+  snapshot.clear();
+}
+
+function hasReset(quota: QuotaInfo, now: number): boolean {
+  return !!quota.resetTime && new Date(quota.resetTime).getTime() <= now;
+}
+
+/** Fraction (0-1) of `model` quota left on `account` as of the last refresh, if known. */
+export function quotaLeft(account: string, model: string, now = Date.now()): number | undefined {
+  const quota = snapshot.get(account)?.get(model);
+  if (!quota) return undefined;
+  return hasReset(quota, now) ? 1 : quota.fraction;
+}
+
+/**
+ * The quota for `model` if every account that reports it was at 0% on the last
+ * refresh and none has reset since; the soonest to reset is returned. Unknown
+ * models are never considered exhausted.
+ */
+export function exhaustedQuota(model: string, now = Date.now()): QuotaInfo | undefined {
+  let soonest: QuotaInfo | undefined;
+  for (const models of snapshot.values()) {
+    const quota = models.get(model);
+    if (!quota) continue;
+    // Not percentLeft: a sliver under 0.5% still serves requests
+    if (quota.fraction > 0 || hasReset(quota, now)) return undefined;
+    if (!soonest || (quota.resetTime && (!soonest.resetTime || quota.resetTime < soonest.resetTime))) {
+      soonest = quota;
+    }
+  }
+  return soonest;
+}
+
+/** Seconds until `quota` resets, for a Retry-After header. */
+export function retryAfterSeconds(quota: QuotaInfo, now = Date.now()): number {
+  if (!quota.resetTime) return DEFAULT_RETRY_AFTER_SECONDS;
+  return Math.max(1, Math.ceil((new Date(quota.resetTime).getTime() - now) / 1000));
+}
+
+/**
+ * Refresh the snapshot now and then every `quota.refreshSeconds`. Failed
+ * refreshes keep the previous snapshot. The timer doesn't keep the process alive.
+ */
+export function startQuotaMonitor(load: () => Promise<AccountQuota[]>, verbose?: boolean): void {
+  stopQuotaMonitor();
+  const refresh = async () => {
+    try {
+      const results = await load();
+      recordQuota(results);
+      if (verbose) {
+        for (const { account, error } of results) {
+          if (error) console.error(`[quota] refresh failed for ${account}: ${error}`);
+        }
+      }
+    } catch (err) {
+      if (verbose) console.error(`[quota] refresh failed: ${(err as Error).message}`);
+    }
+    // Re-read the interval each time so config reloads apply
+    timer = setTimeout(refresh, getConfig().quota.refreshSeconds * 1000);
+    timer.unref();
+  };
+  void refresh();
+}
+
+export function stopQuotaMonitor(): void {
+  clearTimeout(timer);
+  timer = undefined;
+}
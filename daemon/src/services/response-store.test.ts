@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { createResponseStore, type StoredResponse } from "./response-store.js";
+import type { ResponsesObject } from "../adapters/gemini-to-responses.js";
+
+function entry(text: string): StoredResponse {
+  return { response: { id: "resp" } as ResponsesObject, items: [{ role: "user", content: text }] };
+}
+
+describe("createResponseStore", () => {
+  it("evicts the oldest entries past the entry limit", () => {
+    const store = createResponseStore(2);
+    store.put("a", entry("1"));
+    store.put("b", entry("2"));
+    store.put("c", entry("3"));
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.get("b")).toBeDefined();
+    expect(store.get("c")).toBeDefined();
+  });
+
+  it("evicts the oldest entries past the byte limit", () => {
+    const size = Buffer.byteLength(JSON.stringify(entry("x".repeat(100))));
+    const store = createResponseStore(1000, size * 2);
+    store.put("a", entry("x".repeat(100)));
+    store.put("b", entry("x".repeat(100)));
+    store.put("c", entry("x".repeat(100)));
+
+    expect(store.get("a")).toBeUndefined();
+    expect(store.get("b")).toBeDefined();
+    expect(store.get("c")).toBeDefined();
+  });
+
+  it("doesn't keep an entry larger than the byte limit", () => {
+    const store = createResponseStore(1000, 100);
+    store.put("small", entry("x"));
+    store.put("large", entry("x".repeat(200)));
+
+    expect(store.get("large")).toBeUndefined();
+    expect(store.get("small")).toBeDefined();
+  });
+});
@@ -0,0 +1,55 @@
+import type { ResponsesInputItem } from "../adapters/responses-to-chat.js";
+import type { ResponsesObject } from "../adapters/gemini-to-responses.js";
+
+export interface StoredResponse {
+  response: ResponsesObject;
+  /** Full conversation up to and including this response's output. */
+  items: ResponsesInputItem[];
+}
+
+export interface ResponseStore {
+  get(id: string): StoredResponse | undefined;
+  put(id: string, entry: StoredResponse): void;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+// Histories can carry inline media, so entries are capped by size as well as count
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * In-memory store for Responses API results so `previous_response_id` can chain
+ * turns without the client resending history. Oldest entries are evicted first
+ * once there are more than `maxEntries` or they add up to more than `maxBytes`
+ * of JSON; an entry larger than `maxBytes` on its own isn't kept.
+ */
+export function createResponseStore(
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  maxBytes = DEFAULT_MAX_BYTES,
+): ResponseStore {
+  const entries = new Map<string, { entry: StoredResponse; bytes: number }>();
+  let totalBytes = 0;
+
+  function remove(id: string): void {
+    const stored = entries.get(id);
+    if (!stored) return;
+    entries.delete(id);
+    totalBytes -= stored.bytes;
+  }
+
+  return {
+    get(id) {
+      return entries.get(id)?.entry;
+    },
+
+    put(id, entry) {
+      remove(id);
+      const bytes = Buffer.byteLength(JSON.stringify(entry));
+      if (bytes > maxBytes) return;
+      entries.set(id, { entry, bytes });
+      totalBytes += bytes;
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        remove(entries.keys().next().value as string);
+      }
+    },
+  };
+}
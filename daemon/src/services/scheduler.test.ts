@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createScheduler, priorityFromHeaders, scheduleClient } from "./scheduler.js";
+import type { GeminiClient, GeminiResponse } from "./gemini-client.js";
+import { QueueFullError } from "../errors.js";
+import { DEFAULT_CONFIG, setConfig } from "../config.js";
+
+function useScheduler(scheduler: Partial<typeof DEFAULT_CONFIG.scheduler>) {
+  setConfig({ ...DEFAULT_CONFIG, scheduler: { ...DEFAULT_CONFIG.scheduler, ...scheduler } });
+}
+
+const MODEL = "gemini-2.5-flash";
+
+// Let granted waiters' continuations run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("priorityFromHeaders", () => {
+  it("treats only an explicit interactive header as interactive", () => {
+    expect(priorityFromHeaders(new Headers({ "x-gemini-daemon-priority": "Interactive" }))).toBe("interactive");
+    expect(priorityFromHeaders(new Headers({ "x-gemini-daemon-priority": "urgent" }))).toBe("batch");
+    expect(priorityFromHeaders(new Headers())).toBe("batch");
+  });
+});
+
+describe("createScheduler", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("caps concurrency per model and queues the rest", async () => {
+    useScheduler({ maxConcurrent: 1, models: { "gemini-2.5-flash": 2 } });
+    const scheduler = createScheduler();
+
+    const pro = await scheduler.acquire("gemini-2.5-pro", "batch");
+    await scheduler.acquire("gemini-2.5-flash", "batch");
+    await scheduler.acquire("gemini-2.5-flash", "batch");
+
+    let granted = false;
+    const waiting = scheduler.acquire("gemini-2.5-pro", "batch").then((release) => {
+      granted = true;
+      return release;
+    });
+    await settle();
+    expect(granted).toBe(false);
+    expect(scheduler.status().find((s) => s.model === "gemini-2.5-pro")).toMatchObject({
+      max_concurrent: 1,
+      active: 1,
+      queued: { interactive: 0, batch: 1 },
+    });
+
+    pro();
+    (await waiting)();
+    expect(granted).toBe(true);
+    expect(scheduler.status().find((s) => s.model === "gemini-2.5-pro")).toMatchObject({
+      active: 0,
+      queued: { interactive: 0, batch: 0 },
+      waits: { count: 2 },
+    });
+  });
+
+  it("admits queued requests when a reload raises the limit", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    const scheduler = createScheduler();
+
+    const first = await scheduler.acquire(MODEL, "batch");
+    let granted = 0;
+    const queued = [
+      scheduler.acquire(MODEL, "batch").then((release) => (granted++, release)),
+      scheduler.acquire(MODEL, "interactive").then((release) => (granted++, release)),
+    ];
+    await settle();
+    expect(granted).toBe(0);
+
+    useScheduler({ maxConcurrent: 3 });
+    await settle();
+    expect(granted).toBe(2);
+    expect(scheduler.status()[0]).toMatchObject({ max_concurrent: 3, active: 3, queued: { interactive: 0, batch: 0 } });
+
+    first();
+    for (const release of await Promise.all(queued)) release();
+  });
+
+  it("serves interactive requests ahead of batch ones", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    const scheduler = createScheduler();
+    const order: string[] = [];
+
+    const first = await scheduler.acquire(MODEL, "batch");
+    const queued = [
+      scheduler.acquire(MODEL, "batch").then((release) => (order.push("batch"), release)),
+      scheduler.acquire(MODEL, "interactive").then((release) => (order.push("interactive"), release)),
+    ];
+    await settle();
+
+    first();
+    await settle();
+    expect(order).toEqual(["interactive"]);
+    (await queued[1])();
+    (await queued[0])();
+    expect(order).toEqual(["interactive", "batch"]);
+  });
+
+  it("rejects with a Retry-After estimate when the queue is full", async () => {
+    useScheduler({ maxConcurrent: 1, maxQueue: 1 });
+    let now = 0;
+    const scheduler = createScheduler(() => now);
+
+    const release = await scheduler.acquire(MODEL, "batch");
+    now += 4_000;
+    release();
+
+    await scheduler.acquire(MODEL, "batch");
+    void scheduler.acquire(MODEL, "batch");
+
+    const error = await scheduler.acquire(MODEL, "interactive").catch((err) => err);
+    expect(error).toBeInstanceOf(QueueFullError);
+    // Two requests ahead of a retry at ~4s each, one slot
+    expect(error).toMatchObject({ status: 503, retryAfter: 8 });
+    expect(scheduler.status()[0].rejected).toBe(1);
+  });
+
+  it("drops a waiting request whose signal aborts", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    const scheduler = createScheduler();
+    const controller = new AbortController();
+
+    const release = await scheduler.acquire(MODEL, "batch");
+    const waiting = scheduler.acquire(MODEL, "batch", controller.signal);
+    const after = scheduler.acquire(MODEL, "batch");
+    controller.abort(new Error("gone"));
+
+    await expect(waiting).rejects.toThrow("gone");
+    expect(scheduler.status()[0].queued.batch).toBe(1);
+    release();
+    (await after)();
+    expect(scheduler.status()[0]).toMatchObject({ active: 0, waits: { count: 2 } });
+  });
+
+  it("forgets an unconfigured model's queue once it is idle", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    const scheduler = createScheduler();
+
+    const release = await scheduler.acquire("made-up", "batch");
+    const waiting = scheduler.acquire("made-up", "batch");
+    expect(scheduler.status()).toEqual([expect.objectContaining({ model: "made-up", active: 1 })]);
+
+    release();
+    (await waiting)();
+    expect(scheduler.status()).toEqual([]);
+  });
+
+  it("reports wait times", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    let now = 0;
+    const scheduler = createScheduler(() => now);
+
+    const release = await scheduler.acquire(MODEL, "batch");
+    const waiting = scheduler.acquire(MODEL, "interactive");
+    now += 300;
+    release();
+    (await waiting)();
+
+    expect(scheduler.status()[0].waits).toEqual({ count: 2, avg_ms: 150, max_ms: 300 });
+  });
+});
+
+describe("scheduleClient", () => {
+  afterEach(() => setConfig(DEFAULT_CONFIG));
+
+  it("holds a slot until a stream is finished", async () => {
+    useScheduler({ maxConcurrent: 1 });
+    const scheduler = createScheduler();
+    const inner: GeminiClient = {
+      async generateContent() {
+        return {};
+      },
+      async *generateContentStream() {
+        yield {} as GeminiResponse;
+        yield {} as GeminiResponse;
+      },
+    };
+    const client = scheduleClient(inner, scheduler);
+
+    const stream = client.generateContentStream(MODEL, {}, { priority: "interactive" });
+    await stream.next();
+    expect(scheduler.status()[0].active).toBe(1);
+
+    await stream.return(undefined);
+    expect(scheduler.status()[0].active).toBe(0);
+
+    await client.generateContent(MODEL, {});
+    expect(scheduler.status()[0]).toMatchObject({ active: 0, waits: { count: 2 } });
+  });
+});
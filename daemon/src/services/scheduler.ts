@@ -0,0 +1,206 @@
+import { getConfig, isKnownModel, onConfigChange } from "../config.js";
+import { QueueFullError } from "../errors.js";
+import { observeQueueWait, setQueueDepth } from "../metrics.js";
+import type { GeminiClient } from "./gemini-client.js";
+
+/** Header clients set to `interactive` to jump ahead of batch traffic. */
+export const PRIORITY_HEADER = "x-gemini-daemon-priority";
+
+export type Priority = "interactive" | "batch";
+
+// Weight of the newest hold time in the running average used for Retry-After
+const HOLD_SMOOTHING = 0.2;
+
+export interface ModelQueueStatus {
+  model: string;
+  max_concurrent: number;
+  active: number;
+  queued: { interactive: number; batch: number };
+  waits: { count: number; avg_ms: number; max_ms: number };
+  rejected: number;
+}
+
+export interface Scheduler {
+  /**
+   * Wait for an upstream slot on `model`, or throw a QueueFullError when too
+   * many requests are already waiting. Call the returned function when done.
+   * Aborting `signal` takes a waiting request out of the queue.
+   */
+  acquire(model: string, priority: Priority, signal?: AbortSignal): Promise<() => void>;
+  /** Every configured model that has seen traffic, and any other with requests in flight or waiting. */
+  status(): ModelQueueStatus[];
+}
+
+interface Waiter {
+  priority: Priority;
+  enqueuedAt: number;
+  grant: (release: () => void) => void;
+}
+
+interface ModelQueue {
+  active: number;
+  waiting: Record<Priority, Waiter[]>;
+  waits: { count: number; totalMs: number; maxMs: number };
+  rejected: number;
+  /** Running average of how long a slot is held, in ms. */
+  holdMs: number;
+}
+
+/** Requests are batch unless they ask to be treated as interactive. */
+export function priorityFromHeaders(headers: Headers): Priority {
+  return headers.get(PRIORITY_HEADER)?.trim().toLowerCase() === "interactive" ? "interactive" : "batch";
+}
+
+/** The slot limit for `model`: its own entry in `scheduler.models`, else the default. */
+export function concurrencyFor(model: string): number {
+  const { scheduler } = getConfig();
+  return scheduler.models[model] ?? scheduler.maxConcurrent;
+}
+
+/**
+ * Caps upstream requests per model. Requests past the cap wait in a queue,
+ * interactive ones first; past `scheduler.maxQueue` they are turned away.
+ */
+export function createScheduler(now: () => number = Date.now): Scheduler {
+  const queues = new Map<string, ModelQueue>();
+
+  function queueFor(model: string): ModelQueue {
+    let queue = queues.get(model);
+    if (!queue) {
+      queue = {
+        active: 0,
+        waiting: { interactive: [], batch: [] },
+        waits: { count: 0, totalMs: 0, maxMs: 0 },
+        rejected: 0,
+        holdMs: 0,
+      };
+      queues.set(model, queue);
+    }
+    return queue;
+  }
+
+  function queued(queue: ModelQueue): number {
+    return queue.waiting.interactive.length + queue.waiting.batch.length;
+  }
+
+  function admit(model: string, queue: ModelQueue, priority: Priority, enqueuedAt: number): () => void {
+    const waited = now() - enqueuedAt;
+    queue.active++;
+    queue.waits.count++;
+    queue.waits.totalMs += waited;
+    queue.waits.maxMs = Math.max(queue.waits.maxMs, waited);
+    observeQueueWait(model, priority, waited / 1000);
+
+    const started = now();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      queue.active--;
+      const held = now() - started;
+      queue.holdMs = queue.holdMs === 0 ? held : queue.holdMs + HOLD_SMOOTHING * (held - queue.holdMs);
+      drain(model, queue);
+    };
+  }
+
+  function drain(model: string, queue: ModelQueue): void {
+    while (queue.active < concurrencyFor(model)) {
+      const next = queue.waiting.interactive.shift() ?? queue.waiting.batch.shift();
+      if (!next) break;
+      next.grant(admit(model, queue, next.priority, next.enqueuedAt));
+    }
+    setQueueDepth(model, queued(queue));
+    // Any name a client sends gets a queue; only configured ones outlive their traffic
+    if (queue.active === 0 && queued(queue) === 0 && !isKnownModel(model)) queues.delete(model);
+  }
+
+  // A reload may raise limits; waiters shouldn't sit out until a slot frees
+  onConfigChange(() => {
+    for (const [model, queue] of queues) drain(model, queue);
+  });
+
+  return {
+    async acquire(model, priority, signal) {
+      signal?.throwIfAborted();
+      const queue = queueFor(model);
+      const limit = concurrencyFor(model);
+
+      if (queue.active < limit && queued(queue) === 0) {
+        return admit(model, queue, priority, now());
+      }
+
+      const depth = queued(queue);
+      if (depth >= getConfig().scheduler.maxQueue) {
+        queue.rejected++;
+        // Roughly how long until the requests ahead of a retry have been served
+        const estimate = (queue.holdMs * (depth + 1)) / limit;
+        throw new QueueFullError(model, Math.max(1, Math.ceil(estimate / 1000)));
+      }
+
+      return new Promise((resolve, reject) => {
+        const abort = () => {
+          const waiting = queue.waiting[priority];
+          waiting.splice(waiting.indexOf(waiter), 1);
+          setQueueDepth(model, queued(queue));
+          reject(signal!.reason);
+        };
+        const waiter: Waiter = {
+          priority,
+          enqueuedAt: now(),
+          grant(release) {
+            signal?.removeEventListener("abort", abort);
+            resolve(release);
+          },
+        };
+        queue.waiting[priority].push(waiter);
+        signal?.addEventListener("abort", abort, { once: true });
+        setQueueDepth(model, queued(queue));
+      });
+    },
+
+    status() {
+      return [...queues.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([model, queue]) => ({
+          model,
+          max_concurrent: concurrencyFor(model),
+          active: queue.active,
+          queued: {
+            interactive: queue.waiting.interactive.length,
+            batch: queue.waiting.batch.length,
+          },
+          waits: {
+            count: queue.waits.count,
+            avg_ms: queue.waits.count > 0 ? Math.round(queue.waits.totalMs / queue.waits.count) : 0,
+            max_ms: queue.waits.maxMs,
+          },
+          rejected: queue.rejected,
+        }));
+    },
+  };
+}
+
+/**
+ * Route every upstream call through `scheduler`. A stream keeps its slot
+ * until it finishes or its consumer stops reading it.
+ */
+export function scheduleClient(inner: GeminiClient, scheduler: Scheduler): GeminiClient {
+  return {
+    async generateContent(model, body, options) {
+      const release = await scheduler.acquire(model, options?.priority ?? "batch", options?.signal);
+      try {
+        return await inner.generateContent(model, body, options);
+      } finally {
+        release();
+      }
+    },
+    async *generateContentStream(model, body, options) {
+      const release = await scheduler.acquire(model, options?.priority ?? "batch", options?.signal);
+      try {
+        yield* inner.generateContentStream(model, body, options);
+      } finally {
+        release();
+      }
+    },
+  };
+}
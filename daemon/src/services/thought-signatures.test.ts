@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { createThoughtSignatureCache } from "./thought-signatures.js";
+
+const part = {
+  functionCall: { name: "get_weather", args: { city: "Paris" } },
+  thoughtSignature: "sig-1",
+};
+
+describe("createThoughtSignatureCache", () => {
+  it("returns recorded signatures by call id", () => {
+    const cache = createThoughtSignatureCache();
+    cache.record("call_a", part);
+    expect(cache.get("call_a")).toEqual({ signature: "sig-1", part });
+    expect(cache.get("call_b")).toBeUndefined();
+  });
+
+  it("ignores parts without a signature", () => {
+    const cache = createThoughtSignatureCache();
+    cache.record("call_a", { functionCall: { name: "f", args: {} } });
+    expect(cache.get("call_a")).toBeUndefined();
+  });
+
+  it("expires entries after the TTL", () => {
+    let time = 0;
+    const cache = createThoughtSignatureCache({ ttlMs: 1000, now: () => time });
+    cache.record("call_a", part);
+    time = 999;
+    expect(cache.get("call_a")).toBeDefined();
+    time = 1000;
+    expect(cache.get("call_a")).toBeUndefined();
+  });
+
+  it("evicts the oldest entries past maxEntries", () => {
+    const cache = createThoughtSignatureCache({ maxEntries: 2 });
+    cache.record("call_a", part);
+    cache.record("call_b", part);
+    cache.record("call_c", part);
+    expect(cache.get("call_a")).toBeUndefined();
+    expect(cache.get("call_c")).toBeDefined();
+  });
+});
@@ -0,0 +1,63 @@
+import type { GeminiPart } from "./gemini-client.js";
+
+export interface ThoughtSignatureEntry {
+  signature: string;
+  /** The functionCall part exactly as Gemini returned it. */
+  part: GeminiPart;
+}
+
+export interface ThoughtSignatureCache {
+  get(callId: string): ThoughtSignatureEntry | undefined;
+  record(callId: string, part: GeminiPart): void;
+}
+
+export interface ThoughtSignatureCacheOptions {
+  maxEntries?: number;
+  ttlMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_MAX_ENTRIES = 5000;
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Maps the tool call ids we hand to OpenAI clients back to the Gemini
+ * functionCall parts they came from, so `thoughtSignature`s survive the round
+ * trip. Entries expire after `ttlMs`; the oldest are evicted past `maxEntries`.
+ */
+export function createThoughtSignatureCache(
+  options: ThoughtSignatureCacheOptions = {},
+): ThoughtSignatureCache {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, ThoughtSignatureEntry & { expiresAt: number }>();
+
+  return {
+    get(callId) {
+      const entry = entries.get(callId);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        entries.delete(callId);
+        return undefined;
+      }
+      return { signature: entry.signature, part: entry.part };
+    },
+
+    record(callId, part) {
+      if (!part.thoughtSignature) return;
+      entries.delete(callId);
+      entries.set(callId, {
+        signature: part.thoughtSignature,
+        part,
+        expiresAt: now() + ttlMs,
+      });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+export const thoughtSignatures = createThoughtSignatureCache();
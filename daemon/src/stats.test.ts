@@ -1,33 +1,199 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const dir = mkdtempSync(join(tmpdir(), "gemini-daemon-stats-"));
+
+const NOW = new Date(2026, 4, 10, 15, 0, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+function clock(start: number, latency: number) {
+  let calls = 0;
+  return () => start + (calls++ === 0 ? 0 : latency);
+}
+
+const usage = {
+  usageMetadata: {
+    promptTokenCount: 10,
+    candidatesTokenCount: 4,
+    thoughtsTokenCount: 6,
+    totalTokenCount: 20,
+  },
+};
 
 describe("stats", () => {
   beforeEach(() => {
     vi.resetModules();
   });
 
-  it("returns empty object initially", async () => {
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("returns empty stats initially", async () => {
     const { getStats } = await import("./stats.js");
-    expect(getStats()).toEqual({ requests_by_model: {} });
-  });
-
-  it("recordRequest increments per-model count", async () => {
-    const { recordRequest, getStats } = await import("./stats.js");
-    recordRequest("gemini-2.5-flash");
-    recordRequest("gemini-2.5-flash");
-    recordRequest("gemini-2.5-pro");
-    expect(getStats()).toEqual({
-      requests_by_model: {
-        "gemini-2.5-flash": 2,
-        "gemini-2.5-pro": 1,
-      },
+    const stats = getStats("today", NOW);
+    expect(stats.requests_by_model).toEqual({});
+    expect(stats.totals.requests).toBe(0);
+  });
+
+  it("records tokens, latency and status per request", async () => {
+    const { startRequest, getStats } = await import("./stats.js");
+    const request = startRequest(
+      { endpoint: "chat.completions", model: "gemini-2.5-flash", client: "curl", stream: false },
+      clock(NOW, 250),
+    );
+    request.observe(usage);
+    request.finish(200);
+    request.finish(500);
+
+    expect(getStats("today", NOW + 1000).by_model["gemini-2.5-flash"]).toEqual({
+      requests: 1,
+      errors: 0,
+      cancelled: 0,
+      fallbacks: 0,
+      prompt_tokens: 10,
+      completion_tokens: 10,
+      total_tokens: 20,
+      avg_latency_ms: 250,
     });
   });
 
-  it("getStats returns requests_by_model correctly", async () => {
-    const { recordRequest, getStats } = await import("./stats.js");
-    recordRequest("model-a");
-    const stats = getStats();
-    expect(stats).toHaveProperty("requests_by_model");
-    expect(stats.requests_by_model["model-a"]).toBe(1);
+  it("taps streams and records upstream failures", async () => {
+    const { startRequest, getStats } = await import("./stats.js");
+    async function* failing() {
+      yield usage;
+      throw Object.assign(new Error("quota"), { status: 429 });
+    }
+
+    const request = startRequest(
+      { endpoint: "messages", model: "gemini-2.5-pro", client: "sdk", stream: true },
+      clock(NOW, 10),
+    );
+    await expect(async () => {
+      for await (const _ of request.tap(failing())) {
+        // drain
+      }
+    }).rejects.toThrow("quota");
+
+    const stats = getStats("today", NOW + 1000);
+    expect(stats.totals).toMatchObject({ requests: 1, errors: 1, total_tokens: 20 });
+    expect(stats.by_client).toHaveProperty("sdk");
+  });
+
+  it("records streams the client stopped reading as cancelled, not failed", async () => {
+    const { startRequest, getStats } = await import("./stats.js");
+    async function* chunks() {
+      yield usage;
+      yield usage;
+    }
+
+    const request = startRequest(
+      { endpoint: "chat.completions", model: "gemini-2.5-flash", client: "cursor", stream: true },
+      clock(NOW, 10),
+    );
+    const tapped = request.tap(chunks());
+    await tapped.next();
+    await tapped.return(undefined);
+
+    expect(getStats("today", NOW + 1000).totals).toMatchObject({ requests: 1, errors: 0, cancelled: 1 });
+  });
+
+  it("attributes fallbacks to the serving model", async () => {
+    const { startRequest, getStats } = await import("./stats.js");
+    const request = startRequest(
+      { endpoint: "messages", model: "gemini-2.5-pro", client: "sdk", stream: false },
+      clock(NOW, 10),
+    );
+    request.servedBy("gemini-2.5-flash");
+    request.finish(200);
+
+    const stats = getStats("today", NOW + 1000);
+    expect(stats.requests_by_model).toEqual({ "gemini-2.5-flash": 1 });
+    expect(stats.totals.fallbacks).toBe(1);
+  });
+
+  it("keeps per-client token totals current as requests finish", async () => {
+    const { startRequest, tokensByClient, windowStart } = await import("./stats.js");
+    const finish = (client: string, at: number) => {
+      const request = startRequest({ endpoint: "messages", model: "gemini-2.5-pro", client, stream: false }, () => at);
+      request.observe(usage);
+      request.finish(200);
+    };
+    const today = windowStart("today", NOW)!;
+    finish("ci", today - HOUR);
+    finish("ci", NOW);
+
+    expect(tokensByClient(today)).toEqual(new Map([["ci", 20]]));
+    finish("ci", NOW + 1);
+    finish("sdk", NOW + 2);
+    expect(tokensByClient(today)).toEqual(new Map([["ci", 40], ["sdk", 20]]));
+    // Another window is counted from the ledger
+    expect(tokensByClient(today - 24 * HOUR)).toEqual(new Map([["ci", 60], ["sdk", 20]]));
+  });
+
+  it("drops entries past retention as new ones arrive", async () => {
+    const { startRequest, tokensByClient } = await import("./stats.js");
+    const finish = (at: number) => {
+      const request = startRequest({ endpoint: "messages", model: "gemini-2.5-pro", client: "ci", stream: false }, () => at);
+      request.observe(usage);
+      request.finish(200);
+    };
+    finish(NOW - 120 * 24 * HOUR);
+    finish(NOW - 100 * 24 * HOUR);
+    expect(tokensByClient(0).get("ci")).toBe(40);
+
+    finish(NOW);
+    expect(tokensByClient(1).get("ci")).toBe(20);
+  });
+
+  it("persists to the ledger and filters by window", async () => {
+    const path = join(dir, "usage.jsonl");
+    let stats = await import("./stats.js");
+    stats.initStats(path, NOW);
+    for (const [model, at] of [
+      ["gemini-2.5-flash", NOW - 3 * 24 * HOUR],
+      ["gemini-2.5-pro", NOW - HOUR],
+    ] as const) {
+      stats
+        .startRequest({ endpoint: "chat.completions", model, client: "curl", stream: false }, () => at)
+        .finish(200);
+    }
+    await stats.closeStats();
+    expect(readFileSync(path, "utf-8").trim().split("\n")).toHaveLength(2);
+
+    vi.resetModules();
+    stats = await import("./stats.js");
+    stats.initStats(path, NOW);
+
+    expect(stats.getStats("today", NOW).requests_by_model).toEqual({ "gemini-2.5-pro": 1 });
+    expect(stats.getStats("7d", NOW).requests_by_model).toEqual({
+      "gemini-2.5-flash": 1,
+      "gemini-2.5-pro": 1,
+    });
+  });
+});
+
+describe("clientFromHeaders", () => {
+  it("prefers the explicit header, then the User-Agent product", async () => {
+    const { clientFromHeaders } = await import("./stats.js");
+    expect(
+      clientFromHeaders(new Headers({ "x-gemini-daemon-client": "my-agent", "user-agent": "curl/8" })),
+    ).toBe("my-agent");
+    expect(clientFromHeaders(new Headers({ "user-agent": "OpenAI/Python 1.50.0" }))).toBe("OpenAI");
+    expect(clientFromHeaders(new Headers())).toBe("unknown");
+  });
+
+  it("names the client after its API key first", async () => {
+    const { clientFromHeaders } = await import("./stats.js");
+    expect(clientFromHeaders(new Headers({ "x-gemini-daemon-client": "my-agent" }), "cursor")).toBe("cursor");
+  });
+});
+
+describe("windowStart", () => {
+  it("parses today and durations", async () => {
+    const { windowStart } = await import("./stats.js");
+    expect(windowStart("today", NOW)).toBe(new Date(2026, 4, 10).getTime());
+    expect(windowStart("24h", NOW)).toBe(NOW - 24 * HOUR);
+    expect(windowStart("yesterday", NOW)).toBeUndefined();
   });
 });
@@ -1,13 +1,314 @@
-const requestCounts = new Map<string, number>();
+import { createWriteStream, mkdirSync, readFileSync, type WriteStream } from "node:fs";
+import { dirname } from "node:path";
+import { finished } from "node:stream/promises";
+import type { GeminiResponse } from "./services/gemini-client.js";
+import { toUpstreamError } from "./errors.js";
+import { observeRequest } from "./metrics.js";
 
-export function recordRequest(model: string): void {
-  requestCounts.set(model, (requestCounts.get(model) ?? 0) + 1);
+// --- Ledger Types ---
+
+export interface UsageRecord {
+  /** Completion time, ms since epoch. */
+  ts: number;
+  endpoint: string;
+  /** The model that served the request. */
+  model: string;
+  /** The model the client asked for, when a fallback served it instead. */
+  requested_model?: string;
+  client: string;
+  stream: boolean;
+  status: number;
+  latency_ms: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface RequestInfo {
+  endpoint: string;
+  model: string;
+  client: string;
+  stream: boolean;
+}
+
+export interface RequestRecorder {
+  /** Note token usage from a Gemini response (the last one seen wins). */
+  observe(response: GeminiResponse): void;
+  /** Note that a fallback model is serving the request. */
+  servedBy(model: string): void;
+  /**
+   * Pass a Gemini stream through, observing each chunk and finishing when it
+   * ends. A stream its consumer stops reading is recorded as cancelled.
+   */
+  tap(stream: AsyncGenerator<GeminiResponse>): AsyncGenerator<GeminiResponse>;
+  /** Write the ledger entry. Only the first call counts. */
+  finish(status: number): void;
+}
+
+export interface UsageSummary {
+  requests: number;
+  /** Failed requests, not counting cancelled ones. */
+  errors: number;
+  /** Requests whose client disconnected before the response was done. */
+  cancelled: number;
+  /** Requests served by a fallback model. */
+  fallbacks: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  avg_latency_ms: number;
+}
+
+export interface StatsReport {
+  window: string;
+  since: string;
+  totals: UsageSummary;
+  requests_by_model: Record<string, number>;
+  tokens_by_model: Record<string, Pick<UsageSummary, "prompt_tokens" | "completion_tokens" | "total_tokens">>;
+  by_model: Record<string, UsageSummary>;
+  by_client: Record<string, UsageSummary>;
+}
+
+// nginx's "client closed request", the status of a ClientCancelledError
+const CANCELLED_STATUS = 499;
+
+// Older entries stay on disk but are not loaded or queried
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+// Expired entries are dropped in batches once the oldest is this far past retention
+const PRUNE_SLACK_MS = 24 * 60 * 60 * 1000;
+
+let records: UsageRecord[] = [];
+let ledger: WriteStream | undefined;
+// Running totals for the last `tokensByClient` window (in practice, today), so
+// limit checks don't rescan the ledger on every request
+let clientTokens: { since: number; totals: Map<string, number> } | undefined;
+
+/**
+ * Load the append-only ledger at `path` and persist new entries to it through
+ * a buffered stream; `closeStats` flushes it. Without this call the ledger is
+ * in-memory only.
+ */
+export function initStats(path: string, now = Date.now()): void {
+  ledger?.end();
+  mkdirSync(dirname(path), { recursive: true });
+
+  let raw = "";
+  try {
+    raw = readFileSync(path, "utf-8");
+  } catch {
+    // No ledger yet
+  }
+
+  const cutoff = now - RETENTION_MS;
+  records = [];
+  clientTokens = undefined;
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as UsageRecord;
+      if (record.ts >= cutoff) records.push(record);
+    } catch {
+      // Skip a torn or hand-edited line rather than refusing to start
+    }
+  }
+
+  const stream = createWriteStream(path, { flags: "a" });
+  stream.on("error", (err) => {
+    console.error(`[stats] failed to write ledger: ${err.message}`);
+    if (ledger === stream) ledger = undefined;
+  });
+  ledger = stream;
+}
+
+/** Write out pending ledger entries and stop persisting new ones. */
+export async function closeStats(): Promise<void> {
+  const stream = ledger;
+  ledger = undefined;
+  if (!stream) return;
+  stream.end();
+  await finished(stream).catch(() => {});
+}
+
+function append(record: UsageRecord): void {
+  records.push(record);
+  // Records are in completion order, so the expired ones are at the front
+  const cutoff = record.ts - RETENTION_MS;
+  if (records[0].ts < cutoff - PRUNE_SLACK_MS) {
+    records.splice(0, records.findIndex((r) => r.ts >= cutoff));
+  }
+  if (clientTokens && record.ts >= clientTokens.since) {
+    const { totals } = clientTokens;
+    totals.set(record.client, (totals.get(record.client) ?? 0) + record.total_tokens);
+  }
+  ledger?.write(JSON.stringify(record) + "\n");
 }
 
-export function getStats(): { requests_by_model: Record<string, number> } {
-  const requests_by_model: Record<string, number> = {};
-  for (const [model, count] of requestCounts) {
-    requests_by_model[model] = count;
+/**
+ * Identify the caller: `name` when already known (its daemon API key or the
+ * request's `user` field), else an explicit `x-gemini-daemon-client` header,
+ * else the product name from User-Agent (`openai-python/1.3.0` -> `openai-python`).
+ */
+export function clientFromHeaders(headers: Headers, name?: string): string {
+  if (name) return name;
+  const explicit = headers.get("x-gemini-daemon-client")?.trim();
+  if (explicit) return explicit;
+  const product = headers.get("user-agent")?.trim().split(/[\s/]/)[0];
+  return product || "unknown";
+}
+
+export function startRequest(info: RequestInfo, now: () => number = Date.now): RequestRecorder {
+  const startedAt = now();
+  let usage: GeminiResponse["usageMetadata"];
+  let served = info.model;
+  let finished = false;
+
+  const recorder: RequestRecorder = {
+    observe(response) {
+      if (response.usageMetadata) usage = response.usageMetadata;
+    },
+
+    servedBy(model) {
+      served = model;
+    },
+
+    async *tap(stream) {
+      try {
+        for await (const chunk of stream) {
+          recorder.observe(chunk);
+          yield chunk;
+        }
+        recorder.finish(200);
+      } catch (err) {
+        recorder.finish(toUpstreamError(err).status);
+        throw err;
+      } finally {
+        // Only reached unfinished when the consumer stopped early
+        recorder.finish(CANCELLED_STATUS);
+      }
+    },
+
+    finish(status) {
+      if (finished) return;
+      finished = true;
+      const completed = now();
+      const record: UsageRecord = {
+        ts: completed,
+        ...info,
+        model: served,
+        ...(served !== info.model && { requested_model: info.model }),
+        status,
+        latency_ms: completed - startedAt,
+        prompt_tokens: usage?.promptTokenCount ?? 0,
+        completion_tokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        total_tokens: usage?.totalTokenCount ?? 0,
+      };
+      append(record);
+      observeRequest({
+        route: record.endpoint,
+        model: record.model,
+        status,
+        durationSeconds: record.latency_ms / 1000,
+        promptTokens: record.prompt_tokens,
+        completionTokens: record.completion_tokens,
+      });
+    },
+  };
+
+  return recorder;
+}
+
+// --- Queries ---
+
+/** Parse a window (`today`, `24h`, `7d`, ...) into its start time, or undefined if invalid. */
+export function windowStart(window: string, now = Date.now()): number | undefined {
+  if (window === "today") {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    return start.getTime();
+  }
+  const match = window.match(/^(\d+)([hd])$/);
+  if (!match) return undefined;
+  const hours = Number(match[1]) * (match[2] === "d" ? 24 : 1);
+  return Math.max(now - hours * 60 * 60 * 1000, now - RETENTION_MS);
+}
+
+/**
+ * Total tokens per client for requests completed since `since`. The totals
+ * for the latest `since` are kept up to date as requests finish; asking for a
+ * new one (the next day's) rescans the ledger once.
+ */
+export function tokensByClient(since: number): ReadonlyMap<string, number> {
+  if (clientTokens?.since === since) return clientTokens.totals;
+  const totals = new Map<string, number>();
+  for (const r of records) {
+    if (r.ts >= since) totals.set(r.client, (totals.get(r.client) ?? 0) + r.total_tokens);
   }
-  return { requests_by_model };
+  clientTokens = { since, totals };
+  return totals;
+}
+
+function summarize(entries: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = {
+    requests: entries.length,
+    errors: 0,
+    cancelled: 0,
+    fallbacks: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    avg_latency_ms: 0,
+  };
+  let latency = 0;
+  for (const r of entries) {
+    if (r.status === CANCELLED_STATUS) summary.cancelled++;
+    else if (r.status >= 400) summary.errors++;
+    if (r.requested_model) summary.fallbacks++;
+    summary.prompt_tokens += r.prompt_tokens;
+    summary.completion_tokens += r.completion_tokens;
+    summary.total_tokens += r.total_tokens;
+    latency += r.latency_ms;
+  }
+  summary.avg_latency_ms = entries.length > 0 ? Math.round(latency / entries.length) : 0;
+  return summary;
+}
+
+function groupBy(entries: UsageRecord[], key: "model" | "client"): Record<string, UsageSummary> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const r of entries) {
+    const list = groups.get(r[key]) ?? [];
+    list.push(r);
+    groups.set(r[key], list);
+  }
+  const result: Record<string, UsageSummary> = {};
+  for (const [name, list] of groups) {
+    result[name] = summarize(list);
+  }
+  return result;
+}
+
+export function getStats(window = "today", now = Date.now()): StatsReport {
+  const since = windowStart(window, now) ?? 0;
+  const entries = records.filter((r) => r.ts >= since);
+  const by_model = groupBy(entries, "model");
+
+  const requests_by_model: StatsReport["requests_by_model"] = {};
+  const tokens_by_model: StatsReport["tokens_by_model"] = {};
+  for (const [model, summary] of Object.entries(by_model)) {
+    requests_by_model[model] = summary.requests;
+    tokens_by_model[model] = {
+      prompt_tokens: summary.prompt_tokens,
+      completion_tokens: summary.completion_tokens,
+      total_tokens: summary.total_tokens,
+    };
+  }
+
+  return {
+    window,
+    since: new Date(since).toISOString(),
+    totals: summarize(entries),
+    requests_by_model,
+    tokens_by_model,
+    by_model,
+    by_client: groupBy(entries, "client"),
+  };
 }
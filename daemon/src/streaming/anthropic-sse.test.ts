@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { createAnthropicSSEStream } from "./anthropic-sse.js";
+import type { GeminiResponse } from "../services/gemini-client.js";
+
+async function* mockStream(
+  chunks: GeminiResponse[],
+): AsyncGenerator<GeminiResponse> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collectEvents(
+  stream: ReadableStream<string>,
+): Promise<Array<{ event: string; data: any }>> {
+  const reader = stream.getReader();
+  const events: Array<{ event: string; data: any }> = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const match = value.match(/^event: (.+)\ndata: (.+)\n\n$/);
+    if (match) events.push({ event: match[1], data: JSON.parse(match[2]) });
+  }
+  return events;
+}
+
+describe("createAnthropicSSEStream", () => {
+  it("emits the full event sequence for a text response", async () => {
+    const chunks: GeminiResponse[] = [
+      { candidates: [{ content: { parts: [{ text: "Hello" }], role: "model" } }] },
+      {
+        candidates: [
+          { content: { parts: [{ text: " world" }], role: "model" }, finishReason: "STOP" },
+        ],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, totalTokenCount: 7 },
+      },
+    ];
+
+    const events = await collectEvents(
+      createAnthropicSSEStream(mockStream(chunks), "test-model"),
+    );
+
+    expect(events.map((e) => e.event)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(events[0].data.message.model).toBe("test-model");
+    expect(events[2].data.delta).toEqual({ type: "text_delta", text: "Hello" });
+    expect(events[5].data.delta.stop_reason).toBe("end_turn");
+    expect(events[5].data.usage).toEqual({ input_tokens: 5, output_tokens: 2 });
+    // every data payload repeats its event type
+    for (const e of events) expect(e.data.type).toBe(e.event);
+  });
+
+  it("emits tool_use blocks with input_json_delta", async () => {
+    const chunks: GeminiResponse[] = [
+      { candidates: [{ content: { parts: [{ text: "Checking." }], role: "model" } }] },
+      {
+        candidates: [
+          {
+            content: {
+              parts: [{ functionCall: { name: "get_weather", args: { city: "London" } } }],
+              role: "model",
+            },
+            finishReason: "STOP",
+          },
+        ],
+      },
+    ];
+
+    const events = await collectEvents(
+      createAnthropicSSEStream(mockStream(chunks), "test-model"),
+    );
+
+    const toolStart = events.find(
+      (e) => e.event === "content_block_start" && e.data.content_block.type === "tool_use",
+    )!;
+    expect(toolStart.data.index).toBe(1);
+    expect(toolStart.data.content_block.name).toBe("get_weather");
+
+    const jsonDelta = events.find((e) => e.data.delta?.type === "input_json_delta")!;
+    expect(JSON.parse(jsonDelta.data.delta.partial_json)).toEqual({ city: "London" });
+
+    const messageDelta = events.find((e) => e.event === "message_delta")!;
+    expect(messageDelta.data.delta.stop_reason).toBe("tool_use");
+  });
+
+  it("reports upstream failures as an error event", async () => {
+    async function* failing(): AsyncGenerator<GeminiResponse> {
+      throw new Error("Rate limit exceeded");
+    }
+
+    const events = await collectEvents(createAnthropicSSEStream(failing(), "test-model"));
+
+    expect(events.map((e) => e.event)).toEqual(["message_start", "error"]);
+    expect(events[1].data.error.message).toBe("Rate limit exceeded");
+  });
+});
@@ -0,0 +1,140 @@
+import type { GeminiResponse } from "../services/gemini-client.js";
+import {
+  anthropicMessageId,
+  anthropicToolUseId,
+  convertAnthropicUsage,
+  mapStopReason,
+} from "../adapters/gemini-to-anthropic.js";
+
+function sseEvent(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+/**
+ * Translate a Gemini response stream into the Anthropic Messages event sequence:
+ * message_start, (content_block_start, content_block_delta*, content_block_stop)*,
+ * message_delta, message_stop.
+ */
+export function createAnthropicSSEStream(
+  stream: AsyncGenerator<GeminiResponse>,
+  model: string,
+): ReadableStream<string> {
+  const messageId = anthropicMessageId();
+  let started = false;
+  let blockIndex = -1;
+  let openBlock: "text" | null = null;
+  let hasToolUse = false;
+  let finishReason: string | undefined;
+  let usage: GeminiResponse["usageMetadata"];
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(
+          sseEvent("message_start", {
+            message: {
+              id: messageId,
+              type: "message",
+              role: "assistant",
+              model,
+              content: [],
+              stop_reason: null,
+              stop_sequence: null,
+              usage: { input_tokens: 0, output_tokens: 0 },
+            },
+          }),
+        );
+        return;
+      }
+
+      const closeTextBlock = () => {
+        if (openBlock === "text") {
+          controller.enqueue(sseEvent("content_block_stop", { index: blockIndex }));
+          openBlock = null;
+        }
+      };
+
+      try {
+        const { value: chunk, done } = await stream.next();
+
+        if (done) {
+          closeTextBlock();
+          const finalUsage = convertAnthropicUsage(usage);
+          controller.enqueue(
+            sseEvent("message_delta", {
+              delta: {
+                stop_reason: mapStopReason(finishReason, hasToolUse) ?? "end_turn",
+                stop_sequence: null,
+              },
+              usage: finalUsage,
+            }),
+          );
+          controller.enqueue(sseEvent("message_stop", {}));
+          controller.close();
+          return;
+        }
+
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+
+        for (const part of candidate?.content?.parts ?? []) {
+          if (part.functionCall) {
+            closeTextBlock();
+            hasToolUse = true;
+            blockIndex++;
+            controller.enqueue(
+              sseEvent("content_block_start", {
+                index: blockIndex,
+                content_block: {
+                  type: "tool_use",
+                  id: anthropicToolUseId(),
+                  name: part.functionCall.name,
+                  input: {},
+                },
+              }),
+            );
+            controller.enqueue(
+              sseEvent("content_block_delta", {
+                index: blockIndex,
+                delta: {
+                  type: "input_json_delta",
+                  partial_json: JSON.stringify(part.functionCall.args ?? {}),
+                },
+              }),
+            );
+            controller.enqueue(sseEvent("content_block_stop", { index: blockIndex }));
+            continue;
+          }
+
+          if (part.text && !part.thought) {
+            if (openBlock !== "text") {
+              blockIndex++;
+              openBlock = "text";
+              controller.enqueue(
+                sseEvent("content_block_start", {
+                  index: blockIndex,
+                  content_block: { type: "text", text: "" },
+                }),
+              );
+            }
+            controller.enqueue(
+              sseEvent("content_block_delta", {
+                index: blockIndex,
+                delta: { type: "text_delta", text: part.text },
+              }),
+            );
+          }
+        }
+      } catch (err) {
+        // Headers are already sent, so report the failure in-band
+        const message = err instanceof Error ? err.message : String(err);
+        controller.enqueue(
+          sseEvent("error", { error: { type: "api_error", message } }),
+        );
+        controller.close();
+      }
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import type { GeminiResponse } from "../services/gemini-client.js";
+import {
+  extractOllamaText,
+  extractOllamaToolCalls,
+  ollamaFinalStats,
+} from "../adapters/gemini-to-ollama.js";
+
+export type OllamaStreamKind = "chat" | "generate";
+
+/**
+ * Translate a Gemini response stream into Ollama's newline-delimited JSON:
+ * one `done: false` object per chunk, then a `done: true` object with stats.
+ */
+export function createOllamaStream(
+  stream: AsyncGenerator<GeminiResponse>,
+  model: string,
+  kind: OllamaStreamKind,
+  startedAt: number = Date.now(),
+): ReadableStream<string> {
+  let finishReason: string | undefined;
+  let usage: GeminiResponse["usageMetadata"];
+
+  const line = (text: string, extra: Record<string, unknown>, done: boolean): string => {
+    const base = { model, created_at: new Date().toISOString() };
+    const body =
+      kind === "chat"
+        ? { ...base, message: { role: "assistant", content: text, ...extra } }
+        : { ...base, response: text };
+    const stats = done ? ollamaFinalStats(usage, finishReason, startedAt) : {};
+    return JSON.stringify({ ...body, done, ...stats }) + "\n";
+  };
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      try {
+        const { value: chunk, done } = await stream.next();
+
+        if (done) {
+          controller.enqueue(line("", {}, true));
+          controller.close();
+          return;
+        }
+
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+
+        const parts = candidate?.content?.parts ?? [];
+        const text = extractOllamaText(parts);
+        const toolCalls = kind === "chat" ? extractOllamaToolCalls(parts) : [];
+
+        if (text || toolCalls.length > 0) {
+          const extra = toolCalls.length > 0 ? { tool_calls: toolCalls } : {};
+          controller.enqueue(line(text, extra, false));
+        }
+      } catch (err) {
+        // Ollama reports mid-stream failures as an `error` line
+        const message = err instanceof Error ? err.message : String(err);
+        controller.enqueue(JSON.stringify({ error: message }) + "\n");
+        controller.close();
+      }
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { createResponsesSSEStream } from "./responses-sse.js";
+import type { GeminiResponse } from "../services/gemini-client.js";
+
+async function* mockStream(
+  chunks: GeminiResponse[],
+): AsyncGenerator<GeminiResponse> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collectEvents(
+  stream: ReadableStream<string>,
+): Promise<Array<{ event: string; data: any }>> {
+  const reader = stream.getReader();
+  const events: Array<{ event: string; data: any }> = [];
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    for (const block of value.split("\n\n").filter(Boolean)) {
+      const match = block.match(/^event: (.+)\ndata: (.+)$/);
+      if (match) events.push({ event: match[1], data: JSON.parse(match[2]) });
+    }
+  }
+  return events;
+}
+
+describe("createResponsesSSEStream", () => {
+  it("emits typed text events and completes", async () => {
+    const chunks: GeminiResponse[] = [
+      { candidates: [{ content: { parts: [{ text: "Hel" }], role: "model" } }] },
+      {
+        candidates: [
+          { content: { parts: [{ text: "lo" }], role: "model" }, finishReason: "STOP" },
+        ],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+      },
+    ];
+    const onComplete = vi.fn();
+
+    const events = await collectEvents(
+      createResponsesSSEStream(mockStream(chunks), "test-model", { input: "Hi" }, "resp_1", onComplete),
+    );
+
+    expect(events.map((e) => e.event)).toEqual([
+      "response.created",
+      "response.in_progress",
+      "response.output_item.added",
+      "response.content_part.added",
+      "response.output_text.delta",
+      "response.output_text.delta",
+      "response.output_text.done",
+      "response.content_part.done",
+      "response.output_item.done",
+      "response.completed",
+    ]);
+    expect(events.map((e) => e.data.sequence_number)).toEqual(events.map((_, i) => i));
+    expect(events[6].data.text).toBe("Hello");
+
+    const completed = events[events.length - 1].data.response;
+    expect(completed.id).toBe("resp_1");
+    expect(completed.status).toBe("completed");
+    expect(completed.output[0].content[0].text).toBe("Hello");
+    expect(completed.usage).toEqual({ input_tokens: 4, output_tokens: 2, total_tokens: 6 });
+    expect(onComplete).toHaveBeenCalledWith(completed);
+  });
+
+  it("emits function call argument events", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          {
+            content: {
+              parts: [{ functionCall: { name: "search", args: { q: "x" } } }],
+              role: "model",
+            },
+            finishReason: "STOP",
+          },
+        ],
+      },
+    ];
+
+    const events = await collectEvents(
+      createResponsesSSEStream(mockStream(chunks), "test-model", { input: "Hi" }, "resp_2"),
+    );
+
+    const done = events.find((e) => e.event === "response.function_call_arguments.done")!;
+    expect(JSON.parse(done.data.arguments)).toEqual({ q: "x" });
+
+    const completed = events[events.length - 1].data.response;
+    expect(completed.output[0]).toMatchObject({
+      type: "function_call",
+      name: "search",
+      status: "completed",
+    });
+    expect(completed.output[0].call_id).toMatch(/^call_/);
+  });
+
+  it("marks MAX_TOKENS responses incomplete", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          { content: { parts: [{ text: "cut" }], role: "model" }, finishReason: "MAX_TOKENS" },
+        ],
+      },
+    ];
+
+    const events = await collectEvents(
+      createResponsesSSEStream(mockStream(chunks), "test-model", { input: "Hi" }, "resp_3"),
+    );
+
+    const last = events[events.length - 1];
+    expect(last.event).toBe("response.incomplete");
+    expect(last.data.response.incomplete_details).toEqual({ reason: "max_output_tokens" });
+  });
+});
@@ -0,0 +1,188 @@
+import type { GeminiResponse } from "../services/gemini-client.js";
+import type { ResponsesRequest } from "../adapters/responses-to-chat.js";
+import {
+  buildResponseObject,
+  convertResponsesUsage,
+  functionCallId,
+  functionCallItemId,
+  incompleteReason,
+  outputMessageId,
+  type ResponsesObject,
+  type ResponsesOutputItem,
+  type ResponsesOutputMessage,
+} from "../adapters/gemini-to-responses.js";
+
+/**
+ * Translate a Gemini response stream into typed Responses API events
+ * (response.created … response.output_text.delta … response.completed).
+ * `onComplete` receives the final response object once the stream finishes.
+ */
+export function createResponsesSSEStream(
+  stream: AsyncGenerator<GeminiResponse>,
+  model: string,
+  req: ResponsesRequest,
+  id: string,
+  onComplete?: (response: ResponsesObject) => void,
+): ReadableStream<string> {
+  let sequence = 0;
+  let started = false;
+  const output: ResponsesOutputItem[] = [];
+  let openMessage: ResponsesOutputMessage | null = null;
+  let finishReason: string | undefined;
+  let usage: GeminiResponse["usageMetadata"];
+
+  const event = (type: string, data: Record<string, unknown>): string =>
+    `event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequence++, ...data })}\n\n`;
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        const initial = buildResponseObject(id, model, req, {});
+        controller.enqueue(event("response.created", { response: initial }));
+        controller.enqueue(event("response.in_progress", { response: initial }));
+        return;
+      }
+
+      const closeMessage = () => {
+        if (!openMessage) return;
+        const outputIndex = output.indexOf(openMessage);
+        const part = openMessage.content[0];
+        controller.enqueue(
+          event("response.output_text.done", {
+            item_id: openMessage.id,
+            output_index: outputIndex,
+            content_index: 0,
+            text: part.text,
+          }),
+        );
+        controller.enqueue(
+          event("response.content_part.done", {
+            item_id: openMessage.id,
+            output_index: outputIndex,
+            content_index: 0,
+            part,
+          }),
+        );
+        openMessage.status = "completed";
+        controller.enqueue(
+          event("response.output_item.done", { output_index: outputIndex, item: openMessage }),
+        );
+        openMessage = null;
+      };
+
+      try {
+        const { value: chunk, done } = await stream.next();
+
+        if (done) {
+          closeMessage();
+          const reason = incompleteReason(finishReason);
+          const response = buildResponseObject(id, model, req, {
+            status: reason ? "incomplete" : "completed",
+            output,
+            usage: convertResponsesUsage(usage),
+            incomplete_details: reason ? { reason } : null,
+          });
+          onComplete?.(response);
+          controller.enqueue(
+            event(reason ? "response.incomplete" : "response.completed", { response }),
+          );
+          controller.close();
+          return;
+        }
+
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+
+        for (const part of candidate?.content?.parts ?? []) {
+          if (part.functionCall) {
+            closeMessage();
+            const args = JSON.stringify(part.functionCall.args ?? {});
+            const item: ResponsesOutputItem = {
+              type: "function_call",
+              id: functionCallItemId(),
+              call_id: functionCallId(),
+              name: part.functionCall.name,
+              arguments: "",
+              status: "in_progress",
+            };
+            output.push(item);
+            const outputIndex = output.length - 1;
+            controller.enqueue(
+              event("response.output_item.added", { output_index: outputIndex, item: { ...item } }),
+            );
+            controller.enqueue(
+              event("response.function_call_arguments.delta", {
+                item_id: item.id,
+                output_index: outputIndex,
+                delta: args,
+              }),
+            );
+            controller.enqueue(
+              event("response.function_call_arguments.done", {
+                item_id: item.id,
+                output_index: outputIndex,
+                arguments: args,
+              }),
+            );
+            item.arguments = args;
+            item.status = "completed";
+            controller.enqueue(
+              event("response.output_item.done", { output_index: outputIndex, item }),
+            );
+            continue;
+          }
+
+          if (part.text && !part.thought) {
+            if (!openMessage) {
+              openMessage = {
+                type: "message",
+                id: outputMessageId(),
+                status: "in_progress",
+                role: "assistant",
+                content: [],
+              };
+              output.push(openMessage);
+              const outputIndex = output.length - 1;
+              controller.enqueue(
+                event("response.output_item.added", {
+                  output_index: outputIndex,
+                  item: { ...openMessage, content: [] },
+                }),
+              );
+              openMessage.content.push({ type: "output_text", text: "", annotations: [] });
+              controller.enqueue(
+                event("response.content_part.added", {
+                  item_id: openMessage.id,
+                  output_index: outputIndex,
+                  content_index: 0,
+                  part: { type: "output_text", text: "", annotations: [] },
+                }),
+              );
+            }
+            openMessage.content[0].text += part.text;
+            controller.enqueue(
+              event("response.output_text.delta", {
+                item_id: openMessage.id,
+                output_index: output.indexOf(openMessage),
+                content_index: 0,
+                delta: part.text,
+              }),
+            );
+          }
+        }
+      } catch (err) {
+        // Headers are already sent, so report the failure in-band
+        const message = err instanceof Error ? err.message : String(err);
+        const response = buildResponseObject(id, model, req, {
+          status: "failed",
+          output,
+          error: { code: "server_error", message },
+        });
+        controller.enqueue(event("response.failed", { response }));
+        controller.close();
+      }
+    },
+  });
+}
@@ -189,4 +189,85 @@ describe("createSSEStream", () => {
     const parsed = parseSSE(finishChunk!);
     expect(parsed.choices[0].finish_reason).toBe("tool_calls");
   });
+
+  it("emits an error event before [DONE] when output validation fails", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          { content: { parts: [{ text: '{"a":' }], role: "model" } },
+        ],
+      },
+      {
+        candidates: [
+          { content: { parts: [{ text: "1}" }], role: "model" }, finishReason: "STOP" },
+        ],
+      },
+    ];
+    const validateOutput = vi.fn(() => {
+      throw Object.assign(new Error("bad output"), { code: "json_validate_failed" });
+    });
+
+    const stream = createSSEStream(mockStream(chunks), "test-model", { validateOutput });
+    const output = await collectStream(stream);
+
+    expect(validateOutput).toHaveBeenCalledWith('{"a":1}');
+    const error = parseSSE(output[output.length - 2]);
+    expect(error.error).toMatchObject({ message: "bad output", code: "json_validate_failed" });
+    expect(parseSSE(output[output.length - 1])).toBe("[DONE]");
+  });
+
+  it("streams thought parts as reasoning_content deltas", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          { content: { parts: [{ text: "Hmm.", thought: true }], role: "model" } },
+        ],
+      },
+      {
+        candidates: [
+          { content: { parts: [{ text: "Yes" }], role: "model" }, finishReason: "STOP" },
+        ],
+      },
+    ];
+
+    const stream = createSSEStream(mockStream(chunks), "test-model");
+    const output = await collectStream(stream);
+
+    expect(parseSSE(output[0]).choices[0].delta).toEqual({
+      role: "assistant",
+      reasoning_content: "Hmm.",
+    });
+    expect(parseSSE(output[1]).choices[0].delta).toEqual({ content: "Yes" });
+  });
+
+  it("emits a final usage chunk when includeUsage is set", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          { content: { parts: [{ text: "Hi" }], role: "model" }, finishReason: "STOP" },
+        ],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 1, totalTokenCount: 5 },
+      },
+    ];
+    const stream = createSSEStream(mockStream(chunks), "test-model", { includeUsage: true });
+    const output = await collectStream(stream);
+
+    const usageChunk = parseSSE(output[output.length - 2]);
+    expect(usageChunk.choices).toEqual([]);
+    expect(usageChunk.usage).toEqual({ prompt_tokens: 4, completion_tokens: 1, total_tokens: 5 });
+  });
+
+  it("omits the usage chunk by default", async () => {
+    const chunks: GeminiResponse[] = [
+      {
+        candidates: [
+          { content: { parts: [{ text: "Hi" }], role: "model" }, finishReason: "STOP" },
+        ],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 1, totalTokenCount: 5 },
+      },
+    ];
+
+    const output = await collectStream(createSSEStream(mockStream(chunks), "test-model"));
+    expect(output.some((c) => parseSSE(c)?.usage)).toBe(false);
+  });
 });
@@ -1,9 +1,14 @@
 import type { GeminiResponse, GeminiPart } from "../services/gemini-client.js";
 import { v4 as uuidv4 } from "uuid";
-import type {
-  OpenAIChatCompletionChunk,
-  OpenAIChunkToolCall,
+import {
+  convertUsage,
+  joinText,
+  type OpenAIChatCompletionChunk,
+  type OpenAIChunkDelta,
+  type OpenAIChunkToolCall,
 } from "../adapters/gemini-to-openai.js";
+import { formatErrorResponse } from "../errors.js";
+import { thoughtSignatures } from "../services/thought-signatures.js";
 
 const FINISH_REASON_MAP: Record<string, string> = {
   STOP: "stop",
@@ -27,14 +32,27 @@ function extractFunctionCalls(parts: GeminiPart[]): GeminiPart[] {
   return parts.filter((p) => p.functionCall !== undefined);
 }
 
+export interface SSEStreamOptions {
+  /**
+   * Called with the full text once the stream ends without tool calls. A thrown
+   * error is reported to the client as an error event before `[DONE]`.
+   */
+  validateOutput?: (text: string) => void;
+  /** Emit a final chunk carrying usage (`stream_options.include_usage`). */
+  includeUsage?: boolean;
+}
+
 export function createSSEStream(
   stream: AsyncGenerator<GeminiResponse>,
   model: string,
+  options: SSEStreamOptions = {},
 ): ReadableStream<string> {
   const completionId = `chatcmpl-${uuidv4()}`;
   const created = Math.floor(Date.now() / 1000);
   let sentRole = false;
   let toolCallIndex = 0;
+  let fullText = "";
+  let lastUsage: GeminiResponse["usageMetadata"];
 
   return new ReadableStream<string>({
     async pull(controller) {
@@ -42,26 +60,53 @@ export function createSSEStream(
         const { value: chunk, done } = await stream.next();
 
         if (done) {
+          if (options.validateOutput && toolCallIndex === 0) {
+            try {
+              options.validateOutput(fullText);
+            } catch (err) {
+              const { message, code } = err as { message: string; code?: string };
+              const payload = formatErrorResponse(message, "server_error", undefined, code);
+              controller.enqueue(`data: ${JSON.stringify(payload)}\n\n`);
+            }
+          }
+          if (options.includeUsage) {
+            const usageChunk: OpenAIChatCompletionChunk = {
+              id: completionId,
+              object: "chat.completion.chunk",
+              created,
+              model,
+              choices: [],
+              usage: lastUsage
+                ? convertUsage(lastUsage)
+                : { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+            };
+            controller.enqueue(`data: ${JSON.stringify(usageChunk)}\n\n`);
+          }
           controller.enqueue("data: [DONE]\n\n");
           controller.close();
           return;
         }
 
+        if (chunk.usageMetadata) lastUsage = chunk.usageMetadata;
         const candidate = chunk.candidates?.[0];
         const parts = candidate?.content?.parts ?? [];
 
         // Check for function calls
         const functionCalls = extractFunctionCalls(parts);
         if (functionCalls.length > 0) {
-          const toolCalls: OpenAIChunkToolCall[] = functionCalls.map((fc, i) => ({
-            index: toolCallIndex + i,
-            id: `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`,
-            type: "function" as const,
-            function: {
-              name: fc.functionCall!.name,
-              arguments: JSON.stringify(fc.functionCall!.args ?? {}),
-            },
-          }));
+          const toolCalls: OpenAIChunkToolCall[] = functionCalls.map((fc, i) => {
+            const id = `call_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+            thoughtSignatures.record(id, fc);
+            return {
+              index: toolCallIndex + i,
+              id,
+              type: "function" as const,
+              function: {
+                name: fc.functionCall!.name,
+                arguments: JSON.stringify(fc.functionCall!.args ?? {}),
+              },
+            };
+          });
           toolCallIndex += functionCalls.length;
 
           const chunkData: OpenAIChatCompletionChunk = {
@@ -85,28 +130,21 @@ export function createSSEStream(
           return;
         }
 
-        // Text content
-        const text = parts
-          .filter((p) => p.text !== undefined)
-          .map((p) => p.text)
-          .join("");
+        // Thought summaries and text content
+        const reasoning = joinText(parts, true);
+        const text = joinText(parts);
 
-        if (text) {
+        if (reasoning || text) {
+          fullText += text;
+          const delta: OpenAIChunkDelta = sentRole ? {} : { role: "assistant" };
+          if (reasoning) delta.reasoning_content = reasoning;
+          if (text) delta.content = text;
           const chunkData: OpenAIChatCompletionChunk = {
             id: completionId,
             object: "chat.completion.chunk",
             created,
             model,
-            choices: [
-              {
-                index: 0,
-                delta: {
-                  ...(sentRole ? {} : { role: "assistant" }),
-                  content: text,
-                },
-                finish_reason: null,
-              },
-            ],
+            choices: [{ index: 0, delta, finish_reason: null }],
           };
           sentRole = true;
           controller.enqueue(`data: ${JSON.stringify(chunkData)}\n\n`);
@@ -350,7 +350,7 @@ final class AppDelegate: NSObject, NSApplicationDelegate, NSMenuDelegate {
         // Add gemini-daemon provider
         providers["gemini-daemon"] = [
             "baseUrl": "http://127.0.0.1:7965/v1",
-            "apiKey": "none",
+            "apiKey": DaemonAPIKey.current ?? "none",
             "api": "openai-completions",
             "models": [
                 ["id": "gemini-2.5-pro", "name": "Gemini 2.5 Pro (local)", "contextWindow": 1000000, "maxTokens": 65536],
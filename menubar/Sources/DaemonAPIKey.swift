@@ -0,0 +1,23 @@
+import Foundation
+
+/// The daemon API key the menubar presents once the daemon has keys. Create
+/// one with `gemini-daemon keys create menubar` and store it with
+/// `defaults write com.local.gemini-daemon-menubar daemonAPIKey <key>`.
+enum DaemonAPIKey {
+    static var current: String? {
+        let key = UserDefaults.standard.string(forKey: "daemonAPIKey")?
+            .trimmingCharacters(in: .whitespacesAndNewlines)
+        return key?.isEmpty == false ? key : nil
+    }
+}
+
+extension URLRequest {
+    /// A request to the daemon, carrying the configured API key if there is one.
+    static func daemon(_ url: URL) -> URLRequest {
+        var request = URLRequest(url: url)
+        if let key = DaemonAPIKey.current {
+            request.setValue("Bearer \(key)", forHTTPHeaderField: "Authorization")
+        }
+        return request
+    }
+}
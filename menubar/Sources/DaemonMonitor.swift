@@ -148,7 +148,7 @@ final class DaemonMonitor {
 
     func fetchQuota(completion: @escaping ([QuotaInfo]) -> Void) {
         let quotaURL = URL(string: "http://127.0.0.1:7965/quota")!
-        let task = session.dataTask(with: quotaURL) { data, _, error in
+        let task = session.dataTask(with: .daemon(quotaURL)) { data, _, error in
             guard let data, error == nil,
                   let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
                   let quotas = json["quotas"] as? [[String: Any]] else {
@@ -170,7 +170,7 @@ final class DaemonMonitor {
 
     func fetchStats(completion: @escaping ([String: Int]) -> Void) {
         let statsURL = URL(string: "http://127.0.0.1:7965/stats")!
-        let task = session.dataTask(with: statsURL) { data, _, error in
+        let task = session.dataTask(with: .daemon(statsURL)) { data, _, error in
             guard let data, error == nil,
                   let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
                   let requestsByModel = json["requests_by_model"] as? [String: Int] else {
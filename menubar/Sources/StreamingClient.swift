@@ -39,9 +39,11 @@ final class StreamingClient: NSObject, URLSessionDataDelegate {
 
         messages.append(ChatMessage(role: .user, content: prompt))
 
-        var request = URLRequest(url: endpoint)
+        var request = URLRequest.daemon(endpoint)
         request.httpMethod = "POST"
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
+        // Someone is watching the panel; go ahead of batch traffic
+        request.setValue("interactive", forHTTPHeaderField: "x-gemini-daemon-priority")
 
         let messagesPayload = messages.map { msg -> [String: String] in
             ["role": msg.role.rawValue, "content": msg.content]